@@ -1,15 +1,36 @@
-import React, { useState } from 'react';
-import { View } from './types';
+import React, { useEffect, useState } from 'react';
+import { AuthUser, View } from './types';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
 import ChatAssistant from './components/ChatAssistant';
 import ReportAnalyzer from './components/ReportAnalyzer';
 import VitalScan from './components/VitalScan';
-import { Activity, AlertCircle, Zap } from 'lucide-react';
+import AuthScreen from './components/AuthScreen';
+import AccountSettings from './components/AccountSettings';
+import ProfileEditor from './components/ProfileEditor';
+import VisitSummary from './components/VisitSummary';
+import { authService, AUTH_EXPIRED_EVENT } from './services/authService';
+import { Activity, AlertCircle, Zap, Loader2 } from 'lucide-react';
 
 const App: React.FC = () => {
   const [activeView, setActiveView] = useState<View>(View.DASHBOARD);
   const [showDisclaimer, setShowDisclaimer] = useState(true);
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [checkingSession, setCheckingSession] = useState(true);
+
+  // Restore the stored session, and drop back to sign-in whenever the backend rejects it
+  useEffect(() => {
+    authService.currentUser().then(setUser).finally(() => setCheckingSession(false));
+
+    const handleExpired = () => setUser(null);
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
+
+  const handleSignedOut = () => {
+    setUser(null);
+    setActiveView(View.DASHBOARD);
+  };
 
   const renderContent = () => {
     switch (activeView) {
@@ -21,11 +42,29 @@ const App: React.FC = () => {
         return <ReportAnalyzer />;
       case View.VITAL_SCAN:
         return <VitalScan />;
+      case View.PROFILE:
+        return <ProfileEditor />;
+      case View.VISIT_SUMMARY:
+        return <VisitSummary />;
+      case View.ACCOUNT:
+        return <AccountSettings user={user!} onUserChange={setUser} onSignedOut={handleSignedOut} />;
       default:
         return <Dashboard />;
     }
   };
 
+  if (checkingSession) {
+    return (
+      <div className="flex h-screen items-center justify-center bg-slate-900 text-slate-400">
+        <Loader2 size={32} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthScreen onAuthenticated={setUser} />;
+  }
+
   return (
     <div className="flex h-screen bg-slate-50 overflow-hidden">
       {/* Disclaimer Modal */}
@@ -51,7 +90,7 @@ const App: React.FC = () => {
       )}
 
       {/* Sidebar */}
-      <Sidebar activeView={activeView} onViewChange={setActiveView} />
+      <Sidebar activeView={activeView} onViewChange={setActiveView} user={user} />
 
       {/* Main Content Area */}
       <main className="flex-1 flex flex-col overflow-hidden">
@@ -1,13 +1,68 @@
 import mongoose from 'mongoose';
 
+// One typed value parsed from the OCR text (see shared/labParser.js)
+const labResultSchema = new mongoose.Schema({
+  analyte: { type: String, required: true },
+  name: String,
+  value: { type: Number, required: true },
+  unit: String,
+  rawValue: Number,
+  rawUnit: String,
+  referenceRange: {
+    low: Number,
+    high: Number,
+    label: String,
+    source: { type: String, enum: ['report', 'default'] }
+  },
+  flag: { type: String, enum: ['low', 'normal', 'high'] },
+  sourceLine: String,
+  page: Number,
+  confidence: Number,
+  verified: Boolean
+}, { _id: false });
+
+// One change the patient made while reviewing the parsed values
+const labEditSchema = new mongoose.Schema({
+  analyte: { type: String, required: true },
+  action: { type: String, enum: ['corrected', 'added', 'removed'], required: true },
+  from: Number,
+  to: Number,
+  unit: String,
+  editedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const pageSchema = new mongoose.Schema({
+  page: { type: Number, required: true },
+  fileName: String,
+  filePage: Number,
+  source: { type: String, enum: ['text-layer', 'ocr', 'browser-ocr'] },
+  charCount: Number,
+  confidence: Number,
+  psm: Number
+}, { _id: false });
+
 const medicalReportSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
   patientName: {
     type: String,
     default: 'Unknown'
   },
   uploadedImage: {
-    type: String, // Base64 string
-    required: true
+    type: String // Base64 string of the first photo; absent for PDF-only uploads
+  },
+  fileNames: {
+    type: [String],
+    default: []
+  },
+  // Where each page's text came from; extractedText holds them joined with page markers
+  pages: {
+    type: [pageSchema],
+    default: []
   },
   extractedText: {
     type: String,
@@ -17,6 +72,16 @@ const medicalReportSchema = new mongoose.Schema({
     type: String,
     required: true
   },
+  labResults: {
+    type: [labResultSchema],
+    default: []
+  },
+  labEdits: {
+    type: [labEditSchema],
+    default: []
+  },
+  // Set once the patient has checked the parsed values against the original
+  reviewedAt: Date,
   uploadedAt: {
     type: Date,
     default: Date.now
@@ -0,0 +1,168 @@
+import { spawn } from 'child_process';
+import { fileURLToPath } from 'url';
+import { dirname, join } from 'path';
+import crypto from 'crypto';
+
+// Calls the chat, diet-plan, insights and vitals-narrative routes once each
+// with the stub LLM provider, so the prompt and provider plumbing can be
+// checked without API keys.
+//   npm run check:llm
+//
+// Always runs against the database-free legacy server (server.js). The
+// production routes in index.js need MongoDB and a signed-in user, so they
+// are only checked when CHECK_MONGODB_URI names a throwaway database: a
+// temporary account is registered there and deleted again afterwards.
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PORT = process.env.CHECK_PORT || 5055;
+const BASE = `http://localhost:${PORT}`;
+
+const report = {
+  reportType: 'Blood Test',
+  uploadedAt: '2026-01-10',
+  extractedText: 'Hemoglobin 11.2 g/dL (13.5-17.5). LDL cholesterol 162 mg/dL.',
+  aiAnalysis: 'Mild anaemia and raised LDL cholesterol.'
+};
+
+const CHAT_CHECKS = [
+  {
+    name: 'Chat',
+    path: '/api/chat/message',
+    body: {
+      messages: [{ role: 'user', text: 'What does my hemoglobin result mean?' }],
+      medicalReports: [report]
+    },
+    expect: (data) => data.response.includes('What does my hemoglobin result mean?') && data.triage?.level === 'none'
+  },
+  {
+    name: 'Chat triage',
+    path: '/api/chat/message',
+    body: { messages: [{ role: 'user', text: 'I have chest pain spreading to my left arm' }] },
+    expect: (data) => data.triage?.level === 'emergency'
+  },
+  {
+    name: 'Diet plan',
+    path: '/api/chat/diet-plan',
+    body: { goal: 'Lower cholesterol', medicalReports: [report] },
+    expect: (data) => data.response.includes('Lower cholesterol')
+  },
+  {
+    name: 'Vitals narrative',
+    path: '/api/chat/vitals-narrative',
+    body: { findings: ['Heart rate: 72 bpm (ref 60-100) — normal'], status: 'normal' },
+    expect: (data) => data.response.includes('Heart rate: 72 bpm') && !('triage' in data)
+  }
+];
+
+const SERVERS = [
+  {
+    name: 'legacy server (server.js)',
+    script: 'server.js',
+    checks: [
+      ...CHAT_CHECKS,
+      {
+        name: 'Insights',
+        path: '/api/chat/insights',
+        body: { medicalReports: [report] },
+        expect: (data) => data.response.includes('Analyze these medical reports')
+      }
+    ]
+  },
+  {
+    name: 'main server (index.js)',
+    script: 'index.js',
+    mongodbUri: process.env.CHECK_MONGODB_URI,
+    checks: [
+      ...CHAT_CHECKS,
+      {
+        name: 'Insights',
+        path: '/api/chat/insights',
+        body: { medicalReports: [report] },
+        expect: (data) => data.response.includes("Analyze the patient's medical history")
+      }
+    ]
+  }
+];
+
+const waitForServer = async (server) => {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    if (server.exitCode !== null) throw new Error(`server exited with code ${server.exitCode}`);
+    try {
+      const response = await fetch(`${BASE}/`);
+      if (response.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+  throw new Error('server did not start within 10 seconds');
+};
+
+const request = async (method, path, body, token) => {
+  const response = await fetch(`${BASE}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...(token && { Authorization: `Bearer ${token}` }) },
+    body: body && JSON.stringify(body)
+  });
+  return { response, data: await response.json() };
+};
+
+// A fresh account so the check never touches real data
+const register = async () => {
+  const { response, data } = await request('POST', '/api/auth/register', {
+    name: 'LLM check',
+    email: `llm-check-${crypto.randomBytes(6).toString('hex')}@example.invalid`,
+    password: crypto.randomBytes(16).toString('hex')
+  });
+  if (!response.ok || !data.token) throw new Error(`could not register a check user (${response.status}): ${data.error}`);
+  return data.token;
+};
+
+const run = async (check, token) => {
+  const { response, data } = await request('POST', check.path, check.body, token);
+  if (!response.ok || !data.success || !check.expect(data)) {
+    throw new Error(`${check.name}: unexpected response (${response.status}) ${JSON.stringify(data).slice(0, 300)}`);
+  }
+  console.log(`✅ ${check.name}: ${check.path}`);
+};
+
+const checkServer = async ({ name, script, mongodbUri, checks }) => {
+  console.log(`\n--- ${name} ---\n`);
+
+  // The checks look for the request echoed back, so no fixed stub reply
+  const { LLM_STUB_REPLY, ...env } = process.env;
+  const server = spawn(process.execPath, [join(__dirname, script)], {
+    cwd: __dirname,
+    env: { ...env, PORT: String(PORT), LLM_PROVIDERS: 'stub', ...(mongodbUri && { MONGODB_URI: mongodbUri }) },
+    stdio: ['ignore', 'ignore', 'inherit']
+  });
+
+  let token;
+  try {
+    await waitForServer(server);
+    if (mongodbUri) token = await register();
+    for (const check of checks) await run(check, token);
+  } finally {
+    if (token) await request('DELETE', '/api/auth/me', undefined, token).catch(() => {});
+    server.kill();
+    await new Promise(resolve => server.exitCode !== null ? resolve() : server.once('exit', resolve));
+  }
+};
+
+console.log('\n=== LLM Route Check (stub provider) ===');
+
+let failed = false;
+try {
+  for (const server of SERVERS) {
+    if (server.script === 'index.js' && !server.mongodbUri) {
+      console.log(`\n⚠️  Skipped the ${server.name}: set CHECK_MONGODB_URI to a throwaway database to check its routes.`);
+      continue;
+    }
+    await checkServer(server);
+  }
+  console.log('\nAll checked routes answered through the stub provider.\n');
+} catch (error) {
+  failed = true;
+  console.error('❌', error.message);
+}
+process.exit(failed ? 1 : 0);
@@ -1,16 +1,37 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import tesseract from 'node-tesseract-ocr';
 import { spawn } from 'child_process';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import mongoose from 'mongoose';
 import MedicalReport from './MedicalReport.js';
+import HealthData from './models/HealthData.js';
+import User from './models/User.js';
+import UserProfile from './models/UserProfile.js';
+import SymptomLog from './models/SymptomLog.js';
+import ChatSession from './models/ChatSession.js';
+import scanRoutes from './routes/scans.js';
+import authRoutes from './routes/auth.js';
+import profileRoutes from './routes/profile.js';
+import riskRoutes from './routes/risk.js';
+import fhirRoutes from './routes/fhir.js';
+import healthDataRoutes from './routes/healthData.js';
+import chatSessionRoutes from './routes/chatSessions.js';
+import { requireAuth } from './middleware/auth.js';
+import { ANALYTES, parseLabPages, correctLabResult, manualLabResult, describeLabResults } from '../shared/labParser.js';
+import { ingestDocument, ingestText, IngestError } from './lib/documentIngest.js';
+import { attachConfidence } from './lib/ocrPipeline.js';
+import { extractSymptoms } from './lib/symptoms.js';
+import { triage, describeTriage } from '../shared/triage.js';
+import { isPlausible } from '../shared/vitalRanges.js';
+import { streamCompletion } from './lib/chatStream.js';
+import { buildConversation, normalizeMessages, summaryPrompt } from './lib/conversation.js';
+import { getReportIndex } from './lib/reportIndex.js';
+import { loadLatestVitals, describeVitals, sourcesCitedIn } from './lib/chatSources.js';
+import { compileVisitSummary, describeVisitSummary, MAX_RANGE_DAYS, MAX_SENSOR_READINGS } from './lib/visitSummary.js';
+import { llmFromEnv, describeLlm } from './lib/llm/index.js';
 import bodyParser from 'body-parser';
-import Groq from 'groq-sdk';
-
-// Initialize Groq client
 
 
 // ES Module setup
@@ -24,9 +45,8 @@ const PORT = process.env.PORT || 5000;
 
 // MongoDB Connection
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/vivitsu_health';
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY
-});
+// Chat and analysis models, in fallback order (see lib/llm/index.js)
+const llm = llmFromEnv();
 
 mongoose.connect(MONGODB_URI)
   .then(() => console.log('✅ MongoDB Connected Successfully'))
@@ -40,18 +60,37 @@ app.use(bodyParser.urlencoded({
 // Middleware
 app.use(cors({
   origin: '*', // Allow all origins in development
-  methods: ['GET', 'POST', 'DELETE'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
   credentials: true
 }));
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true }));
 
-// OCR Configuration
-const ocrConfig = {
-  lang: 'eng',
-  oem: 1,
-  psm: 3
-};
+// Accounts and sessions (/api/auth/*)
+app.use('/api', authRoutes);
+
+// Patient demographics and risk factors (GET/PUT /api/profile)
+app.use('/api', profileRoutes);
+
+// Cardiovascular risk score and eye screening results
+app.use('/api', riskRoutes);
+
+// Vital scan history (GET/POST /api/scans, GET /api/health)
+app.use('/api', scanRoutes);
+
+// FHIR R4 Bundle of scans, sensor readings and lab reports (GET /api/fhir/export)
+app.use('/api', fhirRoutes);
+
+// Vitals imported from wearable exports (POST /api/health-data/import)
+app.use('/api', healthDataRoutes);
+
+// Saved chat conversations (/api/chat/sessions/*)
+app.use('/api', chatSessionRoutes);
+
+// Every medical report and chat route acts on behalf of the signed-in user
+app.use('/api/medical', requireAuth);
+app.use('/api/chat', requireAuth);
+app.use('/api/visit-summary', requireAuth);
 
 // Medical Analysis Function using LOCAL Hugging Face
 async function analyzeMedicalReport(extractedText) {
@@ -111,45 +150,54 @@ async function analyzeMedicalReport(extractedText) {
   });
 }
 
-const healthDataSchema = new mongoose.Schema({
-  bpm: {
-    type: Number,
-    required: true
-  },
-  spo2: {
-    type: Number,
-    required: true
-  },
-  timestamp: {
-    type: Date,
-    default: Date.now
-  }
-}, {
-  timestamps: true  // Adds createdAt and updatedAt automatically
-});
+// Upper bound for GET /data?limit=
+const MAX_READINGS = 500;
 
-const HealthData = mongoose.model('HealthData', healthDataSchema);
+const ocrWords = (pages) => pages
+  .filter(p => p.words?.length)
+  .map(({ page, text, confidence, words }) => ({ page, text, confidence, words }));
 
 // API Endpoint to receive data from ESP32
+// The device identifies its owner with the key shown under Account settings
 app.post('/data', async (req, res) => {
   try {
-    const { bpm, spo2 } = req.body;
+    const { bpm, spo2, systolic, diastolic } = req.body;
+    const deviceKey = req.get('X-Device-Key') || req.body.deviceKey;
+
+    // Only a plain string may reach the query; an object such as
+    // { "$ne": null } would match any user
+    const owner = typeof deviceKey === 'string' && deviceKey ? await User.findOne({ deviceKey }) : null;
+    if (!owner) {
+      return res.status(401).json({ error: 'Unknown or missing device key' });
+    }
+    // A MAX30102 with no finger on it reports 0 for both
+    if (!isPlausible('bpm', Number(bpm)) || !isPlausible('spo2', Number(spo2))) {
+      return res.status(400).json({ error: 'bpm and spo2 are required and must be plausible readings' });
+    }
     
+    // The cuff module is optional; a pair it could not measure is left out
+    const hasPressure = isPlausible('systolic', Number(systolic)) && isPlausible('diastolic', Number(diastolic));
     const newData = new HealthData({
+      userId: owner._id,
       bpm: bpm,
-      spo2: spo2
+      spo2: spo2,
+      systolic: hasPressure ? systolic : undefined,
+      diastolic: hasPressure ? diastolic : undefined
     });
     
     await newData.save();
     res.status(200).json({ message: 'Data saved successfully' });
   } catch (error) {
+    // The same reading posted twice within a second
+    if (error.code === 11000) return res.status(200).json({ message: 'Duplicate reading ignored' });
     res.status(500).json({ error: 'Error saving data' });
   }
 });
 
-app.get('/data', async (req, res) => {
+app.get('/data', requireAuth, async (req, res) => {
   try {
-    const data = await HealthData.find().sort({ timestamp: -1 }).limit(50);
+    const limit = Math.min(parseInt(req.query.limit, 10) || 50, MAX_READINGS);
+    const data = await HealthData.find({ userId: req.user._id }).sort({ timestamp: -1 }).limit(limit);
     res.status(200).json(data);
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch data' });
@@ -160,56 +208,70 @@ app.post('/api/medical/analyze', async (req, res) => {
   console.log('\n🔵 === NEW MEDICAL ANALYSIS REQUEST ===');
   
   try {
+    // Multi-file uploads send `files`; single-image clients still send `image` + `mimeType`.
+    // In offline mode the browser has already run OCR and sends only `pages` of text.
     const { image, mimeType } = req.body;
+    const textPages = Array.isArray(req.body.pages) && req.body.pages.length ? req.body.pages : null;
+    const files = Array.isArray(req.body.files) && req.body.files.length
+      ? req.body.files
+      : image && mimeType ? [{ data: image, mimeType, name: 'image' }] : [];
     
-    if (!image || !mimeType) {
-      console.error('❌ Missing image or mimeType');
+    if (!textPages && (!files.length || files.some(f => !f.data || !f.mimeType))) {
+      console.error('❌ Missing file data or mimeType');
       return res.status(400).json({ 
-        error: "Missing required fields: image and mimeType",
+        error: "Missing required fields: files (or image and mimeType, or pages of text)",
         success: false
       });
     }
     
-    console.log('📥 Request received:', { 
-      mimeType, 
-      imageSize: `${(image.length / 1024).toFixed(2)} KB` 
-    });
-    
-    const supportedTypes = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp'];
-    if (!supportedTypes.includes(mimeType)) {
-      console.error('❌ Unsupported file type:', mimeType);
-      return res.status(400).json({ 
-        error: `Unsupported file type: ${mimeType}`,
-        success: false
-      });
+    if (textPages) {
+      console.log('📥 Request received: browser OCR text,', textPages.length, 'page(s)');
+    } else {
+      console.log('📥 Request received:', files.map(f => ({
+        name: f.name,
+        mimeType: f.mimeType,
+        size: `${(f.data.length / 1024).toFixed(2)} KB`
+      })));
     }
     
-    console.log('🔍 Starting OCR extraction...');
-    const imageBuffer = Buffer.from(image, 'base64');
-    
+    console.log('🔍 Extracting text...');
+    let pages;
     let extractedText;
     try {
-      extractedText = await tesseract.recognize(imageBuffer, ocrConfig);
-      console.log('✅ OCR complete. Extracted', extractedText?.length || 0, 'characters');
-      console.log('📝 Preview:', extractedText?.substring(0, 100));
-    } catch (ocrError) {
-      console.error('❌ OCR Error:', ocrError.message);
+      ({ pages, text: extractedText } = textPages ? ingestText(textPages) : await ingestDocument(files));
+      console.log('✅ Extraction complete.', pages.length, 'page(s),', extractedText.length, 'characters');
+      console.log('📝 Preview:', extractedText.substring(0, 100));
+    } catch (ingestError) {
+      console.error('❌ Extraction Error:', ingestError.message);
+      if (ingestError instanceof IngestError) {
+        return res.status(ingestError.status).json({ error: ingestError.message, success: false });
+      }
       return res.status(500).json({ 
-        error: "OCR extraction failed. Make sure Tesseract is installed.",
-        details: ocrError.message,
+        error: "Text extraction failed. Make sure Tesseract and poppler-utils are installed.",
+        details: ingestError.message,
+        // Lets the client retry photos with on-device OCR
+        code: 'EXTRACTION_FAILED',
         success: false
       });
     }
     
     if (!extractedText || extractedText.trim().length < 20) {
       console.error('❌ Insufficient text extracted');
+      const ocrConfidence = pages.filter(p => p.confidence !== undefined).map(p => p.confidence);
       return res.status(400).json({ 
-        error: "Could not extract sufficient text. Please use a clearer image.",
+        error: ocrConfidence.length
+          ? `Could not read enough text (OCR confidence ${Math.max(...ocrConfidence)}%). Photograph the page flat, in good light, with all four edges in frame.`
+          : "Could not extract sufficient text. Please use clearer images.",
         extractedText: extractedText || "",
         success: false
       });
     }
     
+    // Structured values come from the deterministic parser, not the LLM
+    const profile = await UserProfile.findOne({ userId: req.user._id });
+    const labResults = attachConfidence(parseLabPages(pages, { sex: profile?.sex }), pages);
+    console.log(`🧪 Parsed ${labResults.length} lab values`);
+    
     console.log('🤖 Starting LOCAL AI analysis...');
     let analysis;
     try {
@@ -228,10 +290,15 @@ app.post('/api/medical/analyze', async (req, res) => {
     // Save to MongoDB
     console.log('💾 Saving to MongoDB...');
     try {
+      const firstImage = files.find(f => f.mimeType.startsWith('image/'));
       const newReport = new MedicalReport({
-        uploadedImage: image.substring(0, 50000), // Limit to 50KB for storage
+        userId: req.user._id,
+        uploadedImage: firstImage?.data.substring(0, 50000), // Limit to 50KB for storage
+        fileNames: textPages ? pages.map(p => p.fileName) : files.map((f, i) => f.name || `file-${i + 1}`),
+        pages: pages.map(({ page, fileName, filePage, source, text, confidence, psm }) => ({ page, fileName, filePage, source, charCount: text.length, confidence, psm })),
         extractedText: extractedText.trim(),
         aiAnalysis: analysis,
+        labResults,
         uploadedAt: new Date()
       });
       
@@ -243,6 +310,10 @@ app.post('/api/medical/analyze', async (req, res) => {
       return res.status(200).json({ 
         extractedText: extractedText.trim(),
         analysis: analysis,
+        labResults,
+        pages: savedReport.pages,
+        // Per-word confidence is only needed while the user reviews this upload
+        ocr: ocrWords(pages),
         reportId: savedReport._id,
         success: true,
         processedAt: new Date().toISOString()
@@ -256,6 +327,8 @@ app.post('/api/medical/analyze', async (req, res) => {
       return res.status(200).json({ 
         extractedText: extractedText.trim(),
         analysis: analysis,
+        labResults,
+        ocr: ocrWords(pages),
         success: true,
         dbWarning: "Analysis completed but failed to save to database",
         processedAt: new Date().toISOString()
@@ -275,7 +348,7 @@ app.post('/api/medical/analyze', async (req, res) => {
 // Get All Reports (Latest 50)
 app.get('/api/medical/reports', async (req, res) => {
   try {
-    const reports = await MedicalReport.find()
+    const reports = await MedicalReport.find({ userId: req.user._id })
       .select('-uploadedImage') // Exclude image data for performance
       .sort({ uploadedAt: -1 })
       .limit(50);
@@ -299,7 +372,7 @@ app.get('/api/medical/reports', async (req, res) => {
 // Get Single Report by ID
 app.get('/api/medical/reports/:id', async (req, res) => {
   try {
-    const report = await MedicalReport.findById(req.params.id);
+    const report = await MedicalReport.findOne({ _id: req.params.id, userId: req.user._id });
     
     if (!report) {
       return res.status(404).json({ 
@@ -323,10 +396,95 @@ app.get('/api/medical/reports/:id', async (req, res) => {
   }
 });
 
+// Save the patient's review of the parsed values. The body carries the full
+// checked list; differences from what was stored become edit history.
+app.patch('/api/medical/reports/:id/lab-results', async (req, res) => {
+  try {
+    const submitted = req.body.labResults;
+    if (!Array.isArray(submitted) || submitted.some(r => typeof r?.analyte !== 'string' || !Number.isFinite(r?.value))) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'labResults must be a list of { analyte, value }' 
+      });
+    }
+    if (new Set(submitted.map(r => r.analyte)).size !== submitted.length) {
+      return res.status(400).json({ success: false, error: 'Each lab test can appear only once' });
+    }
+
+    const report = await MedicalReport.findOne({ _id: req.params.id, userId: req.user._id });
+    if (!report) {
+      return res.status(404).json({ 
+        success: false, 
+        error: 'Report not found' 
+      });
+    }
+    // Values are in the analyte's canonical unit, the first in its list
+    for (const { analyte, value, page } of submitted) {
+      const def = ANALYTES.find(a => a.id === analyte);
+      if (!def) {
+        return res.status(400).json({ success: false, error: `Unknown lab test: ${analyte}` });
+      }
+      const [min, max] = def.units[0].plausible;
+      if (value < min || value > max) {
+        return res.status(400).json({ success: false, error: `${def.name} must be between ${min} and ${max} ${def.unit}` });
+      }
+      if (page !== undefined && page !== null && !(Number.isInteger(page) && page >= 1 && page <= report.pages.length)) {
+        return res.status(400).json({ success: false, error: `page must be between 1 and ${report.pages.length}` });
+      }
+    }
+    const profile = await UserProfile.findOne({ userId: req.user._id });
+
+    const current = report.labResults.map(r => r.toObject());
+    const labResults = [];
+    const edits = [];
+    for (const { analyte, value, page } of submitted) {
+      const existing = current.find(r => r.analyte === analyte);
+      if (existing) {
+        const corrected = correctLabResult(existing, value);
+        if (corrected.value !== existing.value) {
+          edits.push({ analyte, action: 'corrected', from: existing.value, to: corrected.value, unit: existing.unit });
+          labResults.push(corrected);
+        } else {
+          labResults.push({ ...existing, verified: true });
+        }
+        continue;
+      }
+      const added = manualLabResult(analyte, value, { sex: profile?.sex, page });
+      edits.push({ analyte, action: 'added', to: added.value, unit: added.unit });
+      labResults.push(added);
+    }
+    for (const r of current) {
+      if (!submitted.some(s => s.analyte === r.analyte)) {
+        edits.push({ analyte: r.analyte, action: 'removed', from: r.value, unit: r.unit });
+      }
+    }
+
+    report.labResults = labResults;
+    report.labEdits.push(...edits);
+    report.reviewedAt = new Date();
+    await report.save();
+
+    console.log(`✏️  Reviewed report ${req.params.id}: ${edits.length} edit(s)`);
+
+    res.json({ 
+      success: true, 
+      labResults: report.labResults,
+      labEdits: report.labEdits,
+      reviewedAt: report.reviewedAt
+    });
+  } catch (error) {
+    console.error('❌ Error saving lab review:', error.message);
+    res.status(500).json({ 
+      success: false, 
+      error: error.message 
+    });
+  }
+});
+
 // Delete Report
 app.delete('/api/medical/reports/:id', async (req, res) => {
   try {
-    const deletedReport = await MedicalReport.findByIdAndDelete(req.params.id);
+    const deletedReport = await MedicalReport.findOneAndDelete({ _id: req.params.id, userId: req.user._id });
     
     if (!deletedReport) {
       return res.status(404).json({ 
@@ -366,7 +524,17 @@ app.get('/', (req, res) => {
       medicalAnalysis: 'POST /api/medical/analyze',
       getAllReports: 'GET /api/medical/reports',
       getSingleReport: 'GET /api/medical/reports/:id',
-      deleteReport: 'DELETE /api/medical/reports/:id'
+      reviewLabResults: 'PATCH /api/medical/reports/:id/lab-results',
+      deleteReport: 'DELETE /api/medical/reports/:id',
+      scans: 'GET/POST /api/scans',
+      auth: 'POST /api/auth/register, POST /api/auth/login, GET /api/auth/me',
+      profile: 'GET/PUT /api/profile',
+      riskScore: 'GET /api/risk-score',
+      visitSummary: 'POST /api/visit-summary',
+      fhirExport: 'GET /api/fhir/export',
+      wearableImport: 'POST /api/health-data/import',
+      healthReading: 'GET /api/health-data/:id',
+      chatSessions: 'GET/POST /api/chat/sessions, GET/PATCH/DELETE /api/chat/sessions/:id'
     }
   });
 });
@@ -374,50 +542,103 @@ app.get('/', (req, res) => {
 
 
 
+// Folds chat turns that no longer fit the prompt into a short summary; a
+// small model is plenty for this
+const summarizeChat = (transcript, previousSummary) => llm.complete({
+  messages: [{ role: 'user', content: summaryPrompt(transcript, previousSummary) }],
+  tier: 'fast',
+  temperature: 0.2,
+  maxTokens: 300
+});
 
 app.post('/api/chat/message', async (req, res) => {
+  // Sent back even when the model call fails, so the warning still shows
+  let triageResult = null;
   try {
-    const { messages, medicalReports } = req.body;
-    
-    // Build context
-    let context = "PATIENT'S MEDICAL HISTORY:\n\n";
-    if (medicalReports && medicalReports.length > 0) {
-      medicalReports.slice(0, 3).forEach((report, i) => {
-        context += `Report ${i + 1}: ${report.aiAnalysis.substring(0, 300)}...\n\n`;
-      });
+    const { stream, sessionId } = req.body;
+    const messages = normalizeMessages(req.body.messages);
+    if (!messages.length || messages[messages.length - 1].role !== 'user') {
+      return res.status(400).json({ success: false, error: 'messages must end with a user message' });
+    }
+    const [profile, index, latestVitals] = await Promise.all([
+      UserProfile.findOne({ userId: req.user._id }),
+      getReportIndex(req.user._id),
+      loadLatestVitals(req.user._id)
+    ]);
+    const vitals = describeVitals(latestVitals);
+
+    // Red flags in the message and the latest measurements, checked by rules
+    // before any model call
+    const latestText = messages[messages.length - 1].text;
+    triageResult = triage({ text: latestText, vitals: latestVitals });
+    if (triageResult.level !== 'none') {
+      console.log(`🚨 Chat triage ${triageResult.level}: ${triageResult.findings.map(f => f.id).join(', ')}`);
+      ChatSession.recordTriage(sessionId, req.user._id, latestText, triageResult);
+    }
+
+    // Recent turns verbatim, older ones summarised, and only the report
+    // passages the question is about
+    const conversation = await buildConversation({
+      messages,
+      index,
+      summarize: summarizeChat
+    });
+    ChatSession.recordReports(sessionId, req.user._id, conversation.sources.map(s => ({ _id: s.reportId })));
+
+    let context = profile ? `${profile.toPromptContext()}\n` : '';
+    context += "RELEVANT PASSAGES FROM THE PATIENT'S MEDICAL REPORTS:\n\n";
+    context += conversation.reportContext || 'No medical reports uploaded.';
+    if (vitals.context) context += `\n\nLATEST MEASUREMENTS:\n${vitals.context}`;
+    if (conversation.summary) context += `\n\nEARLIER IN THIS CONVERSATION:\n${conversation.summary}`;
+    if (triageResult.level !== 'none') {
+      context += `\n\nSAFETY TRIAGE (rule-based, already shown to the patient as a warning):\n${describeTriage(triageResult)}\n`;
+      context += triageResult.level === 'emergency'
+        ? 'Begin your answer by telling the patient to call emergency services now. Keep the rest short and do not suggest waiting or home remedies.'
+        : 'Begin your answer by advising the patient to contact a doctor today, and say when to call emergency services instead.';
     }
     
     const systemPrompt = `You are Vivitsu, an AI health assistant with access to patient's medical history.
 
 ${context}
 
-Provide helpful, accurate health advice. Always end with: "⚠️ This is AI-generated advice. Consult a healthcare professional."`;
+Answer the patient's latest message in the context of the conversation so far. Provide helpful, accurate health advice. When a statement comes from a report or measurement, cite it with its tag in square brackets, e.g. [R1] or [S1], and mention its date; do not cite sources for general advice. Always end with: "⚠️ This is AI-generated advice. Consult a healthcare professional."`;
     
-    // Prepare messages for Groq
+    // Prepare messages for the model
     const chatMessages = [
       { role: 'system', content: systemPrompt },
-      ...messages.map(m => ({ 
+      ...conversation.history.map(m => ({ 
         role: m.role === 'model' ? 'assistant' : m.role, 
         content: m.text 
       }))
     ];
     
-    // Call Groq API
-    const chatCompletion = await groq.chat.completions.create({
+    const params = {
       messages: chatMessages,
-      model: 'llama-3.3-70b-versatile', // Fast, accurate medical model
       temperature: 0.7,
-      max_tokens: 1024
-    });
+      maxTokens: 1024
+    };
+
+    // Symptoms from the patient's latest message are kept for the visit summary
+    const symptoms = extractSymptoms(latestText);
+    if (symptoms.length) {
+      SymptomLog.insertMany(symptoms.map(s => ({ ...s, userId: req.user._id })))
+        .catch(error => console.warn('⚠️  Could not log symptoms:', error.message));
+    }
+
+    const sources = (response) => ({ sources: sourcesCitedIn([...conversation.sources, ...vitals.sources], response) });
+    if (stream) {
+      await streamCompletion(res, llm, params, { start: { triage: triageResult }, done: sources });
+      return;
+    }
     
-    const response = chatCompletion.choices[0]?.message?.content || 
+    const response = await llm.complete(params) || 
                     "I'm sorry, I couldn't process that.";
     
-    res.json({ success: true, response });
+    res.json({ success: true, response, ...sources(response), triage: triageResult });
     
   } catch (error) {
     console.error('Chat API Error:', error);
-    res.status(500).json({ success: false, error: error.message });
+    res.status(500).json({ success: false, error: error.message, ...(triageResult && { triage: triageResult }) });
   }
 });
 
@@ -426,13 +647,16 @@ Provide helpful, accurate health advice. Always end with: "⚠️ This is AI-gen
 // Diet Plan Endpoint
 app.post('/api/chat/diet-plan', async (req, res) => {
   try {
-    const { goal, medicalReports } = req.body;
+    const { goal, medicalReports, stream, sessionId } = req.body;
+    const profile = await UserProfile.findOne({ userId: req.user._id });
+    ChatSession.recordReports(sessionId, req.user._id, medicalReports?.slice(0, 3));
     
-    let context = "";
+    let context = profile ? `${profile.toPromptContext()}\n` : "";
     if (medicalReports && medicalReports.length > 0) {
-      context = "Patient's Medical History:\n";
+      context += "Patient's Medical History:\n";
       medicalReports.slice(0, 3).forEach((report, i) => {
         context += `${report.aiAnalysis.substring(0, 200)}...\n`;
+        if (report.labResults?.length) context += `${describeLabResults(report.labResults)}\n`;
       });
     }
     
@@ -443,13 +667,12 @@ Create a 7-day personalized diet plan for: ${goal}
 Include:
 - Daily meals (Breakfast, Lunch, Dinner, 2 Snacks)
 - Nutritional considerations
-- Foods to avoid based on medical conditions
+- Foods to avoid based on medical conditions, medications and allergies
 - Hydration tips
 
 Format with clear headings. End with disclaimer.`;
     
-    // Groq API call
-    const chatCompletion = await groq.chat.completions.create({
+    const params = {
       messages: [
         { 
           role: 'system', 
@@ -460,14 +683,17 @@ Format with clear headings. End with disclaimer.`;
           content: prompt 
         }
       ],
-      model: 'llama-3.3-70b-versatile',
       temperature: 0.7,
-      max_tokens: 2048,
-      top_p: 1,
-      stream: false
-    });
+      maxTokens: 2048,
+      topP: 1
+    };
+
+    if (stream) {
+      await streamCompletion(res, llm, params);
+      return;
+    }
     
-    const response = chatCompletion.choices[0]?.message?.content || 
+    const response = await llm.complete(params) || 
                     "Failed to generate diet plan. Please try again.";
     
     res.json({ 
@@ -489,7 +715,8 @@ Format with clear headings. End with disclaimer.`;
 // Health Insights Endpoint
 app.post('/api/chat/insights', async (req, res) => {
   try {
-    const { medicalReports } = req.body;
+    const { medicalReports, stream, sessionId } = req.body;
+    const profile = await UserProfile.findOne({ userId: req.user._id });
     
     if (!medicalReports || medicalReports.length === 0) {
       return res.json({ 
@@ -498,9 +725,14 @@ app.post('/api/chat/insights', async (req, res) => {
       });
     }
     
-    let context = "Patient's Medical Reports:\n\n";
+    ChatSession.recordReports(sessionId, req.user._id, medicalReports);
+
+    let context = profile ? `${profile.toPromptContext()}\n` : '';
+    context += "Patient's Medical Reports:\n\n";
     medicalReports.forEach((report, i) => {
-      context += `Report ${i + 1}: ${report.aiAnalysis}\n\n`;
+      context += `Report ${i + 1}: ${report.aiAnalysis}\n`;
+      if (report.labResults?.length) context += `Lab values:\n${describeLabResults(report.labResults)}\n`;
+      context += '\n';
     });
     
     const prompt = `${context}
@@ -515,8 +747,7 @@ Analyze the patient's medical history and provide:
 
 Be specific and reference findings from reports. End with disclaimer.`;
     
-    // Groq API call
-    const chatCompletion = await groq.chat.completions.create({
+    const params = {
       messages: [
         { 
           role: 'system', 
@@ -527,14 +758,17 @@ Be specific and reference findings from reports. End with disclaimer.`;
           content: prompt 
         }
       ],
-      model: 'llama-3.3-70b-versatile',
       temperature: 0.6,
-      max_tokens: 2048,
-      top_p: 1,
-      stream: false
-    });
+      maxTokens: 2048,
+      topP: 1
+    };
+
+    if (stream) {
+      await streamCompletion(res, llm, params);
+      return;
+    }
     
-    const response = chatCompletion.choices[0]?.message?.content || 
+    const response = await llm.complete(params) || 
                     "Failed to generate health insights. Please try again.";
     
     res.json({ 
@@ -552,11 +786,102 @@ Be specific and reference findings from reports. End with disclaimer.`;
 });
 
 
+// Vital Scan Narrative Endpoint: a plain-language read of findings the rules
+// engine already graded. Kept apart from the chat route, so no report
+// retrieval, citations, triage or symptom logging.
+app.post('/api/chat/vitals-narrative', async (req, res) => {
+  try {
+    const { findings, status } = req.body;
+
+    if (!Array.isArray(findings) || !findings.length || !findings.every(f => typeof f === 'string')) {
+      return res.status(400).json({ success: false, error: 'Findings are required' });
+    }
+
+    const prompt = `These vital-sign findings were already graded by a rules engine${typeof status === 'string' ? ` (overall status: ${status})` : ''}:
+${findings.slice(0, 20).map(f => `- ${f.slice(0, 300)}`).join('\n')}
+
+Write a short plain-language explanation (3-5 sentences) of what these findings mean together and one or two practical next steps. Do not re-grade the findings or invent new values.
+
+End with: "⚠️ AI-generated. Consult a healthcare professional."`;
+
+    const response = await llm.complete({
+      messages: [
+        { role: 'system', content: 'You are a helpful medical AI assistant explaining vital-sign results to a patient.' },
+        { role: 'user', content: prompt }
+      ],
+      temperature: 0.4,
+      maxTokens: 512
+    }) || "Unable to interpret these vitals right now.";
+
+    res.json({ success: true, response });
+  } catch (error) {
+    console.error('Vitals Narrative API Error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+
+// Visit summary: vitals statistics, lab changes and reported symptoms over a
+// date range, with an AI-written overview for the doctor
+app.post('/api/visit-summary', async (req, res) => {
+  try {
+    const from = new Date(req.body.from);
+    const to = new Date(req.body.to);
+    if (isNaN(from) || isNaN(to) || from > to) {
+      return res.status(400).json({ success: false, error: 'A valid date range is required' });
+    }
+    if (to - from > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ success: false, error: `The range can be at most ${MAX_RANGE_DAYS} days` });
+    }
+
+    const sensorReadings = Array.isArray(req.body.sensorReadings) ? req.body.sensorReadings.slice(0, MAX_SENSOR_READINGS) : [];
+    const summary = await compileVisitSummary(req.user._id, { from, to, sensorReadings });
+    console.log(`📋 Visit summary: ${summary.vitals.length} vitals, ${summary.labChanges.length} lab values, ${summary.symptoms.length} symptoms`);
+
+    // The compiled data is useful on its own, so a failed overview is not an error
+    let overview = null;
+    try {
+      const profile = await UserProfile.findOne({ userId: req.user._id });
+      overview = await llm.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You are a clinical assistant preparing a pre-visit summary for a cardiologist. Be factual and concise, use only the data given, and never invent values.'
+          },
+          {
+            role: 'user',
+            content: `${profile ? `${profile.toPromptContext()}\n` : ''}${describeVisitSummary(summary)}
+
+Write a short overview (at most 200 words) for the doctor covering:
+### Vitals
+### Lab Changes
+### Reported Symptoms
+### Points to Discuss
+
+Mention readings outside the normal range and values that changed. Home and camera readings are not diagnostic; say so once.`
+          }
+        ],
+        temperature: 0.3,
+        maxTokens: 1024
+      }) || null;
+    } catch (error) {
+      console.warn('⚠️  Visit summary overview failed:', error.message);
+    }
+
+    res.json({ success: true, summary: { ...summary, overview } });
+  } catch (error) {
+    console.error('Visit Summary Error:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+
 // Start server
 app.listen(PORT, '0.0.0.0', () => {
   console.log(`\n🚀 Server running on http://localhost:${PORT}`);
   console.log(`📡 ESP32 can access at: http://172.20.10.2:${PORT}`);
   console.log(`🤖 AI Model: Local Hugging Face (Unlimited)`);
+  console.log(`💬 Chat AI: ${describeLlm(llm)}`);
   console.log(`💾 Database: MongoDB`);
   console.log(`🏥 Medical Analysis: http://localhost:${PORT}/api/medical/analyze`);
   console.log(`📊 ESP32 Data Endpoint: http://172.20.10.2:${PORT}/data\n`);
@@ -0,0 +1,114 @@
+import Scan from '../models/Scan.js';
+import HealthData from '../models/HealthData.js';
+
+// The patient's latest measurements as citable chat sources, alongside the
+// report passages from reportIndex.js. Scans are tagged [S1], [S2], ...;
+// sensor and wearable readings [D1], [D2], ...
+
+const MAX_SCANS = 3;
+const MAX_READINGS = 5;
+
+const READING_SOURCES = {
+  esp32: 'ESP32 sensor',
+  'apple-health': 'Apple Health',
+  'google-fit': 'Google Fit',
+  csv: 'CSV import'
+};
+
+const minute = (date) => new Date(date).toISOString().slice(0, 16).replace('T', ' ');
+
+/**
+ * @typedef {Object} VitalScanSource
+ * @property {'scan'} kind
+ * @property {string} tag       "S1"
+ * @property {string} scanId
+ * @property {string} date      YYYY-MM-DD HH:mm, UTC
+ * @property {string} summary
+ */
+
+/**
+ * @typedef {Object} ReadingSource
+ * @property {'reading'} kind
+ * @property {string} tag       "D1"
+ * @property {string} readingId
+ * @property {string} device
+ * @property {string} date
+ * @property {string} summary
+ */
+
+/** @typedef {import('./reportIndex.js').ReportSource | VitalScanSource | ReadingSource} ChatSource */
+
+export const describeScan = (scan) => [
+  `heart rate ${scan.heartRate} bpm`,
+  `HRV ${scan.hrv} ms`,
+  `blood pressure ${scan.bloodPressure?.systolic}/${scan.bloodPressure?.diastolic} mmHg (camera estimate)`,
+  scan.stressIndex && `stress index ${scan.stressIndex}`,
+  scan.interpretation?.status && `status ${scan.interpretation.status}`,
+  scan.qualityLevel === 'low' && `low signal quality${scan.qualityReasons?.length ? ` (${scan.qualityReasons.join('; ')})` : ''}`
+].filter(Boolean).join(', ');
+
+export const describeReading = (reading) => [
+  reading.bpm !== undefined && `heart rate ${reading.bpm} bpm`,
+  reading.restingHeartRate !== undefined && `resting heart rate ${reading.restingHeartRate} bpm`,
+  reading.spo2 !== undefined && `SpO2 ${reading.spo2}%`,
+  reading.systolic !== undefined && `blood pressure ${reading.systolic}/${reading.diastolic} mmHg`,
+  reading.hrv !== undefined && `HRV ${reading.hrv} ms${reading.hrvMethod === 'sdnn' ? ' (SDNN)' : ''}`
+].filter(Boolean).join(', ');
+
+/**
+ * @param {import('mongoose').Types.ObjectId} userId
+ * @returns {Promise<{ scans: object[], readings: object[] }>}  newest first
+ */
+export const loadLatestVitals = async (userId) => {
+  const [scans, readings] = await Promise.all([
+    Scan.find({ userId }).sort({ timestamp: -1 }).limit(MAX_SCANS).lean(),
+    HealthData.find({ userId }).sort({ timestamp: -1 }).limit(MAX_READINGS).lean()
+  ]);
+  return { scans, readings };
+};
+
+/**
+ * Measurements for the system prompt, tagged for citation
+ *
+ * @returns {{ sources: (VitalScanSource | ReadingSource)[], context: string }}
+ */
+export const describeVitals = ({ scans = [], readings = [] }) => {
+  const sources = [
+    ...scans.map((scan, i) => ({
+      kind: 'scan',
+      tag: `S${i + 1}`,
+      scanId: String(scan._id),
+      date: minute(scan.timestamp),
+      summary: describeScan(scan)
+    })),
+    ...readings.map((reading, i) => ({
+      kind: 'reading',
+      tag: `D${i + 1}`,
+      readingId: String(reading._id),
+      device: READING_SOURCES[reading.source] || 'Sensor',
+      date: minute(reading.timestamp),
+      summary: describeReading(reading)
+    }))
+  ];
+  const context = sources
+    .map(s => `[${s.tag}] ${s.kind === 'scan' ? 'Vital scan' : `${s.device} reading`}, ${s.date} UTC: ${s.summary}`)
+    .join('\n');
+  return { sources, context };
+};
+
+/**
+ * The sources an answer cites, written as [R1] or [R1, S2]. Retrieved report
+ * passages were chosen for the question, so an answer that cites nothing
+ * still gets its report sources; measurements are always in the prompt and
+ * only count when cited.
+ *
+ * @param {ChatSource[]} sources
+ * @returns {ChatSource[]}
+ */
+export const sourcesCitedIn = (sources, text = '') => {
+  const cited = new Set(
+    [...text.matchAll(/\[([A-Z]\d+(?:\s*,\s*[A-Z]\d+)*)\]/g)].flatMap(match => match[1].split(/\s*,\s*/))
+  );
+  const matching = sources.filter(source => cited.has(source.tag));
+  return matching.length ? matching : sources.filter(source => source.kind === 'report');
+};
@@ -0,0 +1,58 @@
+// Streams a chat completion to the browser as server-sent events:
+//   event: start  data: {...}      `start`, if given, before generation begins
+//                                  (e.g. the triage result)
+//   data: {"delta":"..."}          for each chunk of text
+//   event: done   data: {"response":"...", ...}   with the full reply and any
+//                 fields `done` adds (e.g. the sources the reply cites)
+//   event: error  data: {"error":"..."}
+// The model request is aborted as soon as the client disconnects, which is how
+// the chat's stop button ends generation.
+
+const send = (res, data, event) => {
+  if (event) res.write(`event: ${event}\n`);
+  res.write(`data: ${JSON.stringify(data)}\n\n`);
+};
+
+/**
+ * @param {import('express').Response} res
+ * @param {ReturnType<import('./llm/index.js').createLlm>} llm
+ * @param {import('./llm/index.js').CompletionParams} params
+ * @param {{ start?: object, done?: (response: string) => object }} [events]
+ * @returns {Promise<{ response: string, aborted: boolean }>}
+ */
+export const streamCompletion = async (res, llm, params, { start, done = () => ({}) } = {}) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Keep reverse proxies from buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+
+  if (start) send(res, start, 'start');
+
+  let response = '';
+  try {
+    for await (const delta of llm.stream({ ...params, signal: controller.signal })) {
+      response += delta;
+      send(res, { delta });
+    }
+    send(res, { response, ...done(response) }, 'done');
+  } catch (error) {
+    if (!controller.signal.aborted) {
+      console.error('Chat stream error:', error);
+      send(res, { error: error.message }, 'error');
+    }
+  } finally {
+    res.end();
+  }
+
+  if (controller.signal.aborted) console.log(`⏹️  Chat generation stopped after ${response.length} characters`);
+  return { response, aborted: controller.signal.aborted };
+};
@@ -0,0 +1,139 @@
+import { createHash } from 'crypto';
+import { searchReports, describePassages } from './reportIndex.js';
+
+// Builds the chat prompt from the whole conversation rather than the latest
+// message. Recent turns go to the model verbatim within a token budget; turns
+// that no longer fit are folded into a running summary. Report context is
+// retrieved from the patient's report index (see reportIndex.js), so only the
+// passages relevant to the question are included.
+
+export const HISTORY_TOKEN_BUDGET = 3000;
+export const REPORT_TOKEN_BUDGET = 1500;
+// Older messages than this are not even summarised
+export const MAX_MESSAGES = 200;
+const SUMMARY_CACHE_SIZE = 500;
+// The user questions the report search looks at, so "what about at night?"
+// still finds the passages the previous question was about
+const QUERY_TURNS = 2;
+
+/**
+ * @typedef {Object} ChatTurn
+ * @property {'user' | 'model'} role
+ * @property {string} text
+ */
+
+// About four characters per token for English; close enough for budgeting
+// without shipping a tokenizer
+export const estimateTokens = (text = '') => Math.ceil(text.length / 4);
+
+// Per-message overhead of the chat format
+const turnTokens = (turn) => estimateTokens(turn.text) + 4;
+
+/** Drops malformed entries and anything past MAX_MESSAGES */
+export const normalizeMessages = (messages) => (Array.isArray(messages) ? messages : [])
+  .filter(m => (m?.role === 'user' || m?.role === 'model') && typeof m.text === 'string' && m.text.trim())
+  .slice(-MAX_MESSAGES)
+  .map(m => ({ role: m.role, text: m.text }));
+
+/**
+ * Splits the conversation into older turns to summarise and the most recent
+ * turns that fit the budget. The latest message is always kept.
+ *
+ * @param {ChatTurn[]} messages
+ * @returns {{ older: ChatTurn[], recent: ChatTurn[] }}
+ */
+export const splitHistory = (messages, budget = HISTORY_TOKEN_BUDGET) => {
+  let start = messages.length;
+  let used = 0;
+  while (start > 0) {
+    const cost = turnTokens(messages[start - 1]);
+    if (start < messages.length && used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+  return { older: messages.slice(0, start), recent: messages.slice(start) };
+};
+
+// --- Summaries ------------------------------------------------------------
+
+// Summaries keyed by a hash chained over the turns they cover. Each request
+// only summarises the turns added since the longest cached prefix, on top of
+// that prefix's summary.
+const summaryCache = new Map();
+
+const transcriptOf = (turns) => turns.map(m => `${m.role === 'user' ? 'Patient' : 'Assistant'}: ${m.text}`).join('\n');
+
+const prefixKeys = (turns) => {
+  let key = '';
+  return turns.map(m => (key = createHash('sha256').update(`${key}\u0000${m.role}\u0000${m.text}`).digest('hex')));
+};
+
+/**
+ * @param {ChatTurn[]} turns
+ * @param {(transcript: string, previousSummary: string | null) => Promise<string>} summarize
+ * @returns {Promise<string | null>}  null when the summariser failed
+ */
+export const summarizeTurns = async (turns, summarize) => {
+  if (!turns.length) return null;
+  const keys = prefixKeys(turns);
+
+  let covered = turns.length;
+  while (covered > 0 && !summaryCache.has(keys[covered - 1])) covered--;
+  const previous = covered ? summaryCache.get(keys[covered - 1]) : null;
+  if (covered === turns.length) return previous;
+
+  try {
+    const summary = (await summarize(transcriptOf(turns.slice(covered)), previous))?.trim();
+    if (!summary) return previous;
+    summaryCache.set(keys[turns.length - 1], summary);
+    if (summaryCache.size > SUMMARY_CACHE_SIZE) summaryCache.delete(summaryCache.keys().next().value);
+    return summary;
+  } catch (error) {
+    console.warn('⚠️  Could not summarise earlier chat turns:', error.message);
+    return previous;
+  }
+};
+
+/** Prompt for the summariser; the model call itself is up to the caller */
+export const summaryPrompt = (transcript, previousSummary) => `Summarise this conversation between a patient and a health assistant in at most 150 words. Keep symptoms, their timing, measurements, medications, and any advice already given. Write in the third person ("The patient...").
+${previousSummary ? `\nSummary of the conversation before this:\n${previousSummary}\n` : ''}
+Conversation:
+${transcript}`;
+
+// --- Reports --------------------------------------------------------------
+
+/**
+ * The report passages relevant to `query`, tagged by source, within
+ * REPORT_TOKEN_BUDGET
+ *
+ * @param {import('./reportIndex.js').ReportIndex | null} index
+ */
+export const retrieveReportContext = (index, query, budget = REPORT_TOKEN_BUDGET) => {
+  if (!index?.chunks.length) return { context: '', sources: [] };
+  return describePassages(index, searchReports(index, query), budget * 4);
+};
+
+// --- Prompt ---------------------------------------------------------------
+
+/**
+ * @param {{
+ *   messages: ChatTurn[],
+ *   index?: import('./reportIndex.js').ReportIndex | null,
+ *   summarize: (transcript: string, previousSummary: string | null) => Promise<string>,
+ *   historyBudget?: number,
+ *   reportBudget?: number
+ * }} options
+ * @returns {Promise<{ history: ChatTurn[], summary: string | null, reportContext: string, sources: import('./reportIndex.js').ReportSource[] }>}
+ */
+export const buildConversation = async ({ messages, index = null, summarize, historyBudget = HISTORY_TOKEN_BUDGET, reportBudget = REPORT_TOKEN_BUDGET }) => {
+  const { older, recent } = splitHistory(messages, historyBudget);
+  const query = messages.filter(m => m.role === 'user').slice(-QUERY_TURNS).map(m => m.text).join('\n');
+  const { context, sources } = retrieveReportContext(index, query, reportBudget);
+
+  return {
+    history: recent,
+    summary: await summarizeTurns(older, summarize),
+    reportContext: context,
+    sources
+  };
+};
@@ -0,0 +1,143 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { mkdtemp, writeFile, readdir, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { recognizeImage } from './ocrPipeline.js';
+
+// Turns uploaded PDFs and photos into per-page text. PDFs use their text
+// layer when it has one; scanned pages are rasterised with poppler
+// (pdftoppm) and OCR'd like photos (see ocrPipeline.js).
+
+const run = promisify(execFile);
+
+export const SUPPORTED_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg', 'image/webp'];
+export const MAX_FILES = 10;
+export const MAX_PAGES = 30;
+
+// Fewer characters than this on a PDF page means it is a scan
+const MIN_TEXT_LAYER_CHARS = 40;
+const RASTER_DPI = 300;
+const TOOL_TIMEOUT_MS = 60000;
+
+export class IngestError extends Error {
+  constructor(message, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const meaningfulLength = (text) => text.replace(/\s+/g, '').length;
+
+const pdfPageCount = async (path) => {
+  const { stdout } = await run('pdfinfo', [path], { timeout: TOOL_TIMEOUT_MS });
+  const match = stdout.match(/^Pages:\s+(\d+)/m);
+  if (!match) throw new IngestError('Could not read the PDF. It may be encrypted or damaged.');
+  return parseInt(match[1], 10);
+};
+
+const pdfPageText = async (path, page) => {
+  const { stdout } = await run('pdftotext', ['-layout', '-f', `${page}`, '-l', `${page}`, path, '-'], {
+    timeout: TOOL_TIMEOUT_MS,
+    maxBuffer: 10 * 1024 * 1024
+  });
+  return stdout;
+};
+
+const ocrPdfPage = async (path, page, workDir) => {
+  const prefix = join(workDir, `page-${page}`);
+  await run('pdftoppm', ['-r', `${RASTER_DPI}`, '-png', '-f', `${page}`, '-l', `${page}`, path, prefix], { timeout: TOOL_TIMEOUT_MS });
+  // pdftoppm zero-pads the page number depending on the page count
+  const image = (await readdir(workDir)).find(f => f.startsWith(`page-${page}-`) && f.endsWith('.png'));
+  if (!image) throw new Error(`pdftoppm produced no image for page ${page}`);
+  return recognizeImage(join(workDir, image));
+};
+
+// OCR pages carry their confidence and words so uncertain values can be flagged
+const ocrPage = (ocr) => ({ text: ocr.text, confidence: ocr.confidence, psm: ocr.psm, preprocess: ocr.preprocess, words: ocr.words });
+
+const ingestPdf = async (buffer, fileName, workDir, firstPage) => {
+  const path = join(workDir, `upload-${firstPage}.pdf`);
+  await writeFile(path, buffer);
+
+  const count = await pdfPageCount(path);
+  if (firstPage - 1 + count > MAX_PAGES) {
+    throw new IngestError(`Documents are limited to ${MAX_PAGES} pages in total.`);
+  }
+
+  const pages = [];
+  for (let i = 1; i <= count; i++) {
+    const page = { page: firstPage + pages.length, fileName, filePage: i };
+    const text = await pdfPageText(path, i);
+    if (meaningfulLength(text) >= MIN_TEXT_LAYER_CHARS) {
+      pages.push({ ...page, source: 'text-layer', text: text.trim() });
+      continue;
+    }
+    console.log(`  🖨️  ${fileName} p.${i}: no text layer, running OCR`);
+    pages.push({ ...page, source: 'ocr', ...ocrPage(await ocrPdfPage(path, i, workDir)) });
+  }
+  return pages;
+};
+
+// Page markers let the summariser and the lab parser keep page references
+const joinPages = (pages) => pages.length === 1
+  ? pages[0].text
+  : pages.map(p => `--- Page ${p.page} (${p.fileName}) ---\n${p.text}`).join('\n\n');
+
+/**
+ * @param {{ data: string, mimeType: string, name?: string }[]} files  base64 payloads
+ * @returns {Promise<{ pages: object[], text: string }>}
+ */
+export const ingestDocument = async (files) => {
+  if (!files.length) throw new IngestError('No files uploaded.');
+  if (files.length > MAX_FILES) throw new IngestError(`Upload at most ${MAX_FILES} files at a time.`);
+
+  const unsupported = files.find(f => !SUPPORTED_TYPES.includes(f.mimeType));
+  if (unsupported) throw new IngestError(`Unsupported file type: ${unsupported.mimeType}`);
+
+  const workDir = await mkdtemp(join(tmpdir(), 'cardiax-ingest-'));
+  try {
+    const pages = [];
+    for (const [index, file] of files.entries()) {
+      const fileName = file.name || `file-${index + 1}`;
+      const buffer = Buffer.from(file.data, 'base64');
+
+      if (file.mimeType === 'application/pdf') {
+        pages.push(...await ingestPdf(buffer, fileName, workDir, pages.length + 1));
+      } else {
+        if (pages.length + 1 > MAX_PAGES) throw new IngestError(`Documents are limited to ${MAX_PAGES} pages in total.`);
+        const path = join(workDir, `photo-${index + 1}.${file.mimeType.split('/')[1]}`);
+        await writeFile(path, buffer);
+        pages.push({ page: pages.length + 1, fileName, filePage: 1, source: 'ocr', ...ocrPage(await recognizeImage(path)) });
+      }
+      console.log(`  📄 ${fileName}: ingested (${pages.length} page${pages.length > 1 ? 's' : ''} so far)`);
+    }
+
+    return { pages, text: joinPages(pages) };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+};
+
+/**
+ * Pages the browser already OCR'd (offline mode). Only text, confidence and
+ * word boxes arrive; the images stay on the user's device.
+ * @param {{ text: string, fileName?: string, confidence?: number, words?: object[] }[]} uploaded
+ * @returns {{ pages: object[], text: string }}
+ */
+export const ingestText = (uploaded) => {
+  if (!uploaded.length) throw new IngestError('No pages uploaded.');
+  if (uploaded.length > MAX_PAGES) throw new IngestError(`Documents are limited to ${MAX_PAGES} pages in total.`);
+  if (uploaded.some(p => typeof p?.text !== 'string')) throw new IngestError('Every page needs its recognised text.');
+
+  const pages = uploaded.map((p, index) => ({
+    page: index + 1,
+    fileName: p.fileName || `page-${index + 1}`,
+    filePage: 1,
+    source: 'browser-ocr',
+    text: p.text.trim(),
+    confidence: Number.isFinite(p.confidence) ? Math.round(p.confidence) : undefined,
+    words: Array.isArray(p.words) ? p.words : []
+  }));
+  return { pages, text: joinPages(pages) };
+};
@@ -0,0 +1,248 @@
+import { randomUUID } from 'crypto';
+
+// Maps stored scans, ESP32 readings and lab reports to FHIR R4 resources so
+// the data can be imported by other clinical systems. Everything goes into a
+// single `collection` Bundle; references between entries use the urn:uuid
+// full URLs, and each resource carries an identifier with our database id so
+// a repeated import can be de-duplicated.
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const INTERPRETATION = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+const DIAGNOSTIC_SERVICE = 'http://terminology.hl7.org/CodeSystem/v2-0074';
+const VITAL_SIGNS_PROFILE = 'http://hl7.org/fhir/StructureDefinition/vitalsigns';
+// Identifiers and codes of our own, for data with no standard code
+const CARDIAX = 'urn:cardiax';
+
+export const FHIR_CONTENT_TYPE = 'application/fhir+json';
+
+const loinc = (code, display) => ({ coding: [{ system: LOINC, code, display }], text: display });
+
+const VITALS = {
+  heartRate: { code: loinc('8867-4', 'Heart rate'), unit: '/min', unitDisplay: 'beats/minute' },
+  spo2: { code: loinc('59408-5', 'Oxygen saturation in Arterial blood by Pulse oximetry'), unit: '%', unitDisplay: '%' },
+  bloodPressure: loinc('85354-9', 'Blood pressure panel with all children optional'),
+  systolic: { code: loinc('8480-6', 'Systolic blood pressure'), unit: 'mm[Hg]', unitDisplay: 'mmHg' },
+  diastolic: { code: loinc('8462-4', 'Diastolic blood pressure'), unit: 'mm[Hg]', unitDisplay: 'mmHg' },
+  restingHeartRate: { code: loinc('40443-4', 'Heart rate --resting'), unit: '/min', unitDisplay: 'beats/minute' },
+  hrvSdnn: { code: loinc('80404-7', 'R-R interval.standard deviation (Heart rate variability)'), unit: 'ms', unitDisplay: 'ms' },
+  // LOINC only has SDNN (80404-7); the scan measures RMSSD
+  hrv: {
+    code: { coding: [{ system: `${CARDIAX}:vitals`, code: 'hrv-rmssd', display: 'Heart rate variability (RMSSD)' }], text: 'Heart rate variability (RMSSD)' },
+    unit: 'ms',
+    unitDisplay: 'ms'
+  }
+};
+
+// shared/labParser.js analyte ids, in their canonical units
+const LAB_CODES = {
+  totalCholesterol: ['2093-3', 'Cholesterol [Mass/volume] in Serum or Plasma'],
+  hdl: ['2085-9', 'Cholesterol in HDL [Mass/volume] in Serum or Plasma'],
+  ldl: ['13457-7', 'Cholesterol in LDL [Mass/volume] in Serum or Plasma by calculation'],
+  nonHdl: ['43396-1', 'Cholesterol non HDL [Mass/volume] in Serum or Plasma'],
+  vldl: ['13458-5', 'Cholesterol in VLDL [Mass/volume] in Serum or Plasma by calculation'],
+  triglycerides: ['2571-8', 'Triglyceride [Mass/volume] in Serum or Plasma'],
+  hba1c: ['4548-4', 'Hemoglobin A1c/Hemoglobin.total in Blood'],
+  glucose: ['1558-6', 'Fasting glucose [Mass/volume] in Serum or Plasma'],
+  creatinine: ['2160-0', 'Creatinine [Mass/volume] in Serum or Plasma'],
+  egfr: ['62238-1', 'Glomerular filtration rate/1.73 sq M.predicted [Volume Rate/Area] in Serum, Plasma or Blood by Creatinine-based formula (CKD-EPI)'],
+  bun: ['3094-0', 'Urea nitrogen [Mass/volume] in Serum or Plasma'],
+  uricAcid: ['3084-1', 'Urate [Mass/volume] in Serum or Plasma'],
+  sodium: ['2951-2', 'Sodium [Moles/volume] in Serum or Plasma'],
+  potassium: ['2823-3', 'Potassium [Moles/volume] in Serum or Plasma'],
+  hemoglobin: ['718-7', 'Hemoglobin [Mass/volume] in Blood'],
+  alt: ['1742-6', 'Alanine aminotransferase [Enzymatic activity/volume] in Serum or Plasma'],
+  ast: ['1920-8', 'Aspartate aminotransferase [Enzymatic activity/volume] in Serum or Plasma'],
+  tsh: ['3016-3', 'Thyrotropin [Units/volume] in Serum or Plasma'],
+  crp: ['1988-5', 'C reactive protein [Mass/volume] in Serum or Plasma']
+};
+
+// Our display units -> UCUM
+const UCUM_UNITS = {
+  'mg/dL': 'mg/dL',
+  'mg/L': 'mg/L',
+  'g/dL': 'g/dL',
+  'mmol/L': 'mmol/L',
+  'U/L': 'U/L',
+  'mIU/L': 'm[IU]/L',
+  '%': '%',
+  'mL/min/1.73m²': 'mL/min/{1.73_m2}'
+};
+
+const FLAG_INTERPRETATION = {
+  low: { code: 'L', display: 'Low' },
+  normal: { code: 'N', display: 'Normal' },
+  high: { code: 'H', display: 'High' }
+};
+
+const category = (code, display) => [{ coding: [{ system: OBSERVATION_CATEGORY, code, display }] }];
+const quantity = (value, unit, unitDisplay = unit) => ({ value, unit: unitDisplay, system: UCUM, code: unit });
+const instant = (date) => new Date(date).toISOString();
+
+const entry = (resource) => ({ fullUrl: `urn:uuid:${randomUUID()}`, resource });
+
+const patientResource = (user, profile) => ({
+  resourceType: 'Patient',
+  identifier: [{ system: `${CARDIAX}:user`, value: String(user._id) }],
+  name: [{ text: user.name }],
+  telecom: [{ system: 'email', value: user.email }],
+  ...(profile?.sex && { gender: profile.sex }),
+  ...(profile?.dateOfBirth && { birthDate: instant(profile.dateOfBirth).slice(0, 10) })
+});
+
+const vitalObservation = (subject, { identifier, timestamp, code, value, method, device, note }) => ({
+  resourceType: 'Observation',
+  meta: { profile: [VITAL_SIGNS_PROFILE] },
+  identifier: [identifier],
+  status: 'final',
+  category: category('vital-signs', 'Vital Signs'),
+  code,
+  subject,
+  effectiveDateTime: instant(timestamp),
+  ...value,
+  ...(method && { method: { text: method } }),
+  ...(device && { device: { display: device } }),
+  ...(note && { note: [{ text: note }] })
+});
+
+const simpleVital = (key, value) => ({ code: VITALS[key].code, value: { valueQuantity: quantity(value, VITALS[key].unit, VITALS[key].unitDisplay) } });
+
+const bloodPressure = (systolic, diastolic) => ({
+  code: VITALS.bloodPressure,
+  value: {
+    component: [
+      { code: VITALS.systolic.code, valueQuantity: quantity(systolic, VITALS.systolic.unit, VITALS.systolic.unitDisplay) },
+      { code: VITALS.diastolic.code, valueQuantity: quantity(diastolic, VITALS.diastolic.unit, VITALS.diastolic.unitDisplay) }
+    ]
+  }
+});
+
+const isNumber = (value) => typeof value === 'number' && Number.isFinite(value);
+
+/** Heart rate, blood pressure and HRV from a camera scan */
+export const scanObservations = (scan, subject) => {
+  const base = {
+    timestamp: scan.timestamp,
+    method: 'Remote photoplethysmography (camera)',
+    ...(scan.qualityLevel === 'low' && { note: 'Low signal quality; treat this reading with caution.' })
+  };
+  const id = (part) => ({ system: `${CARDIAX}:scan`, value: `${scan._id}/${part}` });
+
+  // A scan that could not estimate a value stores it as 0
+  return [
+    isNumber(scan.heartRate) && scan.heartRate > 0 && vitalObservation(subject, { ...base, identifier: id('heart-rate'), ...simpleVital('heartRate', scan.heartRate) }),
+    isNumber(scan.bloodPressure?.systolic) && scan.bloodPressure.systolic > 0 && isNumber(scan.bloodPressure?.diastolic) && scan.bloodPressure.diastolic > 0 && vitalObservation(subject, {
+      ...base,
+      identifier: id('blood-pressure'),
+      ...bloodPressure(scan.bloodPressure.systolic, scan.bloodPressure.diastolic),
+      note: ['Estimated from the pulse waveform, not measured with a cuff.', base.note].filter(Boolean).join(' ')
+    }),
+    isNumber(scan.hrv) && scan.hrv > 0 && vitalObservation(subject, { ...base, identifier: id('hrv'), ...simpleVital('hrv', scan.hrv) })
+  ].filter(Boolean);
+};
+
+const DEVICE_NAMES = {
+  esp32: 'CardiaX ESP32 with MAX30102 pulse oximeter',
+  'apple-health': 'Apple Health',
+  'google-fit': 'Google Fit',
+  csv: 'Imported CSV'
+};
+
+/**
+ * Pulse rate, SpO2 and (with a cuff module) blood pressure from the ESP32,
+ * plus resting heart rate and HRV imported from wearable exports
+ */
+export const deviceObservations = (reading, subject) => {
+  const source = reading.source ?? 'esp32';
+  const base = { timestamp: reading.timestamp, device: DEVICE_NAMES[source] };
+  const id = (part) => ({ system: `${CARDIAX}:health-data`, value: `${reading._id}/${part}` });
+
+  return [
+    isNumber(reading.bpm) && reading.bpm > 0 && vitalObservation(subject, { ...base, identifier: id('heart-rate'), ...simpleVital('heartRate', reading.bpm) }),
+    isNumber(reading.restingHeartRate) && vitalObservation(subject, { ...base, identifier: id('resting-heart-rate'), ...simpleVital('restingHeartRate', reading.restingHeartRate) }),
+    isNumber(reading.spo2) && reading.spo2 > 0 && vitalObservation(subject, { ...base, identifier: id('spo2'), ...simpleVital('spo2', reading.spo2) }),
+    isNumber(reading.systolic) && isNumber(reading.diastolic) && vitalObservation(subject, {
+      ...base,
+      identifier: id('blood-pressure'),
+      ...bloodPressure(reading.systolic, reading.diastolic)
+    }),
+    isNumber(reading.hrv) && vitalObservation(subject, {
+      ...base,
+      identifier: id('hrv'),
+      ...simpleVital(reading.hrvMethod === 'sdnn' ? 'hrvSdnn' : 'hrv', reading.hrv)
+    })
+  ].filter(Boolean);
+};
+
+/** One parsed lab value as a laboratory Observation */
+export const labObservation = (result, report, subject) => {
+  const [code, display] = LAB_CODES[result.analyte] || [];
+  const unit = UCUM_UNITS[result.unit];
+  const range = result.referenceRange || {};
+  const flag = FLAG_INTERPRETATION[result.flag];
+
+  return {
+    resourceType: 'Observation',
+    identifier: [{ system: `${CARDIAX}:medical-report`, value: `${report._id}/${result.analyte}` }],
+    status: 'final',
+    category: category('laboratory', 'Laboratory'),
+    code: code ? { ...loinc(code, display), text: result.name } : { text: result.name },
+    subject,
+    effectiveDateTime: instant(report.uploadedAt),
+    valueQuantity: unit ? quantity(result.value, unit, result.unit) : { value: result.value, unit: result.unit },
+    ...(flag && { interpretation: [{ coding: [{ system: INTERPRETATION, ...flag }] }] }),
+    ...((isNumber(range.low) || isNumber(range.high)) && {
+      referenceRange: [{
+        ...(isNumber(range.low) && { low: unit ? quantity(range.low, unit, result.unit) : { value: range.low } }),
+        ...(isNumber(range.high) && { high: unit ? quantity(range.high, unit, result.unit) : { value: range.high } }),
+        text: range.label
+      }]
+    }),
+    ...(result.verified && { note: [{ text: 'Checked against the original report by the patient.' }] })
+  };
+};
+
+/**
+ * A MedicalReport as a DiagnosticReport with its lab values as Observation
+ * entries. Returns the report entry first.
+ */
+export const reportEntries = (report, subject) => {
+  const observations = (report.labResults || []).map(result => entry(labObservation(result, report, subject)));
+  const diagnosticReport = {
+    resourceType: 'DiagnosticReport',
+    identifier: [{ system: `${CARDIAX}:medical-report`, value: String(report._id) }],
+    status: 'final',
+    category: [{ coding: [{ system: DIAGNOSTIC_SERVICE, code: 'LAB', display: 'Laboratory' }] }],
+    code: { ...loinc('11502-2', 'Laboratory report'), text: report.reportType || 'Laboratory report' },
+    subject,
+    effectiveDateTime: instant(report.uploadedAt),
+    issued: instant(report.createdAt || report.uploadedAt),
+    result: observations.map(o => ({ reference: o.fullUrl, display: o.resource.code.text })),
+    ...(report.aiAnalysis && { conclusion: report.aiAnalysis })
+  };
+  return [entry(diagnosticReport), ...observations];
+};
+
+/**
+ * @param {{ user: object, profile?: object | null, scans?: object[], deviceReadings?: object[], reports?: object[] }} data
+ */
+export const buildFhirBundle = ({ user, profile, scans = [], deviceReadings = [], reports = [] }) => {
+  const patient = entry(patientResource(user, profile));
+  const subject = { reference: patient.fullUrl, display: user.name };
+
+  const entries = [
+    patient,
+    ...scans.flatMap(scan => scanObservations(scan, subject).map(entry)),
+    ...deviceReadings.flatMap(reading => deviceObservations(reading, subject).map(entry)),
+    ...reports.flatMap(report => reportEntries(report, subject))
+  ];
+
+  return {
+    resourceType: 'Bundle',
+    identifier: { system: `${CARDIAX}:export`, value: randomUUID() },
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: entries
+  };
+};
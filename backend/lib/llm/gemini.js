@@ -0,0 +1,61 @@
+import { postJson, readEvents } from './http.js';
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+// System messages become the system instruction; Gemini calls the assistant
+// role "model" and wants the conversation to open with a user turn
+const toGeminiRequest = (params) => {
+  const system = params.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  const turns = params.messages.filter(m => m.role !== 'system');
+  const firstUser = turns.findIndex(m => m.role === 'user');
+  return {
+    ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+    contents: turns.slice(Math.max(firstUser, 0)).map(m => ({
+      role: m.role === 'assistant' ? 'model' : 'user',
+      parts: [
+        { text: m.content },
+        ...(m.images || []).map(image => ({ inline_data: { mime_type: image.mimeType, data: image.data } }))
+      ]
+    })),
+    generationConfig: {
+      temperature: params.temperature,
+      topP: params.topP,
+      maxOutputTokens: params.maxTokens
+    }
+  };
+};
+
+// Thinking models return their reasoning as separate `thought` parts
+const textOf = (data) => (data.candidates?.[0]?.content?.parts || [])
+  .filter(part => !part.thought)
+  .map(part => part.text || '')
+  .join('');
+
+/**
+ * @param {{ apiKey: string, model?: string, fastModel?: string }} config
+ * @returns {import('./index.js').LlmProvider}
+ */
+export const createGeminiProvider = ({ apiKey, model = 'gemini-2.5-pro', fastModel = 'gemini-2.5-flash' }) => {
+  const request = (params, method) => postJson(
+    'gemini',
+    `${GEMINI_BASE_URL}/${params.tier === 'fast' ? fastModel : model}:${method}`,
+    toGeminiRequest(params),
+    { headers: { 'x-goog-api-key': apiKey }, signal: params.signal }
+  );
+
+  return {
+    name: 'gemini',
+    model,
+
+    async complete(params) {
+      return textOf(await (await request(params, 'generateContent')).json());
+    },
+
+    async *stream(params) {
+      for await (const chunk of readEvents(await request(params, 'streamGenerateContent?alt=sse'))) {
+        const delta = textOf(chunk);
+        if (delta) yield delta;
+      }
+    }
+  };
+};
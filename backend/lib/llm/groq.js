@@ -0,0 +1,11 @@
+import { createOpenAiCompatibleProvider } from './openaiCompatible.js';
+
+// Groq serves the OpenAI chat completions API
+const GROQ_BASE_URL = 'https://api.groq.com/openai/v1';
+
+/**
+ * @param {{ apiKey: string, model?: string, fastModel?: string }} config
+ * @returns {import('./index.js').LlmProvider}
+ */
+export const createGroqProvider = ({ apiKey, model = 'llama-3.3-70b-versatile', fastModel = 'llama-3.1-8b-instant' }) =>
+  createOpenAiCompatibleProvider({ name: 'groq', baseUrl: GROQ_BASE_URL, apiKey, model, fastModel });
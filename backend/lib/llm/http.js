@@ -0,0 +1,62 @@
+// Shared plumbing for the HTTP providers
+
+export class LlmError extends Error {
+  /**
+   * @param {string} message
+   * @param {{ provider?: string, status?: number, retryable?: boolean }} [options]
+   *   Without a status the failure was a network error or timeout, which is
+   *   worth retrying; so are rate limits and server errors.
+   */
+  constructor(message, { provider, status, retryable } = {}) {
+    super(message);
+    this.provider = provider;
+    this.status = status;
+    this.retryable = retryable ?? (status === undefined || status === 408 || status === 409 || status === 429 || status >= 500);
+  }
+}
+
+/** POSTs JSON and returns the response, throwing LlmError on failure */
+export const postJson = async (provider, url, body, { headers = {}, signal } = {}) => {
+  let response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    if (error.name === 'AbortError' || error.name === 'TimeoutError') throw error;
+    throw new LlmError(`${provider}: ${error.cause?.message || error.message}`, { provider });
+  }
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new LlmError(`${provider} returned ${response.status}: ${detail.slice(0, 300)}`, { provider, status: response.status });
+  }
+  return response;
+};
+
+/** Lines of a streamed response body, for SSE and newline-delimited JSON */
+export async function* readLines(response) {
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for await (const chunk of response.body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop();
+    for (const line of lines) yield line.replace(/\r$/, '');
+  }
+  buffer += decoder.decode();
+  if (buffer) yield buffer;
+}
+
+/** JSON payloads of `data:` lines in a server-sent event stream */
+export async function* readEvents(response) {
+  for await (const line of readLines(response)) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') continue;
+    yield JSON.parse(data);
+  }
+}
@@ -0,0 +1,235 @@
+import { LlmError } from './http.js';
+import { createGroqProvider } from './groq.js';
+import { createGeminiProvider } from './gemini.js';
+import { createOpenAiCompatibleProvider } from './openaiCompatible.js';
+import { createOllamaProvider } from './ollama.js';
+import { createStubProvider } from './stub.js';
+
+// One interface over the language models the chat and analysis routes use.
+// Providers are tried in the configured order: each request gets a timeout
+// and a few retries on transient errors before falling back to the next.
+
+export { LlmError };
+
+/**
+ * @typedef {Object} LlmMessage
+ * @property {'system' | 'user' | 'assistant'} role
+ * @property {string} content
+ * @property {{ mimeType: string, data: string }[]} [images]  base64, on user messages
+ */
+
+/**
+ * @typedef {Object} CompletionParams
+ * @property {LlmMessage[]} messages
+ * @property {number} [temperature]
+ * @property {number} [maxTokens]
+ * @property {number} [topP]
+ * @property {'default' | 'fast'} [tier]  'fast' picks the provider's smaller model
+ * @property {AbortSignal} [signal]
+ */
+
+/**
+ * @typedef {Object} LlmProvider
+ * @property {string} name
+ * @property {string} model
+ * @property {(params: CompletionParams) => Promise<string>} complete
+ * @property {(params: CompletionParams) => AsyncIterable<string>} stream  text deltas
+ */
+
+export const DEFAULT_TIMEOUT_MS = 60000;
+export const DEFAULT_MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 500;
+
+const sleep = (ms, signal) => new Promise((resolve, reject) => {
+  const timer = setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    clearTimeout(timer);
+    reject(signal.reason);
+  }, { once: true });
+});
+
+// A signal that fires on the caller's abort or after `ms`; `timedOut` tells
+// the two apart. `clear` stops the timer (streams clear it on the first chunk).
+const withTimeout = (signal, ms) => {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new DOMException('Timed out', 'TimeoutError')), ms);
+  return {
+    signal: signal ? AbortSignal.any([signal, controller.signal]) : controller.signal,
+    timedOut: () => controller.signal.aborted,
+    clear: () => clearTimeout(timer)
+  };
+};
+
+const asLlmError = (error, provider, timedOut, timeoutMs) => {
+  if (timedOut) return new LlmError(`${provider.name} timed out after ${timeoutMs / 1000}s`, { provider: provider.name });
+  if (error instanceof LlmError) return error;
+  // Malformed responses and the like: not worth retrying, but the next
+  // provider may do better
+  return new LlmError(`${provider.name}: ${error.message}`, { provider: provider.name, retryable: false });
+};
+
+/**
+ * @param {{ providers: LlmProvider[], timeoutMs?: number, maxRetries?: number, retryDelayMs?: number }} config
+ */
+export const createLlm = ({ providers, timeoutMs = DEFAULT_TIMEOUT_MS, maxRetries = DEFAULT_MAX_RETRIES, retryDelayMs = RETRY_DELAY_MS }) => {
+  const ensureProviders = () => {
+    if (!providers.length) {
+      throw new LlmError('No AI provider is configured. Set LLM_PROVIDERS and the matching API keys.', { status: 503, retryable: false });
+    }
+  };
+
+  // Runs `attempt` against each provider in turn, retrying transient errors.
+  // `attempt` receives a callback to call once output has started; after
+  // that a failure is passed straight to the caller, as the partial output
+  // cannot be taken back.
+  const run = async (params, attempt) => {
+    ensureProviders();
+    const errors = [];
+
+    for (const [index, provider] of providers.entries()) {
+      for (let retry = 0; ; retry++) {
+        const timeout = withTimeout(params.signal, timeoutMs);
+        let started = false;
+        try {
+          return await attempt(provider, timeout.signal, () => {
+            started = true;
+            timeout.clear();
+          });
+        } catch (error) {
+          if (params.signal?.aborted || started) throw error;
+          const failure = asLlmError(error, provider, timeout.timedOut(), timeoutMs);
+          if (failure.retryable && retry < maxRetries) {
+            console.warn(`⚠️  ${failure.message}; retrying (${retry + 1}/${maxRetries})`);
+            await sleep(retryDelayMs * 2 ** retry, params.signal);
+            continue;
+          }
+          errors.push(failure);
+          if (index < providers.length - 1) console.warn(`⚠️  ${failure.message}; falling back to ${providers[index + 1].name}`);
+          break;
+        } finally {
+          timeout.clear();
+        }
+      }
+    }
+
+    const last = errors[errors.length - 1];
+    throw new LlmError(
+      errors.length > 1 ? `All AI providers failed: ${errors.map(e => e.message).join('; ')}` : last.message,
+      { provider: last.provider, status: last.status, retryable: false }
+    );
+  };
+
+  return {
+    providers: providers.map(p => ({ name: p.name, model: p.model })),
+
+    /** @param {CompletionParams} params */
+    complete: (params) => run(params, (provider, signal) => provider.complete({ ...params, signal })),
+
+    /**
+     * Text deltas from the first provider that starts answering
+     * @param {CompletionParams} params
+     * @returns {AsyncGenerator<string>}
+     */
+    async *stream(params) {
+      const queue = [];
+      let notify = null;
+      let finished = false;
+      let failure = null;
+
+      // The generator is driven by run() so retries and fallback apply until
+      // the first chunk; chunks are handed over through a small queue
+      const done = run(params, async (provider, signal, started) => {
+        for await (const delta of provider.stream({ ...params, signal })) {
+          started();
+          queue.push(delta);
+          notify?.();
+        }
+      }).then(
+        () => { finished = true; notify?.(); },
+        (error) => { failure = error; finished = true; notify?.(); }
+      );
+
+      while (true) {
+        if (queue.length) {
+          yield queue.shift();
+          continue;
+        }
+        if (finished) break;
+        await new Promise(resolve => { notify = resolve; });
+        notify = null;
+      }
+      await done;
+      if (failure) throw failure;
+    }
+  };
+};
+
+const PROVIDER_FACTORIES = {
+  groq: (env) => env.GROQ_API_KEY && createGroqProvider({
+    apiKey: env.GROQ_API_KEY,
+    model: env.GROQ_MODEL,
+    fastModel: env.GROQ_FAST_MODEL
+  }),
+  gemini: (env) => env.GEMINI_API_KEY && createGeminiProvider({
+    apiKey: env.GEMINI_API_KEY,
+    model: env.GEMINI_MODEL,
+    fastModel: env.GEMINI_FAST_MODEL
+  }),
+  openai: (env) => (env.OPENAI_BASE_URL || env.OPENAI_API_KEY) && createOpenAiCompatibleProvider({
+    baseUrl: env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+    apiKey: env.OPENAI_API_KEY,
+    model: env.OPENAI_MODEL || 'gpt-4o-mini',
+    fastModel: env.OPENAI_FAST_MODEL
+  }),
+  ollama: (env) => createOllamaProvider({
+    baseUrl: env.OLLAMA_BASE_URL,
+    model: env.OLLAMA_MODEL,
+    fastModel: env.OLLAMA_FAST_MODEL
+  }),
+  stub: (env) => createStubProvider({ reply: env.LLM_STUB_REPLY })
+};
+
+// Used when LLM_PROVIDERS is not set: every hosted provider with a key, then
+// Ollama if its URL is set
+const defaultProviderNames = (env) => [
+  ...['groq', 'gemini', 'openai'].filter(name => PROVIDER_FACTORIES[name](env)),
+  ...(env.OLLAMA_BASE_URL ? ['ollama'] : [])
+];
+
+/**
+ * The provider chain described by environment variables:
+ *   LLM_PROVIDERS      comma-separated fallback order, e.g. "groq,gemini,ollama" or "stub"
+ *   LLM_TIMEOUT_MS     per attempt; for streams, until the first chunk
+ *   LLM_MAX_RETRIES    per provider, on rate limits, server errors and timeouts
+ *   GROQ_API_KEY, GROQ_MODEL, GROQ_FAST_MODEL
+ *   GEMINI_API_KEY, GEMINI_MODEL, GEMINI_FAST_MODEL
+ *   OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL, OPENAI_FAST_MODEL
+ *   OLLAMA_BASE_URL, OLLAMA_MODEL, OLLAMA_FAST_MODEL
+ *   LLM_STUB_REPLY     fixed text for the stub provider
+ */
+export const llmFromEnv = (env = process.env) => {
+  const names = env.LLM_PROVIDERS
+    ? env.LLM_PROVIDERS.split(',').map(name => name.trim().toLowerCase()).filter(Boolean)
+    : defaultProviderNames(env);
+
+  const providers = names.flatMap(name => {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      console.warn(`⚠️  Unknown AI provider "${name}" in LLM_PROVIDERS; expected one of ${Object.keys(PROVIDER_FACTORIES).join(', ')}`);
+      return [];
+    }
+    const provider = factory(env);
+    if (!provider) console.warn(`⚠️  AI provider "${name}" is missing its API key and was skipped`);
+    return provider ? [provider] : [];
+  });
+
+  const number = (value, fallback) => (value === undefined || value === '' || !Number.isFinite(Number(value)) ? fallback : Number(value));
+  return createLlm({
+    providers,
+    timeoutMs: number(env.LLM_TIMEOUT_MS, DEFAULT_TIMEOUT_MS),
+    maxRetries: number(env.LLM_MAX_RETRIES, DEFAULT_MAX_RETRIES)
+  });
+};
+
+/** "groq (llama-3.3-70b-versatile) → gemini (gemini-2.5-pro)" for startup logs */
+export const describeLlm = (llm) => llm.providers.map(p => `${p.name} (${p.model})`).join(' → ') || 'none configured';
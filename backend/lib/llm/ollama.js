@@ -0,0 +1,47 @@
+import { postJson, readLines } from './http.js';
+
+// A local Ollama server through its native chat API. (A llama.cpp
+// `llama-server` speaks the OpenAI API; use the openai provider for it.)
+
+/**
+ * @param {{ baseUrl?: string, model?: string, fastModel?: string }} config
+ * @returns {import('./index.js').LlmProvider}
+ */
+export const createOllamaProvider = ({ baseUrl = 'http://localhost:11434', model = 'llama3.1', fastModel }) => {
+  const url = `${baseUrl.replace(/\/+$/, '')}/api/chat`;
+
+  const request = (params, stream) => postJson('ollama', url, {
+    model: params.tier === 'fast' && fastModel ? fastModel : model,
+    messages: params.messages.map(({ role, content, images }) => ({
+      role,
+      content,
+      ...(images?.length && { images: images.map(image => image.data) })
+    })),
+    stream,
+    options: {
+      temperature: params.temperature,
+      top_p: params.topP,
+      num_predict: params.maxTokens
+    }
+  }, { signal: params.signal });
+
+  return {
+    name: 'ollama',
+    model,
+
+    async complete(params) {
+      const data = await (await request(params, false)).json();
+      return data.message?.content || '';
+    },
+
+    // Newline-delimited JSON, one object per chunk
+    async *stream(params) {
+      for await (const line of readLines(await request(params, true))) {
+        if (!line.trim()) continue;
+        const chunk = JSON.parse(line);
+        if (chunk.error) throw new Error(`ollama: ${chunk.error}`);
+        if (chunk.message?.content) yield chunk.message.content;
+      }
+    }
+  };
+};
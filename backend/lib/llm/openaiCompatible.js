@@ -0,0 +1,49 @@
+import { postJson, readEvents } from './http.js';
+
+// Any server speaking the OpenAI chat completions API: OpenAI itself, Groq,
+// OpenRouter, vLLM, LM Studio, or a llama.cpp `llama-server`
+
+const toOpenAiMessage = ({ role, content, images }) => (images?.length
+  ? {
+      role,
+      content: [
+        { type: 'text', text: content },
+        ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }))
+      ]
+    }
+  : { role, content });
+
+/**
+ * @param {{ name?: string, baseUrl: string, apiKey?: string, model: string, fastModel?: string }} config
+ * @returns {import('./index.js').LlmProvider}
+ */
+export const createOpenAiCompatibleProvider = ({ name = 'openai', baseUrl, apiKey, model, fastModel }) => {
+  const url = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  const headers = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+  const request = (params, stream) => postJson(name, url, {
+    model: params.tier === 'fast' && fastModel ? fastModel : model,
+    messages: params.messages.map(toOpenAiMessage),
+    temperature: params.temperature,
+    max_tokens: params.maxTokens,
+    top_p: params.topP,
+    stream
+  }, { headers, signal: params.signal });
+
+  return {
+    name,
+    model,
+
+    async complete(params) {
+      const data = await (await request(params, false)).json();
+      return data.choices?.[0]?.message?.content || '';
+    },
+
+    async *stream(params) {
+      for await (const chunk of readEvents(await request(params, true))) {
+        const delta = chunk.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  };
+};
@@ -0,0 +1,38 @@
+// A deterministic provider for running the chat, diet-plan and insights
+// routes offline. The reply depends only on the request, so tests can assert
+// on it; set `reply` (LLM_STUB_REPLY) to return fixed text instead.
+
+const replyTo = (params) => {
+  const lastUser = [...params.messages].reverse().find(m => m.role === 'user')?.content || '';
+  const system = params.messages.filter(m => m.role === 'system').map(m => m.content).join('\n');
+  const question = lastUser.replace(/\s+/g, ' ').trim();
+  return [
+    `Stub reply to: "${question.length > 200 ? `${question.slice(0, 200)}...` : question}"`,
+    `(${params.messages.length} messages, ${system.length} characters of system prompt, ${params.tier || 'default'} model)`
+  ].join('\n\n');
+};
+
+/**
+ * @param {{ reply?: string }} [config]
+ * @returns {import('./index.js').LlmProvider}
+ */
+export const createStubProvider = ({ reply } = {}) => {
+  const textFor = (params) => reply ?? replyTo(params);
+
+  return {
+    name: 'stub',
+    model: 'stub',
+
+    async complete(params) {
+      return textFor(params);
+    },
+
+    // Word by word, so streaming clients see more than one chunk
+    async *stream(params) {
+      for (const word of textFor(params).match(/\S+\s*|\s+/g) || []) {
+        if (params.signal?.aborted) throw params.signal.reason;
+        yield word;
+      }
+    }
+  };
+};
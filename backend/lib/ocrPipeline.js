@@ -0,0 +1,149 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { dirname, join, parse } from 'path';
+import { fileURLToPath } from 'url';
+import tesseract from 'node-tesseract-ocr';
+
+// OCR for photos and scanned pages. Each image is cleaned up by
+// ocr_preprocess.py (perspective crop, shadow removal, denoise, deskew,
+// binarisation) and then read with several Tesseract page-segmentation
+// modes; the reading with the best word confidence wins.
+
+const run = promisify(execFile);
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const PREPROCESS_SCRIPT = join(__dirname, '..', 'ocr_preprocess.py');
+const PREPROCESS_TIMEOUT_MS = 60000;
+
+// Tried in order on the cleaned image. 6 (single block) and 4 (single
+// column) usually read lab tables better than the automatic layout (3).
+const PSM_CANDIDATES = [6, 4, 3];
+// Good enough to stop trying other modes
+const CONFIDENT = 90;
+// A reading with fewer characters than this is not a real candidate
+const MIN_CHARS = 20;
+
+/**
+ * @typedef {Object} OcrWord
+ * @property {string} text
+ * @property {number} conf   0-100
+ * @property {number} line   index into the text's lines
+ * @property {[number, number, number, number]} bbox  left, top, width, height
+ */
+
+/**
+ * @typedef {Object} OcrResult
+ * @property {string} text
+ * @property {number} confidence  character-weighted mean word confidence
+ * @property {number} psm
+ * @property {boolean} preprocessed
+ * @property {object | null} preprocess  steps reported by ocr_preprocess.py
+ * @property {OcrWord[]} words
+ */
+
+const preprocess = async (imagePath) => {
+  const { dir, name } = parse(imagePath);
+  const output = join(dir, `${name}.clean.png`);
+  try {
+    const { stdout } = await run('python', [PREPROCESS_SCRIPT, imagePath, output], { timeout: PREPROCESS_TIMEOUT_MS });
+    return { path: output, steps: JSON.parse(stdout.trim() || '{}') };
+  } catch (error) {
+    // OCR still works on the raw photo, just less reliably
+    console.warn('  ⚠️  Image preprocessing skipped:', error.message.split('\n')[0]);
+    return null;
+  }
+};
+
+// Tesseract TSV: level page block par line word left top width height conf text
+const parseTsv = (tsv) => {
+  const words = [];
+  const lines = [];
+  const lineIndex = new Map();
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const cols = row.split('\t');
+    if (cols.length < 12 || cols[0] !== '5') continue;
+    const text = cols.slice(11).join('\t').trim();
+    const conf = parseFloat(cols[10]);
+    if (!text || conf < 0) continue;
+
+    const key = `${cols[2]}-${cols[3]}-${cols[4]}`;
+    if (!lineIndex.has(key)) {
+      lineIndex.set(key, lines.length);
+      lines.push([]);
+    }
+    const line = lineIndex.get(key);
+    lines[line].push(text);
+    words.push({
+      text,
+      conf: Math.round(conf),
+      line,
+      bbox: [cols[6], cols[7], cols[8], cols[9]].map(Number)
+    });
+  }
+
+  const chars = words.reduce((sum, w) => sum + w.text.length, 0);
+  const confidence = chars ? Math.round(words.reduce((sum, w) => sum + w.conf * w.text.length, 0) / chars) : 0;
+
+  return { text: lines.map(l => l.join(' ')).join('\n'), confidence, words };
+};
+
+const readImage = async (imagePath, psm) => {
+  const tsv = await tesseract.recognize(imagePath, { lang: 'eng', oem: 1, psm, presets: ['tsv'] });
+  return { ...parseTsv(tsv), psm };
+};
+
+const isUsable = (reading) => reading.text.replace(/\s+/g, '').length >= MIN_CHARS;
+
+// Usable readings compete on confidence; if none is usable yet, keep the longest
+const isBetter = (reading, best) => {
+  if (!best) return true;
+  if (isUsable(reading) !== isUsable(best)) return isUsable(reading);
+  return isUsable(reading) ? reading.confidence > best.confidence : reading.text.length > best.text.length;
+};
+
+/**
+ * @param {string} imagePath  image on disk (a temp file is written next to it)
+ * @returns {Promise<OcrResult>}
+ */
+export const recognizeImage = async (imagePath) => {
+  const cleaned = await preprocess(imagePath);
+
+  const attempts = [
+    ...(cleaned ? PSM_CANDIDATES.map(psm => ({ path: cleaned.path, psm, preprocessed: true })) : []),
+    // The untouched image with automatic layout, in case preprocessing hurt
+    { path: imagePath, psm: 3, preprocessed: false }
+  ];
+
+  let best = null;
+  for (const attempt of attempts) {
+    const reading = { ...await readImage(attempt.path, attempt.psm), preprocessed: attempt.preprocessed };
+    if (isBetter(reading, best)) best = reading;
+    if (isUsable(reading) && reading.confidence >= CONFIDENT) break;
+  }
+
+  console.log(`  🔎 OCR: psm ${best.psm}${best.preprocessed ? ' (preprocessed)' : ''}, confidence ${best.confidence}%`);
+  return { ...best, preprocess: cleaned?.steps ?? null };
+};
+
+const digitsOf = (value) => String(value).replace(/[^\d]/g, '');
+
+/**
+ * Attaches the OCR confidence of each parsed value: the lowest confidence
+ * among the words on its source line that spell the number. Values from a
+ * PDF text layer are exact and get no confidence.
+ * @param {import('../../shared/labParser.js').LabResult[]} results
+ * @param {{ page: number, text: string, words?: OcrWord[] }[]} pages
+ */
+export const attachConfidence = (results, pages) => results.map(result => {
+  const page = pages.find(p => p.page === (result.page ?? 1));
+  if (!page?.words?.length) return result;
+
+  const line = page.text.split('\n').findIndex(l => l.trim() === result.sourceLine);
+  const lineWords = page.words.filter(w => w.line === line);
+  if (!lineWords.length) return result;
+
+  const digits = digitsOf(result.rawValue);
+  const valueWords = lineWords.filter(w => digits && digitsOf(w.text).includes(digits));
+  const source = valueWords.length ? valueWords : lineWords;
+  return { ...result, confidence: Math.min(...source.map(w => w.conf)) };
+});
@@ -0,0 +1,274 @@
+import MedicalReport from '../MedicalReport.js';
+
+// A local BM25 index over a patient's reports, so a chat question pulls in the
+// few passages and lab values it is about instead of every report's text.
+// Reports are split into chunks: OCR text by page and paragraph, the AI
+// analysis, and one chunk per parsed lab value. Passages are grouped under a
+// source tag per report ([R1], [R2], ...) that the model cites in its answer.
+
+const CHUNK_CHARS = 600;
+// BM25 parameters; the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+export const MAX_PASSAGES = 8;
+const MAX_PER_REPORT = 4;
+const INDEX_CACHE_SIZE = 100;
+
+const STOPWORDS = new Set(`about above after again also and any are because been before being but can could did does doing down during each few for from further had has have having her here hers him his how into its just like me more most my myself nor not now off once only other our out over own same she should some such than that the their them then there these they this those through too under until very was were what when where which while who whom why will with would you your yours feel feeling get got know tell think want please much many really result results report reports level levels value values test tests`.split(' '));
+
+// Lay terms to the analytes and words reports actually use
+const QUERY_EXPANSIONS = {
+  cholesterol: ['ldl', 'hdl', 'lipid', 'triglyceride'],
+  lipid: ['cholesterol', 'ldl', 'hdl', 'triglyceride'],
+  fat: ['triglyceride', 'cholesterol'],
+  sugar: ['glucose', 'hba1c', 'a1c'],
+  diabetes: ['glucose', 'hba1c', 'a1c'],
+  kidney: ['creatinine', 'egfr', 'urea', 'bun'],
+  liver: ['alt', 'ast', 'bilirubin', 'alp', 'sgpt', 'sgot'],
+  thyroid: ['tsh', 't3', 't4'],
+  anaemia: ['hemoglobin', 'haemoglobin', 'ferritin', 'iron'],
+  anemia: ['hemoglobin', 'haemoglobin', 'ferritin', 'iron'],
+  blood: ['hemoglobin', 'rbc', 'wbc', 'platelet']
+};
+
+// Lowercase words without stopwords, with plurals folded ("triglycerides")
+export const tokenize = (text = '') => (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+  .filter(t => t.length > 1 && !STOPWORDS.has(t))
+  .map(t => (t.length > 4 && t.endsWith('s') && !t.endsWith('ss') ? t.slice(0, -1) : t));
+
+const expandQuery = (terms) => [...new Set(terms.flatMap(t => [t, ...(QUERY_EXPANSIONS[t] || [])]))];
+
+const PAGE_MARKER = /^--- Page (\d+) \((.*)\) ---$/;
+
+// Page-sized pieces of the extracted text (see joinPages in documentIngest.js)
+const pagesOf = (text = '') => {
+  const pages = [];
+  let current = { page: undefined, lines: [] };
+  for (const line of text.split('\n')) {
+    const marker = line.trim().match(PAGE_MARKER);
+    if (marker) {
+      if (current.lines.length) pages.push(current);
+      current = { page: Number(marker[1]), lines: [] };
+    } else {
+      current.lines.push(line);
+    }
+  }
+  if (current.lines.length) pages.push(current);
+  return pages;
+};
+
+// Consecutive lines up to CHUNK_CHARS, breaking at blank lines where possible
+const chunkLines = (lines) => {
+  const chunks = [];
+  let current = [];
+  let length = 0;
+  const flush = () => {
+    const text = current.join('\n').trim();
+    if (text) chunks.push(text);
+    current = [];
+    length = 0;
+  };
+  for (const line of lines) {
+    if (!line.trim()) {
+      if (length > CHUNK_CHARS / 2) flush();
+      continue;
+    }
+    if (length + line.length > CHUNK_CHARS && current.length) flush();
+    current.push(line.trim());
+    length += line.length + 1;
+  }
+  flush();
+  return chunks;
+};
+
+const day = (date) => (date ? new Date(date).toISOString().slice(0, 10) : 'undated');
+
+const describeLab = (r) => {
+  const range = r.referenceRange?.label ? `; reference ${r.referenceRange.label}` : '';
+  return `${r.name || r.analyte}: ${r.value} ${r.unit || ''}`.trim() + ` (${r.flag || 'unflagged'}${range}${r.verified ? ', verified by patient' : ''})`;
+};
+
+/**
+ * @typedef {Object} ReportChunk
+ * @property {string} reportId
+ * @property {'lab' | 'analysis' | 'text'} kind
+ * @property {string} text
+ * @property {number} [page]
+ * @property {Map<string, number>} terms  term frequencies
+ * @property {number} length             in terms
+ */
+
+/**
+ * @typedef {Object} ReportIndex
+ * @property {Map<string, { id: string, reportType: string, uploadedAt: Date, fileNames: string[] }>} reports
+ * @property {ReportChunk[]} chunks
+ * @property {Map<string, number>} documentFrequency
+ * @property {number} averageLength
+ */
+
+const toChunk = (reportId, kind, text, page, extra = '') => {
+  const tokens = tokenize(`${text} ${extra}`);
+  const terms = new Map();
+  tokens.forEach(t => terms.set(t, (terms.get(t) || 0) + 1));
+  return { reportId, kind, text, page, terms, length: tokens.length };
+};
+
+/**
+ * @param {object[]} reports  MedicalReport documents (or the same shape from the client)
+ * @returns {ReportIndex}
+ */
+export const buildReportIndex = (reports = []) => {
+  const meta = new Map();
+  const chunks = [];
+
+  for (const report of reports) {
+    const id = String(report._id ?? report.id ?? meta.size);
+    meta.set(id, { id, reportType: report.reportType || 'Medical Report', uploadedAt: report.uploadedAt, fileNames: report.fileNames || [] });
+
+    for (const result of report.labResults || []) {
+      chunks.push(toChunk(id, 'lab', describeLab(result), result.page, `${result.analyte} ${result.sourceLine || ''}`));
+    }
+    for (const text of chunkLines((report.aiAnalysis || '').split('\n'))) {
+      chunks.push(toChunk(id, 'analysis', text));
+    }
+    for (const { page, lines } of pagesOf(report.extractedText)) {
+      for (const text of chunkLines(lines)) chunks.push(toChunk(id, 'text', text, page));
+    }
+  }
+
+  const documentFrequency = new Map();
+  chunks.forEach(chunk => chunk.terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)));
+  const averageLength = chunks.reduce((sum, c) => sum + c.length, 0) / (chunks.length || 1);
+
+  return { reports: meta, chunks, documentFrequency, averageLength };
+};
+
+const bm25 = (index, chunk, terms) => terms.reduce((score, term) => {
+  const tf = chunk.terms.get(term);
+  if (!tf) return score;
+  const df = index.documentFrequency.get(term);
+  const idf = Math.log(1 + (index.chunks.length - df + 0.5) / (df + 0.5));
+  return score + idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * chunk.length / (index.averageLength || 1)));
+}, 0);
+
+/**
+ * The best-matching chunks, at most MAX_PER_REPORT from any one report. With
+ * no match at all the latest report's lab values and analysis are used, since
+ * general questions ("how am I doing?") are about the current picture.
+ *
+ * @returns {(ReportChunk & { score: number })[]}
+ */
+export const searchReports = (index, query, limit = MAX_PASSAGES) => {
+  const terms = expandQuery(tokenize(query));
+  const perReport = new Map();
+  const hits = index.chunks
+    .map(chunk => ({ ...chunk, score: bm25(index, chunk, terms) }))
+    .filter(hit => hit.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .filter(hit => {
+      const count = perReport.get(hit.reportId) || 0;
+      perReport.set(hit.reportId, count + 1);
+      return count < MAX_PER_REPORT;
+    })
+    .slice(0, limit);
+  if (hits.length || !index.reports.size) return hits;
+
+  const latest = [...index.reports.values()].sort((a, b) => new Date(b.uploadedAt || 0) - new Date(a.uploadedAt || 0))[0];
+  return index.chunks
+    .filter(c => c.reportId === latest.id && c.kind !== 'text')
+    .slice(0, limit)
+    .map(c => ({ ...c, score: 0 }));
+};
+
+/**
+ * @typedef {Object} ReportSource
+ * @property {'report'} kind
+ * @property {string} tag          "R1"; cited in the answer as [R1]
+ * @property {string} reportId
+ * @property {string} reportType
+ * @property {string} date         YYYY-MM-DD
+ * @property {string[]} fileNames
+ * @property {number[]} pages
+ * @property {string[]} excerpts
+ */
+
+/**
+ * Groups hits under one source tag per report, in order of best hit, and
+ * renders them for the system prompt within `maxChars`.
+ *
+ * @returns {{ sources: ReportSource[], context: string }}
+ */
+export const describePassages = (index, hits, maxChars = Infinity) => {
+  const groups = new Map();
+  for (const hit of hits) {
+    if (!groups.has(hit.reportId)) groups.set(hit.reportId, []);
+    groups.get(hit.reportId).push(hit);
+  }
+
+  let used = 0;
+  const sources = [];
+  const blocks = [];
+  for (const [reportId, group] of groups) {
+    const report = index.reports.get(reportId);
+    const tag = `R${sources.length + 1}`;
+    const files = report.fileNames.length ? ` (${report.fileNames.join(', ')})` : '';
+    const lines = [`[${tag}] ${report.reportType}, ${day(report.uploadedAt)}${files}`];
+    const excerpts = [];
+    for (const hit of group) {
+      const label = hit.kind === 'lab' ? 'Lab' : hit.kind === 'analysis' ? 'Earlier analysis' : `Report text${hit.page ? `, page ${hit.page}` : ''}`;
+      const line = `- ${label}: ${hit.text.replace(/\s*\n\s*/g, ' ')}`;
+      if (used + line.length > maxChars && excerpts.length) break;
+      lines.push(line);
+      excerpts.push(hit.text);
+      used += line.length;
+    }
+    if (used > maxChars && sources.length) break;
+    blocks.push(lines.join('\n'));
+    sources.push({
+      kind: 'report',
+      tag,
+      reportId,
+      reportType: report.reportType,
+      date: day(report.uploadedAt),
+      fileNames: report.fileNames,
+      pages: [...new Set(group.map(h => h.page).filter(Boolean))],
+      excerpts
+    });
+  }
+
+  return { sources, context: blocks.join('\n\n') };
+};
+
+// --- Per-user cache -------------------------------------------------------
+
+// Rebuilt when a report is added, edited or removed; the fingerprint query
+// reads ids and timestamps only, so a cache hit does not load any report text
+const indexCache = new Map();
+
+/**
+ * @param {import('mongoose').Types.ObjectId} userId
+ * @returns {Promise<ReportIndex>}
+ */
+export const getReportIndex = async (userId) => {
+  const key = String(userId);
+  const stamps = await MedicalReport.find({ userId }).select('_id updatedAt').lean();
+  const fingerprint = stamps.map(r => `${r._id}:${new Date(r.updatedAt || 0).getTime()}`).sort().join(',');
+
+  const cached = indexCache.get(key);
+  if (cached?.fingerprint === fingerprint) {
+    // Most recently used last
+    indexCache.delete(key);
+    indexCache.set(key, cached);
+    return cached.index;
+  }
+
+  const reports = await MedicalReport.find({ userId })
+    .select('reportType fileNames uploadedAt extractedText aiAnalysis labResults')
+    .lean();
+  const index = buildReportIndex(reports);
+  indexCache.delete(key);
+  indexCache.set(key, { fingerprint, index });
+  if (indexCache.size > INDEX_CACHE_SIZE) indexCache.delete(indexCache.keys().next().value);
+  console.log(`🔎 Indexed ${reports.length} reports (${index.chunks.length} chunks) for chat retrieval`);
+  return index;
+};
@@ -0,0 +1,47 @@
+// Picks cardiovascular-relevant symptoms out of what the patient tells the
+// chat assistant, so they can be listed in a visit summary. Keyword based on
+// purpose: it must be predictable and cheap enough to run on every message.
+
+import { sentencesOf, affirmed } from '../../shared/negation.js';
+
+/**
+ * @typedef {Object} SymptomDef
+ * @property {string} id
+ * @property {string} label
+ * @property {RegExp} pattern
+ */
+
+/** @type {SymptomDef[]} */
+export const SYMPTOMS = [
+  { id: 'chest_pain', label: 'Chest pain or tightness', pattern: /\bchest\s+(?:pain|tightness|pressure|discomfort|hurts?|ache)|\b(?:pain|tightness|pressure)\s+in\s+(?:my\s+)?chest|\bangina\b/ },
+  { id: 'shortness_of_breath', label: 'Shortness of breath', pattern: /\bshort(?:ness)?\s+of\s+breath|\bbreathless|\b(?:hard|difficult|trouble)\s+(?:to\s+)?breath(?:e|ing)|\bdyspn/ },
+  { id: 'palpitations', label: 'Palpitations', pattern: /\bpalpitation|\bheart\s+(?:is\s+)?(?:racing|pounding|fluttering|skipping)|\b(?:racing|pounding|irregular)\s+heart(?:beat)?\b|\bskipped\s+beats?\b/ },
+  { id: 'dizziness', label: 'Dizziness or light-headedness', pattern: /\bdizz(?:y|iness)|\blight[\s-]?headed|\bvertigo\b/ },
+  { id: 'fainting', label: 'Fainting', pattern: /\bfaint(?:ed|ing)?\b|\bpass(?:ed)?\s+out\b|\bblack(?:ed)?\s+out\b|\bsyncope\b/ },
+  { id: 'swelling', label: 'Leg or ankle swelling', pattern: /\bswollen\s+(?:legs?|ankles?|feet|foot)|\b(?:legs?|ankles?|feet|foot)\s+(?:are\s+|is\s+)?swollen|\bswelling\s+in\s+(?:my\s+)?(?:legs?|ankles?|feet|foot)|\boedema|\bedema/ },
+  { id: 'fatigue', label: 'Fatigue', pattern: /\bfatigue|\bexhausted|\balways\s+tired|\b(?:very|really|so)\s+tired|\bno\s+energy\b/ },
+  { id: 'headache', label: 'Headache', pattern: /\bheadaches?\b|\bmigraine/ },
+  { id: 'nausea', label: 'Nausea', pattern: /\bnause(?:a|ous)|\bvomit/ },
+  { id: 'sweating', label: 'Cold sweats', pattern: /\bcold\s+sweats?|\bsweating\s+a\s+lot|\bnight\s+sweats?/ },
+  { id: 'arm_jaw_pain', label: 'Arm, jaw or shoulder pain', pattern: /\bpain\s+(?:in|down)\s+(?:my\s+)?(?:left\s+)?(?:arm|jaw|shoulder)|\b(?:arm|jaw)\s+pain\b/ },
+  { id: 'vision', label: 'Blurred vision', pattern: /\bblurr(?:ed|y)\s+vision|\bvision\s+(?:is\s+)?blurr/ }
+];
+
+/**
+ * Symptoms the patient reports having in a chat message, each with the
+ * sentence it was found in. Negated mentions are ignored.
+ * @param {string} text
+ * @returns {{ symptom: string, label: string, excerpt: string }[]}
+ */
+export const extractSymptoms = (text) => {
+  const found = new Map();
+  for (const sentence of sentencesOf(text || '')) {
+    for (const def of SYMPTOMS) {
+      if (found.has(def.id)) continue;
+      if (affirmed(sentence, def.pattern)) {
+        found.set(def.id, { symptom: def.id, label: def.label, excerpt: sentence.slice(0, 200) });
+      }
+    }
+  }
+  return [...found.values()];
+};
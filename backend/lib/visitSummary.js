@@ -0,0 +1,230 @@
+import Scan from '../models/Scan.js';
+import HealthData from '../models/HealthData.js';
+import SymptomLog from '../models/SymptomLog.js';
+import MedicalReport from '../MedicalReport.js';
+import { PLAUSIBLE_VITALS } from '../../shared/vitalRanges.js';
+
+// Compiles everything recorded for a patient over a date range into one
+// summary for a doctor's appointment: vitals from camera scans, the ESP32
+// device, imported wearable exports and the Supabase sensor feed, lab changes
+// across uploaded reports, and symptoms mentioned to the chat assistant.
+
+export const MAX_RANGE_DAYS = 366;
+// Supabase readings are fetched by the browser and sent along
+export const MAX_SENSOR_READINGS = 5000;
+
+/**
+ * @typedef {'scan' | 'device' | 'sensor' | 'wearable'} VitalSource
+ *   scan: camera rPPG scan, device: ESP32 posting to /data,
+ *   sensor: Supabase `health_readings`, wearable: imported export file
+ */
+
+/**
+ * @typedef {Object} VitalMetric
+ * @property {string} key
+ * @property {string} label
+ * @property {string} unit
+ * @property {number} [low]       readings below this are out of range
+ * @property {number} [high]      readings above this are out of range
+ * @property {[number, number]} plausible  anything outside is a sensor glitch
+ */
+
+/** @type {VitalMetric[]} */
+export const VITAL_METRICS = [
+  // Resting adult heart rate
+  { key: 'heartRate', label: 'Heart rate', unit: 'bpm', low: 60, high: 100, plausible: PLAUSIBLE_VITALS.bpm },
+  // Below 95% warrants attention at sea level
+  { key: 'spo2', label: 'SpO2', unit: '%', low: 95, plausible: PLAUSIBLE_VITALS.spo2 },
+  // ACC/AHA: 130/80 and above is hypertension
+  { key: 'systolic', label: 'Systolic BP', unit: 'mmHg', low: 90, high: 129, plausible: PLAUSIBLE_VITALS.systolic },
+  { key: 'diastolic', label: 'Diastolic BP', unit: 'mmHg', low: 60, high: 79, plausible: PLAUSIBLE_VITALS.diastolic },
+  // No single normal range; reported for the trend only
+  { key: 'hrv', label: 'HRV (RMSSD)', unit: 'ms', plausible: PLAUSIBLE_VITALS.hrv }
+];
+
+const rangeLabel = ({ low, high }) =>
+  low !== undefined && high !== undefined ? `${low}-${high}` : low !== undefined ? `>= ${low}` : high !== undefined ? `<= ${high}` : null;
+
+const round = (value, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * @param {Date} from
+ * @param {Date} to
+ * @param {{ bpm: number, spo2: number, created_at: string }[]} sensorReadings
+ * @returns {Promise<{ source: VitalSource, timestamp: Date, values: Record<string, number | undefined> }[]>}
+ */
+const collectReadings = async (userId, from, to, sensorReadings) => {
+  const range = { $gte: from, $lte: to };
+  const [scans, deviceData] = await Promise.all([
+    // Low-quality scans are kept out of the statistics, as in the history charts
+    Scan.find({ userId, timestamp: range, qualityLevel: { $ne: 'low' } }).lean(),
+    HealthData.find({ userId, timestamp: range }).lean()
+  ]);
+
+  const sensor = sensorReadings
+    .map(r => ({ ...r, timestamp: new Date(r.created_at) }))
+    .filter(r => r.timestamp >= from && r.timestamp <= to);
+
+  return [
+    // Camera blood pressure is a model estimate, not a measurement, so it is
+    // kept out of the blood pressure statistics
+    ...scans.map(s => ({
+      source: 'scan',
+      timestamp: s.timestamp,
+      values: { heartRate: s.heartRate, hrv: s.hrv }
+    })),
+    ...deviceData.map(d => ({
+      source: (d.source ?? 'esp32') === 'esp32' ? 'device' : 'wearable',
+      timestamp: d.timestamp,
+      values: {
+        heartRate: d.bpm,
+        spo2: d.spo2,
+        systolic: d.systolic,
+        diastolic: d.diastolic,
+        // SDNN runs higher than RMSSD, so the two are not averaged together
+        hrv: d.hrvMethod === 'sdnn' ? undefined : d.hrv
+      }
+    })),
+    ...sensor.map(r => ({
+      source: 'sensor',
+      timestamp: r.timestamp,
+      values: { heartRate: Number(r.bpm), spo2: Number(r.spo2) }
+    }))
+  ];
+};
+
+/**
+ * Mean, min, max and out-of-range counts per metric. Metrics without any
+ * plausible reading in the range are left out.
+ */
+export const summarizeVitals = (readings) => VITAL_METRICS.flatMap(metric => {
+  const points = readings
+    .map(r => ({ source: r.source, value: r.values[metric.key] }))
+    .filter(p => Number.isFinite(p.value) && p.value >= metric.plausible[0] && p.value <= metric.plausible[1]);
+  if (!points.length) return [];
+
+  const values = points.map(p => p.value);
+  const bySource = {};
+  points.forEach(p => { bySource[p.source] = (bySource[p.source] || 0) + 1; });
+
+  return [{
+    key: metric.key,
+    label: metric.label,
+    unit: metric.unit,
+    range: rangeLabel(metric),
+    count: values.length,
+    mean: round(values.reduce((sum, v) => sum + v, 0) / values.length),
+    min: Math.min(...values),
+    max: Math.max(...values),
+    below: metric.low !== undefined ? values.filter(v => v < metric.low).length : 0,
+    above: metric.high !== undefined ? values.filter(v => v > metric.high).length : 0,
+    bySource
+  }];
+});
+
+/**
+ * The latest value of each analyte measured in the range, against the value
+ * before it, which may come from a report uploaded before the range.
+ */
+export const summarizeLabChanges = (reports, from) => {
+  const history = new Map();
+  [...reports]
+    .sort((a, b) => new Date(a.uploadedAt) - new Date(b.uploadedAt))
+    .forEach(report => (report.labResults || []).forEach(result => {
+      if (!history.has(result.analyte)) history.set(result.analyte, []);
+      history.get(result.analyte).push({ result, date: report.uploadedAt });
+    }));
+
+  return [...history.values()].flatMap(entries => {
+    const latest = entries[entries.length - 1];
+    if (new Date(latest.date) < from) return [];
+    const previous = entries[entries.length - 2];
+    const point = ({ result, date }) => ({ value: result.value, flag: result.flag, date, verified: !!result.verified });
+
+    return [{
+      analyte: latest.result.analyte,
+      name: latest.result.name,
+      unit: latest.result.unit,
+      referenceRange: latest.result.referenceRange?.label,
+      previous: previous ? point(previous) : null,
+      latest: point(latest),
+      change: previous ? round(latest.result.value - previous.result.value, 2) : null
+    }];
+  });
+};
+
+const summarizeSymptoms = (logs) => {
+  const groups = new Map();
+  for (const log of logs) {
+    const group = groups.get(log.symptom) || { symptom: log.symptom, label: log.label || log.symptom, count: 0, firstReported: log.reportedAt, lastReported: log.reportedAt, excerpts: [] };
+    group.count++;
+    if (log.reportedAt < group.firstReported) group.firstReported = log.reportedAt;
+    if (log.reportedAt > group.lastReported) group.lastReported = log.reportedAt;
+    if (group.excerpts.length < 3 && log.excerpt && !group.excerpts.includes(log.excerpt)) group.excerpts.push(log.excerpt);
+    groups.set(log.symptom, group);
+  }
+  return [...groups.values()].sort((a, b) => b.count - a.count);
+};
+
+/**
+ * @param {import('mongoose').Types.ObjectId} userId
+ * @param {{ from: Date, to: Date, sensorReadings?: object[] }} options
+ */
+export const compileVisitSummary = async (userId, { from, to, sensorReadings = [] }) => {
+  const [readings, reports, symptomLogs] = await Promise.all([
+    collectReadings(userId, from, to, sensorReadings),
+    MedicalReport.find({ userId, uploadedAt: { $lte: to } })
+      .select('reportType fileNames uploadedAt labResults reviewedAt')
+      .lean(),
+    SymptomLog.find({ userId, reportedAt: { $gte: from, $lte: to } }).lean()
+  ]);
+
+  const readingCounts = { scan: 0, device: 0, sensor: 0, wearable: 0 };
+  readings.forEach(r => { readingCounts[r.source]++; });
+
+  return {
+    from,
+    to,
+    generatedAt: new Date(),
+    readingCounts,
+    vitals: summarizeVitals(readings),
+    labChanges: summarizeLabChanges(reports, from),
+    symptoms: summarizeSymptoms(symptomLogs),
+    reports: reports
+      .filter(r => r.uploadedAt >= from)
+      .sort((a, b) => b.uploadedAt - a.uploadedAt)
+      .map(r => ({
+        id: r._id,
+        reportType: r.reportType,
+        fileNames: r.fileNames,
+        uploadedAt: r.uploadedAt,
+        labCount: r.labResults?.length || 0,
+        reviewed: !!r.reviewedAt
+      }))
+  };
+};
+
+const day = (date) => new Date(date).toISOString().slice(0, 10);
+
+/** Plain-text version of a compiled summary for the overview prompt */
+export const describeVisitSummary = (summary) => {
+  const lines = [`PERIOD: ${day(summary.from)} to ${day(summary.to)}`, '', 'VITALS:'];
+  if (!summary.vitals.length) lines.push('- No readings in this period');
+  summary.vitals.forEach(v => {
+    const outOfRange = v.below + v.above;
+    lines.push(`- ${v.label}: mean ${v.mean} ${v.unit} (min ${v.min}, max ${v.max}, ${v.count} readings${v.range ? `, ${outOfRange} outside ${v.range}` : ''})`);
+  });
+
+  lines.push('', 'LAB CHANGES:');
+  if (!summary.labChanges.length) lines.push('- No lab results in this period');
+  summary.labChanges.forEach(l => {
+    const previous = l.previous ? `${l.previous.value} on ${day(l.previous.date)} -> ` : '';
+    lines.push(`- ${l.name}: ${previous}${l.latest.value} ${l.unit} on ${day(l.latest.date)} (${l.latest.flag})`);
+  });
+
+  lines.push('', 'SYMPTOMS MENTIONED BY THE PATIENT:');
+  if (!summary.symptoms.length) lines.push('- None recorded');
+  summary.symptoms.forEach(s => lines.push(`- ${s.label}: ${s.count} time${s.count === 1 ? '' : 's'}, last on ${day(s.lastReported)}`));
+
+  return lines.join('\n');
+};
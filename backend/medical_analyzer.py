@@ -1,10 +1,42 @@
 import sys
 import io
+import re
 from transformers import pipeline
 
 sys.stdout = io.TextIOWrapper(sys.stdout.buffer, encoding='utf-8', errors='replace')
 sys.stderr = io.TextIOWrapper(sys.stderr.buffer, encoding='utf-8', errors='replace')
 
+# The summarisation model only sees ~512 tokens, so long documents are split
+# and summarised piece by piece to cover every page
+CHUNK_CHARS = 2000
+PAGE_MARKER = re.compile(r'^--- Page (\d+)(?: \([^)]*\))? ---$', re.MULTILINE)
+
+
+def split_into_chunks(text):
+    """
+    Returns (label, text) pairs: one per page when page markers are present,
+    with long pages further split on line boundaries
+    """
+    parts = PAGE_MARKER.split(text)
+    if len(parts) == 1:
+        pages = [(None, text)]
+    else:
+        # split() yields [preamble, page_no, body, page_no, body, ...]
+        pages = [(f"Page {parts[i]}", parts[i + 1]) for i in range(1, len(parts), 2)]
+
+    chunks = []
+    for label, body in pages:
+        current = ""
+        for line in body.split('\n'):
+            if len(current) + len(line) > CHUNK_CHARS and current.strip():
+                chunks.append((label, current))
+                current = ""
+            current += line + '\n'
+        if current.strip():
+            chunks.append((label, current))
+    return chunks
+
+
 def analyze_medical_text(text):
     try:
         print("Loading medical AI model...", file=sys.stderr)
@@ -18,14 +50,32 @@ def analyze_medical_text(text):
         print("Generating comprehensive medical analysis...", file=sys.stderr)
         
         # Generate main summary
-        summary_result = summarizer(
-            text,
-            max_length=500,
-            min_length=150,
-            do_sample=False
-        )
-        
-        main_summary = summary_result[0]['summary_text']
+        chunks = split_into_chunks(text)
+        if len(chunks) == 1:
+            summary_result = summarizer(
+                text,
+                max_length=500,
+                min_length=150,
+                do_sample=False,
+                truncation=True
+            )
+            main_summary = summary_result[0]['summary_text']
+        else:
+            print(f"Summarising {len(chunks)} sections...", file=sys.stderr)
+            sections = []
+            for label, chunk in chunks:
+                if len(chunk.strip()) < 80:
+                    continue
+                result = summarizer(
+                    chunk,
+                    max_length=160,
+                    min_length=30,
+                    do_sample=False,
+                    truncation=True
+                )
+                summary = result[0]['summary_text']
+                sections.append(f"[{label}] {summary}" if label else summary)
+            main_summary = "\n\n".join(sections)
         
         print("Analysis complete!", file=sys.stderr)
         
@@ -0,0 +1,33 @@
+import crypto from 'crypto';
+import Session from '../models/Session.js';
+import User from '../models/User.js';
+
+export const SESSION_TTL_DAYS = 30;
+
+export const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Resolves the bearer token to req.user; rejects the request otherwise
+export const requireAuth = async (req, res, next) => {
+  try {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : null;
+
+    if (!token) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    const session = await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+    const user = session && await User.findById(session.userId);
+
+    if (!user) {
+      return res.status(401).json({ success: false, error: 'Session expired. Please sign in again.' });
+    }
+
+    req.user = user;
+    req.authSession = session;
+    next();
+  } catch (error) {
+    console.error('❌ Auth Error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to verify session' });
+  }
+};
@@ -0,0 +1,127 @@
+import mongoose from 'mongoose';
+
+// A report, scan or sensor reading an answer cited (see lib/chatSources.js)
+const chatSourceSchema = new mongoose.Schema({
+  kind: {
+    type: String,
+    enum: ['report', 'scan', 'reading'],
+    default: 'report'
+  },
+  tag: String,
+  reportId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'MedicalReport'
+  },
+  scanId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Scan'
+  },
+  readingId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'HealthData'
+  },
+  reportType: String,
+  device: String,
+  date: String,
+  summary: String,
+  fileNames: [String],
+  pages: [Number],
+  excerpts: [String]
+}, { _id: false });
+
+// Red flags found in a patient message (see shared/triage.js)
+const triageSchema = new mongoose.Schema({
+  level: {
+    type: String,
+    enum: ['emergency', 'urgent', 'none'],
+    required: true
+  },
+  findings: [{
+    _id: false,
+    id: String,
+    label: String,
+    level: String,
+    source: String,
+    detail: String
+  }],
+  guidance: [String]
+}, { _id: false });
+
+const chatMessageSchema = new mongoose.Schema({
+  role: {
+    type: String,
+    enum: ['user', 'model'],
+    required: true
+  },
+  text: {
+    type: String,
+    required: true
+  },
+  timestamp: {
+    type: Date,
+    default: Date.now
+  },
+  // Generation was cut short with the stop button
+  stopped: Boolean,
+  sources: {
+    type: [chatSourceSchema],
+    default: undefined
+  },
+  triage: triageSchema
+}, { _id: false });
+
+// A saved conversation with the chat assistant
+const chatSessionSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  title: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 120
+  },
+  messages: [chatMessageSchema],
+  // Reports the assistant drew on while answering (see lib/reportIndex.js)
+  reportIds: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'MedicalReport'
+  }]
+}, { timestamps: true });
+
+chatSessionSchema.index({ userId: 1, updatedAt: -1 });
+
+// Title for a new session from the patient's first message
+chatSessionSchema.statics.titleFrom = function (text = '') {
+  const line = text.trim().split('\n')[0].replace(/\s+/g, ' ');
+  return line.length > 60 ? `${line.slice(0, 57).trimEnd()}...` : line || 'New conversation';
+};
+
+// Notes the reports a chat reply drew on. Fire-and-forget: the reply has
+// already been sent, and an unknown or foreign session is simply not matched.
+chatSessionSchema.statics.recordReports = function (sessionId, userId, reports = []) {
+  if (!mongoose.isValidObjectId(sessionId)) return;
+  const reportIds = reports.map(r => r?._id).filter(id => mongoose.isValidObjectId(id));
+  if (!reportIds.length) return;
+  this.updateOne({ _id: sessionId, userId }, { $addToSet: { reportIds: { $each: reportIds } } })
+    .catch(error => console.warn('⚠️  Could not record chat session reports:', error.message));
+};
+
+// Stores the server's triage, which also covers the patient's measurements,
+// on the message it was run for (the client saves the message before asking
+// for the reply). A repeated identical message gets the latest result too.
+chatSessionSchema.statics.recordTriage = function (sessionId, userId, text, triage) {
+  if (!mongoose.isValidObjectId(sessionId)) return;
+  this.updateOne(
+    { _id: sessionId, userId },
+    { $set: { 'messages.$[message].triage': triage } },
+    { arrayFilters: [{ 'message.role': 'user', 'message.text': text }] }
+  ).catch(error => console.warn('⚠️  Could not record chat triage:', error.message));
+};
+
+const ChatSession = mongoose.model('ChatSession', chatSessionSchema);
+
+export default ChatSession;
@@ -0,0 +1,30 @@
+import mongoose from 'mongoose';
+
+// Corneal arcus screening results from the eye service (port 5004)
+const eyeAnalysisSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  arcusDetected: {
+    type: Boolean,
+    required: true
+  },
+  arcusSeverity: {
+    type: String,
+    default: 'none'
+  },
+  cholesterolRisk: String,
+  confidence: Number,
+  details: mongoose.Schema.Types.Mixed,
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+}, { timestamps: true });
+
+const EyeAnalysis = mongoose.model('EyeAnalysis', eyeAnalysisSchema);
+
+export default EyeAnalysis;
@@ -0,0 +1,63 @@
+import mongoose from 'mongoose';
+
+// Readings posted by the ESP32 / MAX30102 sensor, and samples imported from
+// wearable exports (see routes/healthData.js). An imported sample may carry a
+// single measure, so none of them is required here; /data checks its own.
+const healthDataSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  bpm: Number,
+  spo2: Number,
+  // Only sent when a cuff module is attached to the device
+  systolic: Number,
+  diastolic: Number,
+  restingHeartRate: Number,
+  hrv: Number,
+  // Apple Watch reports SDNN; our camera scan and most straps report RMSSD
+  hrvMethod: {
+    type: String,
+    enum: ['rmssd', 'sdnn']
+  },
+  source: {
+    type: String,
+    enum: ['esp32', 'apple-health', 'google-fit', 'csv'],
+    default: 'esp32'
+  },
+  // Same reading from any source maps to the same key (see readingKey)
+  dedupeKey: String,
+  timestamp: {
+    type: Date,
+    default: Date.now
+  }
+}, {
+  timestamps: true  // Adds createdAt and updatedAt automatically
+});
+
+healthDataSchema.index(
+  { userId: 1, dedupeKey: 1 },
+  { unique: true, partialFilterExpression: { dedupeKey: { $type: 'string' } } }
+);
+
+export const READING_FIELDS = ['bpm', 'spo2', 'systolic', 'diastolic', 'restingHeartRate', 'hrv'];
+
+// Timestamp to the second plus the measured values, so re-importing a file or
+// importing the same data from another export is recognised
+healthDataSchema.statics.readingKey = function (reading) {
+  const time = new Date(reading.timestamp).toISOString().slice(0, 19);
+  const values = READING_FIELDS
+    .filter(field => typeof reading[field] === 'number')
+    .map(field => `${field}=${Math.round(reading[field] * 10) / 10}`);
+  return [time, ...values].join('|');
+};
+
+healthDataSchema.pre('validate', function () {
+  if (!this.dedupeKey) this.dedupeKey = this.constructor.readingKey(this);
+});
+
+const HealthData = mongoose.model('HealthData', healthDataSchema);
+
+export default HealthData;
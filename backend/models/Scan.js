@@ -21,13 +21,45 @@ const scanSchema = new mongoose.Schema({
     type: String,
     default: 'Scan completed successfully.'
   },
+  // Structured findings from services/vitalInterpretation.ts
+  interpretation: {
+    type: mongoose.Schema.Types.Mixed
+  },
+  source: {
+    type: String,
+    enum: ['browser', 'server'],
+    default: 'server'
+  },
+  signalQuality: {
+    type: String,
+    enum: ['Excellent', 'Good', 'Fair', 'Poor']
+  },
+  confidence: {
+    type: Number
+  },
+  qualityLevel: {
+    type: String,
+    enum: ['good', 'low'],
+    default: 'good'
+  },
+  qualityReasons: {
+    type: [String],
+    default: []
+  },
+  protocol: {
+    type: String,
+    enum: ['quick', 'standard', 'extended', 'paced_breathing'],
+    default: 'standard'
+  },
   timestamp: {
     type: Date,
     default: Date.now
   },
   userId: {
-    type: String,
-    default: 'default-user'
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
   }
 }, { timestamps: true });
 
@@ -0,0 +1,25 @@
+import mongoose from 'mongoose';
+
+const sessionSchema = new mongoose.Schema({
+  // SHA-256 of the bearer token; the raw token only lives on the client
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    expires: 0 // MongoDB TTL removes expired sessions
+  }
+}, { timestamps: true });
+
+const Session = mongoose.model('Session', sessionSchema);
+
+export default Session;
@@ -0,0 +1,31 @@
+import mongoose from 'mongoose';
+
+// A symptom the patient mentioned to the chat assistant (see lib/symptoms.js)
+const symptomLogSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    index: true
+  },
+  symptom: {
+    type: String,
+    required: true
+  },
+  label: String,
+  // The sentence it was found in, so a clinician can read it in context
+  excerpt: String,
+  source: {
+    type: String,
+    enum: ['chat'],
+    default: 'chat'
+  },
+  reportedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { timestamps: true });
+
+const SymptomLog = mongoose.model('SymptomLog', symptomLogSchema);
+
+export default SymptomLog;
@@ -0,0 +1,44 @@
+import mongoose from 'mongoose';
+
+const userSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  passwordHash: {
+    type: String,
+    required: true
+  },
+  passwordSalt: {
+    type: String,
+    required: true
+  },
+  // Shared secret the ESP32 sends with each reading to identify its owner
+  deviceKey: {
+    type: String,
+    unique: true,
+    sparse: true
+  }
+}, { timestamps: true });
+
+userSchema.methods.toPublicJSON = function () {
+  return {
+    id: this._id,
+    name: this.name,
+    email: this.email,
+    deviceKey: this.deviceKey,
+    createdAt: this.createdAt
+  };
+};
+
+const User = mongoose.model('User', userSchema);
+
+export default User;
@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+
+const userProfileSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+    unique: true
+  },
+  dateOfBirth: {
+    type: String // YYYY-MM-DD
+  },
+  sex: {
+    type: String,
+    enum: ['male', 'female']
+  },
+  heightCm: {
+    type: Number,
+    min: 50,
+    max: 250
+  },
+  weightKg: {
+    type: Number,
+    min: 2,
+    max: 400
+  },
+  smoking: {
+    type: String,
+    enum: ['never', 'former', 'current'],
+    default: 'never'
+  },
+  diabetes: {
+    type: String,
+    enum: ['none', 'prediabetes', 'type1', 'type2'],
+    default: 'none'
+  },
+  onBloodPressureMedication: {
+    type: Boolean,
+    default: false
+  },
+  activityLevel: {
+    type: String,
+    enum: ['sedentary', 'light', 'moderate', 'active']
+  },
+  medications: [{
+    _id: false,
+    name: { type: String, required: true },
+    dose: String
+  }],
+  conditions: [String],
+  allergies: [String],
+  familyHistory: [{
+    _id: false,
+    relation: { type: String, enum: ['parent', 'sibling', 'child', 'grandparent', 'other'], required: true },
+    condition: { type: String, required: true },
+    ageAtOnset: Number
+  }]
+}, { timestamps: true });
+
+userProfileSchema.methods.age = function () {
+  if (!this.dateOfBirth) return undefined;
+  const dob = new Date(this.dateOfBirth);
+  const now = new Date();
+  let age = now.getFullYear() - dob.getFullYear();
+  if (now.getMonth() < dob.getMonth() || (now.getMonth() === dob.getMonth() && now.getDate() < dob.getDate())) age--;
+  return age;
+};
+
+userProfileSchema.methods.bmi = function () {
+  if (!this.heightCm || !this.weightKg) return undefined;
+  return Math.round((this.weightKg / (this.heightCm / 100) ** 2) * 10) / 10;
+};
+
+// Plain-text summary injected into AI prompts so advice reflects the patient
+userProfileSchema.methods.toPromptContext = function () {
+  const lines = [];
+  const age = this.age();
+  const bmi = this.bmi();
+
+  if (age !== undefined || this.sex) lines.push(`- ${[age !== undefined ? `${age} years old` : null, this.sex].filter(Boolean).join(', ')}`);
+  if (bmi !== undefined) lines.push(`- Height ${this.heightCm} cm, weight ${this.weightKg} kg (BMI ${bmi})`);
+  lines.push(`- Smoking: ${this.smoking}`);
+  lines.push(`- Diabetes: ${this.diabetes === 'none' ? 'no' : this.diabetes}`);
+  if (this.onBloodPressureMedication) lines.push('- Takes blood pressure medication');
+  if (this.activityLevel) lines.push(`- Activity level: ${this.activityLevel}`);
+  if (this.conditions.length) lines.push(`- Known conditions: ${this.conditions.join(', ')}`);
+  if (this.medications.length) lines.push(`- Medications: ${this.medications.map(m => m.dose ? `${m.name} ${m.dose}` : m.name).join(', ')}`);
+  if (this.allergies.length) lines.push(`- Allergies: ${this.allergies.join(', ')}`);
+  if (this.familyHistory.length) {
+    lines.push(`- Family history: ${this.familyHistory.map(f => `${f.relation} with ${f.condition}${f.ageAtOnset ? ` (onset ${f.ageAtOnset})` : ''}`).join('; ')}`);
+  }
+
+  return `PATIENT PROFILE:\n${lines.join('\n')}\n`;
+};
+
+const UserProfile = mongoose.model('UserProfile', userProfileSchema);
+
+export default UserProfile;
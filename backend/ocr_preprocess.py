@@ -0,0 +1,157 @@
+"""
+Cleans up a phone photo of a paper report before OCR.
+
+Usage: python ocr_preprocess.py <input image> <output png>
+
+Writes the processed image to <output png> and prints a JSON summary of the
+steps applied to stdout. Progress and errors go to stderr.
+"""
+import sys
+import json
+import cv2
+import numpy as np
+
+# Tesseract works best with text around 30px tall; most phone photos of an
+# A4 page land there when the long side is ~2500px
+TARGET_LONG_SIDE = 2500
+# A detected page outline must cover at least this share of the photo
+MIN_PAGE_AREA_RATIO = 0.25
+# Skew below this is left alone to avoid resampling blur
+MIN_DESKEW_DEGREES = 0.3
+MAX_DESKEW_DEGREES = 15
+
+
+def resize_for_ocr(img: np.ndarray) -> np.ndarray:
+    h, w = img.shape[:2]
+    scale = TARGET_LONG_SIDE / max(h, w)
+    if 0.8 < scale < 1.25:
+        return img
+    interpolation = cv2.INTER_CUBIC if scale > 1 else cv2.INTER_AREA
+    return cv2.resize(img, None, fx=scale, fy=scale, interpolation=interpolation)
+
+
+def order_corners(pts: np.ndarray) -> np.ndarray:
+    """
+    Orders four points as top-left, top-right, bottom-right, bottom-left
+    """
+    s = pts.sum(axis=1)
+    d = np.diff(pts, axis=1).ravel()
+    return np.array([pts[np.argmin(s)], pts[np.argmin(d)], pts[np.argmax(s)], pts[np.argmax(d)]], dtype=np.float32)
+
+
+def crop_to_page(img: np.ndarray):
+    """
+    Finds the paper outline and warps it to a flat, front-on rectangle.
+    Returns the original image when no convincing outline is found.
+    """
+    gray = cv2.cvtColor(img, cv2.COLOR_BGR2GRAY)
+    blurred = cv2.GaussianBlur(gray, (5, 5), 0)
+    edges = cv2.Canny(blurred, 50, 150)
+    edges = cv2.dilate(edges, np.ones((3, 3), np.uint8), iterations=2)
+
+    contours, _ = cv2.findContours(edges, cv2.RETR_EXTERNAL, cv2.CHAIN_APPROX_SIMPLE)
+    image_area = img.shape[0] * img.shape[1]
+
+    for contour in sorted(contours, key=cv2.contourArea, reverse=True)[:5]:
+        if cv2.contourArea(contour) < MIN_PAGE_AREA_RATIO * image_area:
+            break
+        approx = cv2.approxPolyDP(contour, 0.02 * cv2.arcLength(contour, True), True)
+        if len(approx) != 4:
+            continue
+
+        corners = order_corners(approx.reshape(4, 2).astype(np.float32))
+        tl, tr, br, bl = corners
+        width = int(max(np.linalg.norm(br - bl), np.linalg.norm(tr - tl)))
+        height = int(max(np.linalg.norm(tr - br), np.linalg.norm(tl - bl)))
+        target = np.array([[0, 0], [width - 1, 0], [width - 1, height - 1], [0, height - 1]], dtype=np.float32)
+
+        matrix = cv2.getPerspectiveTransform(corners, target)
+        return cv2.warpPerspective(img, matrix, (width, height)), True
+
+    return img, False
+
+
+def normalise_contrast(gray: np.ndarray) -> np.ndarray:
+    """
+    Removes uneven lighting and shadows by dividing out a blurred background,
+    then stretches local contrast with CLAHE
+    """
+    kernel = cv2.getStructuringElement(cv2.MORPH_RECT, (31, 31))
+    background = cv2.morphologyEx(gray, cv2.MORPH_CLOSE, kernel)
+    flattened = cv2.divide(gray, background, scale=255)
+    clahe = cv2.createCLAHE(clipLimit=2.0, tileGridSize=(8, 8))
+    return clahe.apply(flattened)
+
+
+def estimate_skew(binary: np.ndarray) -> float:
+    """
+    Angle (degrees) of the dominant text direction, from the minimum-area
+    rectangle around the ink pixels
+    """
+    coords = np.column_stack(np.where(binary < 128))
+    if len(coords) < 500:
+        return 0.0
+    angle = cv2.minAreaRect(coords[:, ::-1].astype(np.float32))[-1]
+    # OpenCV reports (0, 90]; map to (-45, 45]
+    if angle > 45:
+        angle -= 90
+    return float(angle)
+
+
+def rotate(img: np.ndarray, angle: float) -> np.ndarray:
+    h, w = img.shape[:2]
+    matrix = cv2.getRotationMatrix2D((w / 2, h / 2), angle, 1.0)
+    return cv2.warpAffine(img, matrix, (w, h), flags=cv2.INTER_CUBIC, borderMode=cv2.BORDER_REPLICATE)
+
+
+def preprocess(img: np.ndarray):
+    steps = {}
+
+    # STEP 1: Perspective crop to the paper
+    img, cropped = crop_to_page(img)
+    steps['cropped'] = cropped
+
+    # STEP 2: Scale so text is a size Tesseract likes
+    img = resize_for_ocr(img)
+
+    # STEP 3: Grayscale, shadow removal and contrast
+    gray = cv2.cvtColor(img, cv2.COLOR_BGR2GRAY) if img.ndim == 3 else img
+    gray = normalise_contrast(gray)
+
+    # STEP 4: Denoise (JPEG artefacts, sensor noise)
+    gray = cv2.fastNlMeansDenoising(gray, None, h=10, templateWindowSize=7, searchWindowSize=21)
+
+    # STEP 5: Deskew using a rough binarisation to find the text angle
+    _, rough = cv2.threshold(gray, 0, 255, cv2.THRESH_BINARY + cv2.THRESH_OTSU)
+    angle = estimate_skew(rough)
+    steps['skewAngle'] = round(angle, 2)
+    if MIN_DESKEW_DEGREES <= abs(angle) <= MAX_DESKEW_DEGREES:
+        gray = rotate(gray, angle)
+        steps['deskewed'] = True
+    else:
+        steps['deskewed'] = False
+
+    # STEP 6: Adaptive binarisation copes with what is left of the shadows
+    binary = cv2.adaptiveThreshold(gray, 255, cv2.ADAPTIVE_THRESH_GAUSSIAN_C, cv2.THRESH_BINARY, 31, 15)
+    steps['width'] = int(binary.shape[1])
+    steps['height'] = int(binary.shape[0])
+
+    return binary, steps
+
+
+if __name__ == "__main__":
+    if len(sys.argv) != 3:
+        print("Usage: python ocr_preprocess.py <input> <output.png>", file=sys.stderr)
+        sys.exit(2)
+
+    image = cv2.imread(sys.argv[1], cv2.IMREAD_COLOR)
+    if image is None:
+        print(f"Error: could not read image {sys.argv[1]}", file=sys.stderr)
+        sys.exit(1)
+
+    processed, summary = preprocess(image)
+    if not cv2.imwrite(sys.argv[2], processed):
+        print(f"Error: could not write {sys.argv[2]}", file=sys.stderr)
+        sys.exit(1)
+
+    print(json.dumps(summary))
@@ -0,0 +1,186 @@
+import express from 'express';
+import crypto from 'crypto';
+import { promisify } from 'util';
+import User from '../models/User.js';
+import Session from '../models/Session.js';
+import Scan from '../models/Scan.js';
+import HealthData from '../models/HealthData.js';
+import UserProfile from '../models/UserProfile.js';
+import EyeAnalysis from '../models/EyeAnalysis.js';
+import SymptomLog from '../models/SymptomLog.js';
+import ChatSession from '../models/ChatSession.js';
+import MedicalReport from '../MedicalReport.js';
+import { requireAuth, hashToken, SESSION_TTL_DAYS } from '../middleware/auth.js';
+
+const router = express.Router();
+const scrypt = promisify(crypto.scrypt);
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const hashPassword = async (password, salt = crypto.randomBytes(16).toString('hex')) => {
+  const derived = await scrypt(password, salt, 64);
+  return { hash: derived.toString('hex'), salt };
+};
+
+const verifyPassword = async (password, user) => {
+  const { hash } = await hashPassword(password, user.passwordSalt);
+  return crypto.timingSafeEqual(Buffer.from(hash, 'hex'), Buffer.from(user.passwordHash, 'hex'));
+};
+
+const newDeviceKey = () => `dev_${crypto.randomBytes(18).toString('hex')}`;
+
+const createSession = async (user) => {
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_DAYS * 24 * 60 * 60 * 1000);
+  await Session.create({ tokenHash: hashToken(token), userId: user._id, expiresAt });
+  return { token, expiresAt };
+};
+
+// POST register
+router.post('/auth/register', async (req, res) => {
+  try {
+    const { name, email, password } = req.body;
+
+    if (!name || !email || !password) {
+      return res.status(400).json({ success: false, error: 'Name, email and password are required' });
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+    if (await User.exists({ email: email.toLowerCase().trim() })) {
+      return res.status(409).json({ success: false, error: 'An account with this email already exists' });
+    }
+
+    const { hash, salt } = await hashPassword(password);
+    const user = await User.create({ name, email, passwordHash: hash, passwordSalt: salt, deviceKey: newDeviceKey() });
+    const session = await createSession(user);
+
+    console.log('👤 New account registered:', user._id);
+    res.status(201).json({ success: true, user: user.toPublicJSON(), ...session });
+  } catch (error) {
+    console.error('❌ Register Error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to create account' });
+  }
+});
+
+// POST login
+router.post('/auth/login', async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      return res.status(400).json({ success: false, error: 'Email and password are required' });
+    }
+
+    const user = await User.findOne({ email: email.toLowerCase().trim() });
+    if (!user || !(await verifyPassword(password, user))) {
+      return res.status(401).json({ success: false, error: 'Invalid email or password' });
+    }
+
+    const session = await createSession(user);
+    res.json({ success: true, user: user.toPublicJSON(), ...session });
+  } catch (error) {
+    console.error('❌ Login Error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to sign in' });
+  }
+});
+
+// POST logout (current session only)
+router.post('/auth/logout', requireAuth, async (req, res) => {
+  try {
+    await Session.deleteOne({ _id: req.authSession._id });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Logout Error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to sign out' });
+  }
+});
+
+// GET current account
+router.get('/auth/me', requireAuth, (req, res) => {
+  res.json({ success: true, user: req.user.toPublicJSON() });
+});
+
+// PATCH account details
+router.patch('/auth/me', requireAuth, async (req, res) => {
+  try {
+    const { name, email } = req.body;
+
+    if (email && email.toLowerCase().trim() !== req.user.email) {
+      if (await User.exists({ email: email.toLowerCase().trim() })) {
+        return res.status(409).json({ success: false, error: 'An account with this email already exists' });
+      }
+      req.user.email = email;
+    }
+    if (name) req.user.name = name;
+
+    await req.user.save();
+    res.json({ success: true, user: req.user.toPublicJSON() });
+  } catch (error) {
+    console.error('❌ Account Update Error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to update account' });
+  }
+});
+
+// POST change password; signs out every other session
+router.post('/auth/password', requireAuth, async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !(await verifyPassword(currentPassword, req.user))) {
+      return res.status(401).json({ success: false, error: 'Current password is incorrect' });
+    }
+    if (!newPassword || newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ success: false, error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const { hash, salt } = await hashPassword(newPassword);
+    req.user.passwordHash = hash;
+    req.user.passwordSalt = salt;
+    await req.user.save();
+    await Session.deleteMany({ userId: req.user._id, _id: { $ne: req.authSession._id } });
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Password Change Error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to change password' });
+  }
+});
+
+// POST rotate the ESP32 device key
+router.post('/auth/device-key', requireAuth, async (req, res) => {
+  try {
+    req.user.deviceKey = newDeviceKey();
+    await req.user.save();
+    res.json({ success: true, deviceKey: req.user.deviceKey });
+  } catch (error) {
+    console.error('❌ Device Key Error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to rotate device key' });
+  }
+});
+
+// DELETE account and everything it owns
+router.delete('/auth/me', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user._id;
+    await Promise.all([
+      Scan.deleteMany({ userId }),
+      HealthData.deleteMany({ userId }),
+      MedicalReport.deleteMany({ userId }),
+      UserProfile.deleteMany({ userId }),
+      EyeAnalysis.deleteMany({ userId }),
+      SymptomLog.deleteMany({ userId }),
+      ChatSession.deleteMany({ userId }),
+      Session.deleteMany({ userId })
+    ]);
+    await User.deleteOne({ _id: userId });
+
+    console.log('🗑️  Deleted account:', userId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('❌ Account Delete Error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to delete account' });
+  }
+});
+
+export default router;
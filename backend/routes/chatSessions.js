@@ -0,0 +1,251 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import ChatSession from '../models/ChatSession.js';
+import { requireAuth } from '../middleware/auth.js';
+
+const router = express.Router();
+
+// Messages are appended as each reply finishes, a user turn and a model turn
+// at a time; the cap only guards against a runaway client
+const MAX_APPEND = 50;
+const MAX_SESSION_MESSAGES = 2000;
+// maxlength in models/ChatSession.js
+const MAX_TITLE = 120;
+// The chat cites at most a handful of sources; excerpts are chunk-sized
+const MAX_SOURCES = 10;
+const MAX_EXCERPT = 1000;
+
+const SOURCE_IDS = { report: 'reportId', scan: 'scanId', reading: 'readingId' };
+
+// Well-formed sources from a model message; anything else is dropped
+const parseSources = (sources) => (Array.isArray(sources) ? sources : [])
+  .filter(s => typeof s?.tag === 'string' && SOURCE_IDS[s.kind] && mongoose.isValidObjectId(s[SOURCE_IDS[s.kind]]))
+  .slice(0, MAX_SOURCES)
+  .map(s => ({
+    kind: s.kind,
+    tag: s.tag.slice(0, 10),
+    [SOURCE_IDS[s.kind]]: s[SOURCE_IDS[s.kind]],
+    date: String(s.date || ''),
+    ...(s.kind === 'report'
+      ? {
+          reportType: String(s.reportType || ''),
+          fileNames: (Array.isArray(s.fileNames) ? s.fileNames : []).map(String),
+          pages: (Array.isArray(s.pages) ? s.pages : []).filter(Number.isFinite),
+          excerpts: (Array.isArray(s.excerpts) ? s.excerpts : []).map(e => String(e).slice(0, MAX_EXCERPT))
+        }
+      : {
+          summary: String(s.summary || '').slice(0, MAX_EXCERPT),
+          ...(s.kind === 'reading' && { device: String(s.device || '') })
+        })
+  }));
+
+const TRIAGE_LEVELS = ['emergency', 'urgent', 'none'];
+
+// The triage the browser ran on a user message (shared/triage.js); the
+// server's own result replaces it once the reply is requested
+const parseTriage = (triage) => {
+  if (!TRIAGE_LEVELS.includes(triage?.level)) return null;
+  const text = (value) => String(value ?? '').slice(0, MAX_EXCERPT);
+  return {
+    level: triage.level,
+    findings: (Array.isArray(triage.findings) ? triage.findings : []).slice(0, MAX_SOURCES).map(f => ({
+      id: text(f?.id), label: text(f?.label), level: text(f?.level), source: text(f?.source), detail: text(f?.detail)
+    })),
+    guidance: (Array.isArray(triage.guidance) ? triage.guidance : []).slice(0, MAX_SOURCES).map(text)
+  };
+};
+
+// Valid message objects, or null if any is malformed
+const parseMessages = (messages) => {
+  if (!Array.isArray(messages)) return null;
+  const parsed = messages.map(m => {
+    if ((m?.role !== 'user' && m?.role !== 'model') || typeof m.text !== 'string' || !m.text) return null;
+    const timestamp = m.timestamp ? new Date(m.timestamp) : new Date();
+    const sources = m.role === 'model' ? parseSources(m.sources) : [];
+    const triage = m.role === 'user' ? parseTriage(m.triage) : null;
+    return {
+      role: m.role,
+      text: m.text,
+      timestamp: isNaN(timestamp) ? new Date() : timestamp,
+      ...(m.stopped && { stopped: true }),
+      ...(sources.length && { sources }),
+      ...(triage && triage.level !== 'none' && { triage })
+    };
+  });
+  return parsed.includes(null) ? null : parsed;
+};
+
+const findSession = (req) => (mongoose.isValidObjectId(req.params.id)
+  ? ChatSession.findOne({ _id: req.params.id, userId: req.user._id })
+  : null);
+
+const summaryOf = (session) => ({
+  id: session._id,
+  title: session.title,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  messageCount: session.messageCount ?? session.messages.length
+});
+
+const sessionOf = (session) => ({
+  ...summaryOf(session),
+  messages: session.messages,
+  reports: (session.reportIds || []).map(r => ({ id: r._id, reportType: r.reportType, fileNames: r.fileNames, uploadedAt: r.uploadedAt }))
+});
+
+// GET the signed-in user's conversations, most recent first
+router.get('/chat/sessions', requireAuth, async (req, res) => {
+  try {
+    const sessions = await ChatSession.aggregate([
+      { $match: { userId: req.user._id } },
+      { $sort: { updatedAt: -1 } },
+      { $project: { title: 1, createdAt: 1, updatedAt: 1, messageCount: { $size: '$messages' } } }
+    ]);
+    res.json({ success: true, sessions: sessions.map(summaryOf) });
+  } catch (error) {
+    console.error('Error fetching chat sessions:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch conversations' });
+  }
+});
+
+// GET one conversation with its messages and the reports it drew on
+router.get('/chat/sessions/:id', requireAuth, async (req, res) => {
+  try {
+    const session = await findSession(req)?.populate('reportIds', 'reportType fileNames uploadedAt');
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+    res.json({ success: true, session: sessionOf(session) });
+  } catch (error) {
+    console.error('Error fetching chat session:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch conversation' });
+  }
+});
+
+// POST a new conversation, optionally with its first messages
+router.post('/chat/sessions', requireAuth, async (req, res) => {
+  try {
+    const messages = parseMessages(req.body.messages ?? []);
+    if (!messages || messages.length > MAX_APPEND) {
+      return res.status(400).json({ success: false, error: 'Invalid messages' });
+    }
+    const firstQuestion = messages.find(m => m.role === 'user')?.text;
+    const title = typeof req.body.title === 'string' && req.body.title.trim()
+      ? req.body.title.trim().slice(0, MAX_TITLE)
+      : ChatSession.titleFrom(firstQuestion);
+
+    const session = await ChatSession.create({ userId: req.user._id, title, messages });
+    res.status(201).json({ success: true, session: sessionOf(session) });
+  } catch (error) {
+    console.error('Error creating chat session:', error);
+    res.status(500).json({ success: false, error: 'Failed to save conversation' });
+  }
+});
+
+// POST messages to the end of a conversation
+router.post('/chat/sessions/:id/messages', requireAuth, async (req, res) => {
+  try {
+    const messages = parseMessages(req.body.messages);
+    if (!messages?.length || messages.length > MAX_APPEND) {
+      return res.status(400).json({ success: false, error: `Send between 1 and ${MAX_APPEND} messages` });
+    }
+    if (!mongoose.isValidObjectId(req.params.id)) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+
+    const session = await ChatSession.findOneAndUpdate(
+      { _id: req.params.id, userId: req.user._id, [`messages.${MAX_SESSION_MESSAGES - messages.length}`]: { $exists: false } },
+      { $push: { messages: { $each: messages } } },
+      { new: true, projection: { title: 1, createdAt: 1, updatedAt: 1, messageCount: { $size: '$messages' } } }
+    );
+    if (!session) {
+      const exists = await ChatSession.exists({ _id: req.params.id, userId: req.user._id });
+      return exists
+        ? res.status(409).json({ success: false, error: 'This conversation is full. Start a new one.' })
+        : res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+    res.json({ success: true, session: summaryOf(session) });
+  } catch (error) {
+    console.error('Error saving chat messages:', error);
+    res.status(500).json({ success: false, error: 'Failed to save messages' });
+  }
+});
+
+// PATCH a conversation's title
+router.patch('/chat/sessions/:id', requireAuth, async (req, res) => {
+  try {
+    const title = typeof req.body.title === 'string' ? req.body.title.trim().slice(0, MAX_TITLE) : '';
+    if (!title) {
+      return res.status(400).json({ success: false, error: 'Title is required' });
+    }
+    const session = await findSession(req);
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+    session.title = title;
+    await session.save();
+    res.json({ success: true, session: summaryOf(session) });
+  } catch (error) {
+    console.error('Error renaming chat session:', error);
+    res.status(500).json({ success: false, error: 'Failed to rename conversation' });
+  }
+});
+
+// DELETE a conversation
+router.delete('/chat/sessions/:id', requireAuth, async (req, res) => {
+  try {
+    const session = mongoose.isValidObjectId(req.params.id)
+      ? await ChatSession.findOneAndDelete({ _id: req.params.id, userId: req.user._id })
+      : null;
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting chat session:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete conversation' });
+  }
+});
+
+const toMarkdown = (session) => {
+  const lines = [`# ${session.title}`, '', `Started ${session.createdAt.toISOString().slice(0, 16).replace('T', ' ')} UTC`];
+  if (session.reports.length) {
+    lines.push('', 'Reports referred to:');
+    session.reports.forEach(r => lines.push(`- ${r.reportType || 'Report'} (${r.uploadedAt?.toISOString().slice(0, 10)})${r.fileNames?.length ? `: ${r.fileNames.join(', ')}` : ''}`));
+  }
+  session.messages.forEach(m => {
+    const time = m.timestamp.toISOString().slice(0, 16).replace('T', ' ');
+    lines.push('', `## ${m.role === 'user' ? 'You' : 'Assistant'} (${time})`, '', m.text);
+    if (m.triage) lines.push('', `_Triage: ${m.triage.level}. ${m.triage.findings.map(f => f.label).join('; ')}_`);
+    if (m.stopped) lines.push('', '_Stopped before the reply finished._');
+    if (m.sources?.length) {
+      lines.push('', 'Sources:');
+      m.sources.forEach(s => lines.push(s.kind === 'report'
+        ? `- [${s.tag}] ${s.reportType} (${s.date})${s.pages.length ? `, page ${s.pages.join(', ')}` : ''}`
+        : `- [${s.tag}] ${s.kind === 'scan' ? 'Vital scan' : `${s.device} reading`} (${s.date} UTC): ${s.summary}`));
+    }
+  });
+  return `${lines.join('\n')}\n`;
+};
+
+// GET a conversation as a Markdown (default) or JSON download
+router.get('/chat/sessions/:id/export', requireAuth, async (req, res) => {
+  try {
+    const session = await findSession(req)?.populate('reportIds', 'reportType fileNames uploadedAt');
+    if (!session) {
+      return res.status(404).json({ success: false, error: 'Conversation not found' });
+    }
+    const data = sessionOf(session);
+    const slug = session.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'chat';
+    const json = req.query.format === 'json';
+
+    res.set('Content-Type', json ? 'application/json' : 'text/markdown; charset=utf-8');
+    res.set('Content-Disposition', `attachment; filename="cardiax-chat-${slug}.${json ? 'json' : 'md'}"`);
+    res.send(json ? JSON.stringify(data, null, 2) : toMarkdown(data));
+  } catch (error) {
+    console.error('Error exporting chat session:', error);
+    res.status(500).json({ success: false, error: 'Failed to export conversation' });
+  }
+});
+
+export default router;
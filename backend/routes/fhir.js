@@ -0,0 +1,51 @@
+import express from 'express';
+import Scan from '../models/Scan.js';
+import HealthData from '../models/HealthData.js';
+import UserProfile from '../models/UserProfile.js';
+import MedicalReport from '../MedicalReport.js';
+import { requireAuth } from '../middleware/auth.js';
+import { buildFhirBundle, FHIR_CONTENT_TYPE } from '../lib/fhir.js';
+
+const router = express.Router();
+
+// Optional ?from=&to= (ISO dates) limit the export to a period
+const dateRange = (query) => {
+  const range = {};
+  if (query.from) range.$gte = new Date(query.from);
+  if (query.to) range.$lte = new Date(query.to);
+  return Object.values(range).some(d => isNaN(d)) ? null : range;
+};
+
+// GET the signed-in user's data as a FHIR R4 Bundle download
+router.get('/fhir/export', requireAuth, async (req, res) => {
+  try {
+    const range = dateRange(req.query);
+    if (!range) {
+      return res.status(400).json({ error: 'Invalid date range' });
+    }
+    const within = (field) => (Object.keys(range).length ? { [field]: range } : {});
+    const userId = req.user._id;
+
+    const [profile, scans, deviceReadings, reports] = await Promise.all([
+      UserProfile.findOne({ userId }).lean(),
+      Scan.find({ userId, ...within('timestamp') }).sort({ timestamp: 1 }).lean(),
+      HealthData.find({ userId, ...within('timestamp') }).sort({ timestamp: 1 }).lean(),
+      MedicalReport.find({ userId, ...within('uploadedAt') })
+        .select('reportType uploadedAt createdAt aiAnalysis labResults')
+        .sort({ uploadedAt: 1 })
+        .lean()
+    ]);
+
+    const bundle = buildFhirBundle({ user: req.user, profile, scans, deviceReadings, reports });
+    console.log(`🏥 FHIR export: ${bundle.entry.length} resources for ${req.user.email}`);
+
+    res.set('Content-Type', FHIR_CONTENT_TYPE);
+    res.set('Content-Disposition', `attachment; filename="cardiax-fhir-${new Date().toISOString().slice(0, 10)}.json"`);
+    res.send(JSON.stringify(bundle, null, 2));
+  } catch (error) {
+    console.error('Error exporting FHIR bundle:', error);
+    res.status(500).json({ error: 'Failed to export data', details: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,87 @@
+import express from 'express';
+import mongoose from 'mongoose';
+import HealthData from '../models/HealthData.js';
+import { requireAuth } from '../middleware/auth.js';
+import { PLAUSIBLE_VITALS, isPlausible } from '../../shared/vitalRanges.js';
+
+const router = express.Router();
+
+// Wearable exports are parsed in the browser (services/wearableImport.ts) and
+// arrive here as normalised samples, in batches
+const IMPORT_SOURCES = ['apple-health', 'google-fit', 'csv'];
+const MAX_BATCH = 5000;
+
+// A clean reading, or null if nothing in the sample is usable
+const normalizeSample = (sample, source, userId) => {
+  const timestamp = new Date(sample?.timestamp);
+  if (isNaN(timestamp) || timestamp > new Date()) return null;
+
+  const reading = { userId, source, timestamp };
+  for (const field of Object.keys(PLAUSIBLE_VITALS)) {
+    const value = Number(sample[field]);
+    if (sample[field] !== undefined && isPlausible(field, value)) reading[field] = value;
+  }
+  // Blood pressure only counts as a pair
+  if ((reading.systolic === undefined) !== (reading.diastolic === undefined) || reading.systolic <= reading.diastolic) {
+    delete reading.systolic;
+    delete reading.diastolic;
+  }
+  if (reading.hrv !== undefined) reading.hrvMethod = sample.hrvMethod === 'sdnn' ? 'sdnn' : 'rmssd';
+
+  if (!Object.keys(PLAUSIBLE_VITALS).some(field => reading[field] !== undefined)) return null;
+  return { ...reading, dedupeKey: HealthData.readingKey(reading) };
+};
+
+// POST a batch of imported samples; existing readings are left untouched
+router.post('/health-data/import', requireAuth, async (req, res) => {
+  try {
+    const { source, samples } = req.body;
+    if (!IMPORT_SOURCES.includes(source)) {
+      return res.status(400).json({ success: false, error: `source must be one of ${IMPORT_SOURCES.join(', ')}` });
+    }
+    if (!Array.isArray(samples) || !samples.length || samples.length > MAX_BATCH) {
+      return res.status(400).json({ success: false, error: `Send between 1 and ${MAX_BATCH} samples per request` });
+    }
+
+    const readings = samples.map(s => normalizeSample(s, source, req.user._id)).filter(Boolean);
+    const result = readings.length
+      ? await HealthData.bulkWrite(readings.map(reading => ({
+          updateOne: {
+            filter: { userId: req.user._id, dedupeKey: reading.dedupeKey },
+            update: { $setOnInsert: reading },
+            upsert: true
+          }
+        })), { ordered: false })
+      : { upsertedCount: 0 };
+
+    const imported = result.upsertedCount;
+    console.log(`⌚ Imported ${imported} ${source} readings (${readings.length - imported} duplicates, ${samples.length - readings.length} rejected)`);
+    res.json({
+      success: true,
+      imported,
+      duplicates: readings.length - imported,
+      rejected: samples.length - readings.length
+    });
+  } catch (error) {
+    console.error('Error importing health data:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// GET one stored reading, e.g. one the chat cited
+router.get('/health-data/:id', requireAuth, async (req, res) => {
+  try {
+    const reading = mongoose.isValidObjectId(req.params.id)
+      ? await HealthData.findOne({ _id: req.params.id, userId: req.user._id }).select('-dedupeKey')
+      : null;
+    if (!reading) {
+      return res.status(404).json({ success: false, error: 'Reading not found' });
+    }
+    res.json({ success: true, reading });
+  } catch (error) {
+    console.error('Error fetching health reading:', error);
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+export default router;
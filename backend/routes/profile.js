@@ -0,0 +1,49 @@
+import express from 'express';
+import UserProfile from '../models/UserProfile.js';
+import { requireAuth } from '../middleware/auth.js';
+
+const router = express.Router();
+
+const EDITABLE_FIELDS = [
+  'dateOfBirth', 'sex', 'heightCm', 'weightKg', 'smoking', 'diabetes',
+  'onBloodPressureMedication', 'activityLevel', 'medications', 'conditions',
+  'allergies', 'familyHistory'
+];
+
+// GET the signed-in user's profile (null until first saved)
+router.get('/profile', requireAuth, async (req, res) => {
+  try {
+    const profile = await UserProfile.findOne({ userId: req.user._id });
+    res.json({ success: true, profile });
+  } catch (error) {
+    console.error('❌ Profile Fetch Error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to fetch profile' });
+  }
+});
+
+// PUT replaces the profile; omitted fields are cleared
+router.put('/profile', requireAuth, async (req, res) => {
+  try {
+    const update = {};
+    const unset = {};
+    for (const field of EDITABLE_FIELDS) {
+      if (req.body[field] === undefined || req.body[field] === null || req.body[field] === '') unset[field] = 1;
+      else update[field] = req.body[field];
+    }
+
+    const profile = await UserProfile.findOneAndUpdate(
+      { userId: req.user._id },
+      { $set: update, $unset: unset },
+      { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+    );
+
+    console.log('🧬 Profile saved for user:', req.user._id);
+    res.json({ success: true, profile });
+  } catch (error) {
+    console.error('❌ Profile Save Error:', error.message);
+    const status = error.name === 'ValidationError' || error.name === 'CastError' ? 400 : 500;
+    res.status(status).json({ success: false, error: status === 400 ? error.message : 'Failed to save profile' });
+  }
+});
+
+export default router;
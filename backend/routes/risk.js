@@ -0,0 +1,127 @@
+import express from 'express';
+import HealthData from '../models/HealthData.js';
+import EyeAnalysis from '../models/EyeAnalysis.js';
+import UserProfile from '../models/UserProfile.js';
+import MedicalReport from '../MedicalReport.js';
+import { requireAuth } from '../middleware/auth.js';
+import { computeCardioRisk } from '../../shared/cardioRisk.js';
+import { extractLipidPanel } from '../../shared/labParser.js';
+
+const router = express.Router();
+
+// Blood pressure is averaged over recent readings to damp single-reading noise
+const BP_WINDOW_DAYS = 90;
+const BP_MAX_READINGS = 5;
+
+const CARDIOVASCULAR_CONDITION = /heart|cardiac|coronary|myocard|\bmi\b|angina|stroke|bypass|stent|cvd/i;
+const FIRST_DEGREE = ['parent', 'sibling', 'child'];
+// Relative's sex isn't recorded, so use the stricter male threshold
+const PREMATURE_ONSET_AGE = 55;
+
+const average = (values) => Math.round(values.reduce((a, b) => a + b, 0) / values.length);
+
+const latestSystolic = async (userId) => {
+  const since = new Date(Date.now() - BP_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  // Only a cuff counts, on the ESP32 or imported from a wearable export. The
+  // camera scan's blood pressure is derived from heart rate, not measured, so
+  // without a cuff reading the input is left missing.
+  const device = await HealthData.find({ userId, systolic: { $gt: 0 }, timestamp: { $gte: since } })
+    .sort({ timestamp: -1 })
+    .limit(BP_MAX_READINGS);
+  if (device.length) {
+    const label = device.every(d => (d.source ?? 'esp32') === 'esp32') ? 'ESP32 cuff' : 'Cuff';
+    return { value: average(device.map(d => d.systolic)), source: `${label}, ${device.length} reading${device.length > 1 ? 's' : ''}` };
+  }
+  return null;
+};
+
+const latestLipids = async (userId) => {
+  const reports = await MedicalReport.find({ userId })
+    .select('extractedText labResults uploadedAt')
+    .sort({ uploadedAt: -1 })
+    .limit(20);
+
+  for (const report of reports) {
+    // Reports saved before lab parsing existed only have the raw text
+    const panel = extractLipidPanel(report.labResults?.length ? report.labResults : report.extractedText);
+    if (panel.totalCholesterol && panel.hdl) {
+      return { ...panel, source: `Report ${new Date(report.uploadedAt).toLocaleDateString()}` };
+    }
+  }
+  return null;
+};
+
+// GET 10-year cardiovascular risk from everything we know about the user
+router.get('/risk-score', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user._id;
+    const [profile, systolic, lipids, eye] = await Promise.all([
+      UserProfile.findOne({ userId }),
+      latestSystolic(userId),
+      latestLipids(userId),
+      EyeAnalysis.findOne({ userId }).sort({ timestamp: -1 })
+    ]);
+
+    const inputs = { sources: {} };
+    if (profile) {
+      Object.assign(inputs, {
+        age: profile.age(),
+        sex: profile.sex,
+        smoker: profile.smoking === 'current',
+        diabetes: profile.diabetes === 'type1' || profile.diabetes === 'type2',
+        onBpTreatment: profile.onBloodPressureMedication,
+        bmi: profile.bmi(),
+        prematureFamilyHistory: profile.familyHistory.some(f =>
+          FIRST_DEGREE.includes(f.relation) && CARDIOVASCULAR_CONDITION.test(f.condition) && f.ageAtOnset && f.ageAtOnset < PREMATURE_ONSET_AGE)
+      });
+      for (const key of ['age', 'sex', 'smoker', 'diabetes', 'onBpTreatment', 'bmi', 'prematureFamilyHistory']) {
+        inputs.sources[key] = 'Health profile';
+      }
+    }
+    if (systolic) {
+      inputs.systolicBp = systolic.value;
+      inputs.sources.systolicBp = systolic.source;
+    }
+    if (lipids) {
+      inputs.totalCholesterol = lipids.totalCholesterol;
+      inputs.hdl = lipids.hdl;
+      inputs.sources.totalCholesterol = inputs.sources.hdl = lipids.source;
+    }
+    if (eye) {
+      inputs.arcusDetected = eye.arcusDetected;
+      inputs.sources.arcusDetected = `Eye analysis ${new Date(eye.timestamp).toLocaleDateString()}`;
+    }
+
+    const risk = computeCardioRisk(inputs);
+    res.json({ success: true, risk, computedAt: new Date().toISOString() });
+  } catch (error) {
+    console.error('❌ Risk Score Error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to compute risk score' });
+  }
+});
+
+// POST an eye service result so it can feed the risk score
+router.post('/eye-analyses', requireAuth, async (req, res) => {
+  try {
+    const { arcus_detected, arcus_severity, cholesterol_risk, confidence, details } = req.body;
+    if (typeof arcus_detected !== 'boolean') {
+      return res.status(400).json({ success: false, error: 'arcus_detected is required' });
+    }
+
+    const analysis = await EyeAnalysis.create({
+      userId: req.user._id,
+      arcusDetected: arcus_detected,
+      arcusSeverity: arcus_severity,
+      cholesterolRisk: cholesterol_risk,
+      confidence,
+      details
+    });
+    res.status(201).json({ success: true, analysis });
+  } catch (error) {
+    console.error('❌ Eye Analysis Save Error:', error.message);
+    res.status(500).json({ success: false, error: 'Failed to save eye analysis' });
+  }
+});
+
+export default router;
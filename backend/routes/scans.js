@@ -1,12 +1,13 @@
 import express from 'express';
 import Scan from '../models/Scan.js';
+import { requireAuth } from '../middleware/auth.js';
 
 const router = express.Router();
 
 // GET all scans
-router.get('/scans', async (req, res) => {
+router.get('/scans', requireAuth, async (req, res) => {
   try {
-    const scans = await Scan.find().sort({ timestamp: -1 }).limit(50);
+    const scans = await Scan.find({ userId: req.user._id }).sort({ timestamp: -1 }).limit(50);
     res.json(scans);
   } catch (error) {
     console.error('Error fetching scans:', error);
@@ -15,9 +16,9 @@ router.get('/scans', async (req, res) => {
 });
 
 // GET single scan by ID
-router.get('/scans/:id', async (req, res) => {
+router.get('/scans/:id', requireAuth, async (req, res) => {
   try {
-    const scan = await Scan.findById(req.params.id);
+    const scan = await Scan.findOne({ _id: req.params.id, userId: req.user._id });
     if (!scan) {
       return res.status(404).json({ error: 'Scan not found' });
     }
@@ -29,7 +30,7 @@ router.get('/scans/:id', async (req, res) => {
 });
 
 // POST new scan
-router.post('/scans', async (req, res) => {
+router.post('/scans', requireAuth, async (req, res) => {
   try {
     const scanData = req.body;
     
@@ -38,7 +39,7 @@ router.post('/scans', async (req, res) => {
       return res.status(400).json({ error: 'Missing required fields: heartRate and bloodPressure' });
     }
 
-    const newScan = new Scan(scanData);
+    const newScan = new Scan({ ...scanData, userId: req.user._id });
     const savedScan = await newScan.save();
     
     console.log('Scan saved to MongoDB:', savedScan._id);
@@ -50,9 +51,9 @@ router.post('/scans', async (req, res) => {
 });
 
 // DELETE scan
-router.delete('/scans/:id', async (req, res) => {
+router.delete('/scans/:id', requireAuth, async (req, res) => {
   try {
-    const deletedScan = await Scan.findByIdAndDelete(req.params.id);
+    const deletedScan = await Scan.findOneAndDelete({ _id: req.params.id, userId: req.user._id });
     if (!deletedScan) {
       return res.status(404).json({ error: 'Scan not found' });
     }
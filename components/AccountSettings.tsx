@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { User, KeyRound, Cpu, LogOut, Trash2, RefreshCw, Copy, CheckCircle2, AlertCircle, Download } from 'lucide-react';
+import { AuthUser } from '../types';
+import { authService } from '../services/authService';
+import { downloadFhirBundle } from '../services/fhirExport';
+import WearableImport from './WearableImport';
+
+interface AccountSettingsProps {
+  user: AuthUser;
+  onUserChange: (user: AuthUser) => void;
+  onSignedOut: () => void;
+}
+
+type Notice = { kind: 'success' | 'error'; text: string } | null;
+
+const AccountSettings: React.FC<AccountSettingsProps> = ({ user, onUserChange, onSignedOut }) => {
+  const [name, setName] = useState(user.name);
+  const [email, setEmail] = useState(user.email);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [notice, setNotice] = useState<Notice>(null);
+  const [busy, setBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const run = async (action: () => Promise<string | void>) => {
+    setBusy(true);
+    setNotice(null);
+    try {
+      const message = await action();
+      if (message) setNotice({ kind: 'success', text: message });
+    } catch (err: any) {
+      setNotice({ kind: 'error', text: err.message });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      onUserChange(await authService.updateAccount({ name, email }));
+      return 'Account details saved.';
+    });
+  };
+
+  const changePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(async () => {
+      await authService.changePassword(currentPassword, newPassword);
+      setCurrentPassword('');
+      setNewPassword('');
+      return 'Password changed. Other devices have been signed out.';
+    });
+  };
+
+  const rotateDeviceKey = () => {
+    if (!confirm('Your ESP32 will stop uploading until it is flashed with the new key. Continue?')) return;
+    run(async () => {
+      const deviceKey = await authService.regenerateDeviceKey();
+      onUserChange({ ...user, deviceKey });
+      return 'New device key generated.';
+    });
+  };
+
+  const copyDeviceKey = async () => {
+    if (!user.deviceKey) return;
+    await navigator.clipboard.writeText(user.deviceKey);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const exportData = () => run(async () => {
+    await downloadFhirBundle();
+    return 'Export downloaded.';
+  });
+
+  const signOut = () => run(async () => {
+    await authService.logout();
+    onSignedOut();
+  });
+
+  const deleteAccount = () => {
+    if (!confirm('This permanently deletes your account, scans, reports and sensor readings. Continue?')) return;
+    run(async () => {
+      await authService.deleteAccount();
+      onSignedOut();
+    });
+  };
+
+  const inputClass = 'w-full px-4 py-3 rounded-xl border border-slate-200 bg-slate-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all';
+  const cardClass = 'bg-white rounded-3xl border border-slate-100 shadow-sm p-8';
+
+  return (
+    <div className="p-8 max-w-3xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900">Account</h1>
+        <p className="text-slate-500 mt-1">Member since {user.createdAt ? new Date(user.createdAt).toLocaleDateString() : '—'}</p>
+      </div>
+
+      {notice && (
+        <div className={`flex items-center gap-2 p-4 rounded-xl text-sm border ${
+          notice.kind === 'success' ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-red-50 border-red-100 text-red-700'
+        }`}>
+          {notice.kind === 'success' ? <CheckCircle2 size={16} /> : <AlertCircle size={16} />}
+          {notice.text}
+        </div>
+      )}
+
+      <form onSubmit={saveDetails} className={cardClass}>
+        <div className="flex items-center gap-2 mb-6 text-slate-900">
+          <User size={20} className="text-blue-600" />
+          <h2 className="font-bold text-lg">Details</h2>
+        </div>
+        <div className="grid md:grid-cols-2 gap-4">
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} placeholder="Full name" required />
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={inputClass} placeholder="Email" required />
+        </div>
+        <button type="submit" disabled={busy} className="mt-4 px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-semibold rounded-xl transition-all">
+          Save Details
+        </button>
+      </form>
+
+      <form onSubmit={changePassword} className={cardClass}>
+        <div className="flex items-center gap-2 mb-6 text-slate-900">
+          <KeyRound size={20} className="text-blue-600" />
+          <h2 className="font-bold text-lg">Password</h2>
+        </div>
+        <div className="grid md:grid-cols-2 gap-4">
+          <input type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} className={inputClass} placeholder="Current password" autoComplete="current-password" required />
+          <input type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} className={inputClass} placeholder="New password" autoComplete="new-password" minLength={8} required />
+        </div>
+        <button type="submit" disabled={busy} className="mt-4 px-6 py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-semibold rounded-xl transition-all">
+          Change Password
+        </button>
+      </form>
+
+      <div className={cardClass}>
+        <div className="flex items-center gap-2 mb-2 text-slate-900">
+          <Cpu size={20} className="text-blue-600" />
+          <h2 className="font-bold text-lg">ESP32 Sensor</h2>
+        </div>
+        <p className="text-sm text-slate-500 mb-4">
+          Send this key in the <code className="text-xs bg-slate-100 px-1 rounded">X-Device-Key</code> header when posting to <code className="text-xs bg-slate-100 px-1 rounded">/data</code> so readings are stored on your account.
+        </p>
+        <div className="flex gap-2">
+          <code className="flex-1 px-4 py-3 rounded-xl bg-slate-900 text-emerald-400 text-xs font-mono truncate">{user.deviceKey || 'No key yet'}</code>
+          <button onClick={copyDeviceKey} disabled={!user.deviceKey} className="px-4 rounded-xl border border-slate-200 hover:bg-slate-50 text-slate-600 transition-all" title="Copy">
+            {copied ? <CheckCircle2 size={18} className="text-emerald-600" /> : <Copy size={18} />}
+          </button>
+          <button onClick={rotateDeviceKey} disabled={busy} className="px-4 rounded-xl border border-slate-200 hover:bg-slate-50 text-slate-600 transition-all" title="Generate new key">
+            <RefreshCw size={18} />
+          </button>
+        </div>
+      </div>
+
+      <WearableImport />
+
+      <div className={cardClass}>
+        <div className="flex items-center gap-2 mb-2 text-slate-900">
+          <Download size={20} className="text-blue-600" />
+          <h2 className="font-bold text-lg">Export Health Data</h2>
+        </div>
+        <p className="text-sm text-slate-500 mb-4">
+          Download your scans, sensor readings and lab reports as a FHIR R4 bundle with LOINC codes, which most clinic and hospital systems can import.
+        </p>
+        <button onClick={exportData} disabled={busy} className="px-6 py-3 border border-slate-200 hover:bg-slate-50 text-slate-700 font-semibold rounded-xl transition-all flex items-center gap-2">
+          <Download size={18} /> Download FHIR Bundle
+        </button>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <button onClick={signOut} disabled={busy} className="flex-1 flex items-center justify-center gap-2 px-6 py-3 bg-slate-900 hover:bg-slate-800 text-white font-semibold rounded-xl transition-all">
+          <LogOut size={18} /> Sign Out
+        </button>
+        <button onClick={deleteAccount} disabled={busy} className="flex-1 flex items-center justify-center gap-2 px-6 py-3 border border-red-200 text-red-600 hover:bg-red-50 font-semibold rounded-xl transition-all">
+          <Trash2 size={18} /> Delete Account
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AccountSettings;
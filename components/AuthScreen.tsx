@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Heart, Loader2, AlertCircle } from 'lucide-react';
+import { AuthUser } from '../types';
+import { authService } from '../services/authService';
+
+interface AuthScreenProps {
+  onAuthenticated: (user: AuthUser) => void;
+}
+
+const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthenticated }) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      const user = mode === 'login'
+        ? await authService.login(email, password)
+        : await authService.register(name, email, password);
+      onAuthenticated(user);
+    } catch (err: any) {
+      setError(err.message.includes('Failed to fetch')
+        ? 'Cannot reach the backend. Make sure it is running on port 5000.'
+        : err.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-3 rounded-xl border border-slate-200 bg-slate-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-900 p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md p-10">
+        <div className="flex items-center gap-3 mb-8">
+          <div className="p-2 bg-blue-600 rounded-lg text-white">
+            <Heart size={24} fill="currentColor" />
+          </div>
+          <span className="text-2xl font-bold tracking-tight text-slate-900">CardiaX</span>
+        </div>
+
+        <h1 className="text-xl font-bold text-slate-900 mb-1">
+          {mode === 'login' ? 'Sign in to your account' : 'Create your account'}
+        </h1>
+        <p className="text-sm text-slate-500 mb-6">
+          Your scans, reports and sensor readings are private to your account.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'register' && (
+            <input
+              type="text"
+              placeholder="Full name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClass}
+              required
+            />
+          )}
+          <input
+            type="email"
+            placeholder="Email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className={inputClass}
+            autoComplete="email"
+            required
+          />
+          <input
+            type="password"
+            placeholder="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            minLength={mode === 'register' ? 8 : undefined}
+            required
+          />
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-100 rounded-xl text-sm text-red-700">
+              <AlertCircle size={16} className="shrink-0" />
+              {error}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-semibold py-3 rounded-xl transition-all shadow-lg flex items-center justify-center gap-2"
+          >
+            {isSubmitting && <Loader2 size={18} className="animate-spin" />}
+            {mode === 'login' ? 'Sign In' : 'Create Account'}
+          </button>
+        </form>
+
+        <button
+          onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }}
+          className="w-full mt-6 text-sm text-slate-500 hover:text-blue-600 transition-colors"
+        >
+          {mode === 'login' ? "Don't have an account? Create one" : 'Already have an account? Sign in'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default AuthScreen;
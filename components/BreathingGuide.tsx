@@ -0,0 +1,37 @@
+import React from 'react';
+import { ScanProtocol } from '../types';
+import { breathingPhase } from '../services/scanProtocols';
+
+interface BreathingGuideProps {
+  protocol: ScanProtocol;
+  elapsed: number;
+}
+
+const BreathingGuide: React.FC<BreathingGuideProps> = ({ protocol, elapsed }) => {
+  const state = breathingPhase(protocol, elapsed);
+  if (!state || !protocol.breathing) return null;
+
+  const inhale = state.phase === 'inhale';
+  const phaseSec = inhale ? protocol.breathing.inhaleSec : protocol.breathing.exhaleSec;
+
+  return (
+    <div className="absolute top-10 right-10 flex flex-col items-center gap-3 pointer-events-none">
+      <div className="w-28 h-28 flex items-center justify-center">
+        <div
+          className={`rounded-full border-4 ${inhale ? 'border-sky-300 bg-sky-400/30' : 'border-indigo-300 bg-indigo-400/20'}`}
+          style={{
+            width: '100%',
+            height: '100%',
+            transform: `scale(${inhale ? 1 : 0.45})`,
+            transition: `transform ${phaseSec}s ease-in-out`
+          }}
+        />
+      </div>
+      <div className="bg-slate-900/70 backdrop-blur-md px-4 py-2 rounded-full text-white text-[10px] font-black uppercase tracking-widest shadow-xl">
+        {inhale ? 'Breathe in' : 'Breathe out'} • {Math.ceil(state.remaining)}s
+      </div>
+    </div>
+  );
+};
+
+export default BreathingGuide;
@@ -1,27 +1,48 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Bot, User, Loader2, Info, FileText, Utensils, Sparkles } from 'lucide-react';
-import { groqService } from '../services/groqService';
-import { Message } from '../types';
+import { Send, Square, Bot, User, Loader2, Info, FileText, Utensils, Sparkles, AlertCircle, X } from 'lucide-react';
+import { aiService, StreamOptions } from '../services/aiService';
+import { chatSessionService } from '../services/chatSessionService';
+import { ChatSession, ChatSessionSummary, Message, ChatSource, TriageResult } from '../types';
+import ChatSessionList from './ChatSessionList';
+import SourceChips, { CitedText } from './SourceChips';
+import SourceViewer from './SourceViewer';
+import TriageBanner from './TriageBanner';
+import { triage } from '../shared/triage.js';
+
+// The conversation that was open, reopened when the chat view is next shown
+const ACTIVE_SESSION_KEY = 'cardiax.chatSession';
+
+const greeting = (): Message => ({
+  role: 'model',
+  text: "Hello! I'm Vivitsu, your AI health assistant. I can help you with:\n\n• Symptom analysis based on your reports\n• Personalized diet plans\n• Health insights and recommendations\n• General health questions\n\nHow can I assist you today?",
+  timestamp: new Date()
+});
+
+const summaryOf = ({ messages, reports, ...summary }: ChatSession): ChatSessionSummary => summary;
 
 
 const ChatAssistant: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([
-    { 
-      role: 'model', 
-      text: "Hello! I'm Vivitsu, your AI health assistant powered by Groq's lightning-fast AI. I can help you with:\n\n• Symptom analysis based on your reports\n• Personalized diet plans\n• Health insights and recommendations\n• General health questions\n\nHow can I assist you today?", 
-      timestamp: new Date() 
-    }
-  ]);
+  const [messages, setMessages] = useState<Message[]>([greeting()]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [medicalReports, setMedicalReports] = useState<any[]>([]);
   const [reportsLoaded, setReportsLoaded] = useState(false);
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(true);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionError, setSessionError] = useState<string | null>(null);
+  const [openSource, setOpenSource] = useState<ChatSource | null>(null);
+  const [activeTriage, setActiveTriage] = useState<TriageResult | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
 
-  // Load medical reports on mount
+  // Load medical reports and saved conversations on mount; leaving the chat
+  // stops any reply in progress
   useEffect(() => {
     loadMedicalReports();
+    loadSessions();
+    return () => abortRef.current?.abort();
   }, []);
 
 
@@ -34,7 +55,7 @@ const ChatAssistant: React.FC = () => {
 
   const loadMedicalReports = async () => {
     try {
-      const reports = await groqService.fetchMedicalReports();
+      const reports = await aiService.fetchMedicalReports();
       setMedicalReports(reports);
       setReportsLoaded(true);
       console.log(`✅ Loaded ${reports.length} medical reports for AI context`);
@@ -45,224 +66,362 @@ const ChatAssistant: React.FC = () => {
   };
 
 
-  const handleSend = async () => {
-    if (!input.trim() || isLoading) return;
+  const loadSessions = async () => {
+    try {
+      setSessions(await chatSessionService.list());
+      const activeId = localStorage.getItem(ACTIVE_SESSION_KEY);
+      if (activeId) await openSession(activeId);
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    } finally {
+      setSessionsLoading(false);
+    }
+  };
 
 
-    const userMessage: Message = { role: 'user', text: input, timestamp: new Date() };
-    setMessages(prev => [...prev, userMessage]);
-    const userInput = input;
-    setInput('');
-    setIsLoading(true);
+  const setActiveSession = (id: string | null) => {
+    setSessionId(id);
+    if (id) localStorage.setItem(ACTIVE_SESSION_KEY, id);
+    else localStorage.removeItem(ACTIVE_SESSION_KEY);
+  };
 
 
+  const openSession = async (id: string) => {
     try {
-      // Build chat history
-      const chatHistory = messages.map(m => ({ role: m.role, text: m.text }));
-      chatHistory.push({ role: 'user', text: userInput });
-      
-      // Call Groq AI with medical context
-      const response = await groqService.chatWithContext(chatHistory, medicalReports);
-      
-      const botMessage: Message = { 
-        role: 'model', 
-        text: response || "I'm sorry, I couldn't process that. Please try again.", 
-        timestamp: new Date() 
-      };
-      setMessages(prev => [...prev, botMessage]);
-    } catch (error) {
-      console.error("Chat Error:", error);
-      setMessages(prev => [...prev, { 
-        role: 'model', 
-        text: "An error occurred. Please check your Groq API key and connection.", 
-        timestamp: new Date() 
-      }]);
-    } finally {
-      setIsLoading(false);
+      const session = await chatSessionService.get(id);
+      setMessages([greeting(), ...session.messages]);
+      setActiveSession(session.id);
+      setSessionError(null);
+      setActiveTriage(null);
+    } catch (error: any) {
+      console.error('Error opening conversation:', error);
+      // Deleted elsewhere: start afresh rather than keep pointing at it
+      if (localStorage.getItem(ACTIVE_SESSION_KEY) === id) localStorage.removeItem(ACTIVE_SESSION_KEY);
+      setSessionError(error.message);
     }
   };
 
 
-  const generateDietPlan = async () => {
-    if (isLoading) return;
+  const startNewChat = () => {
+    setMessages([greeting()]);
+    setActiveSession(null);
+    setSessionError(null);
+    setActiveTriage(null);
+  };
 
 
-    const userMessage: Message = { 
-      role: 'user', 
-      text: "Generate a personalized diet plan for me based on my medical history", 
-      timestamp: new Date() 
-    };
-    setMessages(prev => [...prev, userMessage]);
-    setIsLoading(true);
+  // Saves messages to the open conversation, creating it on the first
+  // message. Chatting carries on if saving fails.
+  const saveMessages = async (id: string | null, newMessages: Message[]): Promise<string | null> => {
+    try {
+      if (!id) {
+        const session = await chatSessionService.create(newMessages);
+        setActiveSession(session.id);
+        setSessions(prev => [summaryOf(session), ...prev]);
+        return session.id;
+      }
+      const summary = await chatSessionService.appendMessages(id, newMessages);
+      setSessions(prev => [summary, ...prev.filter(s => s.id !== id)]);
+      return id;
+    } catch (error: any) {
+      console.error('Error saving conversation:', error);
+      setSessionError(`This conversation could not be saved: ${error.message}`);
+      return id;
+    }
+  };
 
 
+  const renameSession = async (id: string, title: string) => {
     try {
-      const response = await groqService.generateDietPlan(
-        "General health and wellness considering medical conditions",
-        medicalReports
-      );
-      
-      const botMessage: Message = { 
-        role: 'model', 
-        text: response, 
-        timestamp: new Date() 
-      };
-      setMessages(prev => [...prev, botMessage]);
-    } catch (error) {
-      console.error("Diet Plan Error:", error);
-      setMessages(prev => [...prev, { 
-        role: 'model', 
-        text: "Failed to generate diet plan. Please try again.", 
-        timestamp: new Date() 
-      }]);
-    } finally {
-      setIsLoading(false);
+      const summary = await chatSessionService.rename(id, title);
+      setSessions(prev => prev.map(s => (s.id === id ? summary : s)));
+    } catch (error: any) {
+      setSessionError(error.message);
     }
   };
 
 
-  const getHealthInsights = async () => {
-    if (isLoading || medicalReports.length === 0) return;
+  const deleteSession = async (id: string) => {
+    try {
+      await chatSessionService.remove(id);
+      setSessions(prev => prev.filter(s => s.id !== id));
+      if (id === sessionId) startNewChat();
+    } catch (error: any) {
+      setSessionError(error.message);
+    }
+  };
+
+
+  const exportSession = async (id: string) => {
+    try {
+      await chatSessionService.download(id);
+    } catch (error: any) {
+      setSessionError(error.message);
+    }
+  };
 
 
-    const userMessage: Message = { 
-      role: 'user', 
-      text: "Analyze my medical reports and give me health insights", 
-      timestamp: new Date() 
-    };
-    setMessages(prev => [...prev, userMessage]);
+  // Adds the user's message and streams the reply into a new model message.
+  // Stopping keeps whatever has arrived so far. Both are saved to the open
+  // conversation; error notices are not. Red flags in the message show a
+  // warning straight away; the server's triage, which also checks the latest
+  // measurements, replaces it when the reply starts.
+  const reply = async (
+    text: string,
+    request: (stream: StreamOptions, sessionId?: string) => Promise<string>,
+    errorText: string
+  ) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const flagged = (result: TriageResult) => (result.level !== 'none' ? result : undefined);
+    const localTriage = flagged(triage({ text }));
+    const userMessage: Message = { role: 'user', text, timestamp: new Date(), ...(localTriage && { triage: localTriage }) };
+    setActiveTriage(localTriage ?? null);
+    setMessages(prev => [
+      ...prev,
+      userMessage,
+      { role: 'model', text: '', timestamp: new Date() }
+    ]);
     setIsLoading(true);
 
+    const updateReply = (changes: Partial<Message>) => setMessages(prev => [
+      ...prev.slice(0, -1),
+      { ...prev[prev.length - 1], ...changes }
+    ]);
 
+    let saved: Message | null = null;
+    let sources: ChatSource[] | undefined;
+    const id = await saveMessages(sessionId, [userMessage]);
     try {
-      const response = await groqService.getHealthInsights(medicalReports);
-      
-      const botMessage: Message = { 
-        role: 'model', 
-        text: response, 
-        timestamp: new Date() 
-      };
-      setMessages(prev => [...prev, botMessage]);
+      const response = await request({
+        onDelta: text => updateReply({ text }),
+        onSources: received => { sources = received.length ? received : undefined; },
+        onTriage: result => {
+          setActiveTriage(flagged(result) ?? null);
+          setMessages(prev => prev.map(m => (m === userMessage ? { ...m, triage: flagged(result) } : m)));
+        },
+        signal: controller.signal
+      }, id ?? undefined);
+      if (controller.signal.aborted) {
+        saved = { role: 'model', text: response, timestamp: new Date(), stopped: true };
+        updateReply({ text: response, stopped: true });
+      } else {
+        saved = { role: 'model', text: response || "I'm sorry, I couldn't process that. Please try again.", timestamp: new Date(), sources };
+        updateReply(saved);
+      }
     } catch (error) {
-      console.error("Insights Error:", error);
-      setMessages(prev => [...prev, { 
-        role: 'model', 
-        text: "Failed to generate insights. Please try again.", 
-        timestamp: new Date() 
-      }]);
+      console.error("Chat Error:", error);
+      updateReply({ text: errorText, timestamp: new Date() });
     } finally {
+      abortRef.current = null;
       setIsLoading(false);
     }
+
+    if (id && saved?.text) await saveMessages(id, [saved]);
+  };
+
+
+  const stopGeneration = () => abortRef.current?.abort();
+
+
+  const handleSend = async () => {
+    if (!input.trim() || isLoading) return;
+
+    const userInput = input;
+    setInput('');
+
+    // Build chat history
+    const chatHistory = messages.filter(m => m.text).map(m => ({ role: m.role, text: m.text }));
+    chatHistory.push({ role: 'user', text: userInput });
+
+    // Call the AI with medical context
+    await reply(
+      userInput,
+      (stream, sessionId) => aiService.chatWithContext(chatHistory, stream, sessionId),
+      "An error occurred. Please check the AI provider configuration and your connection."
+    );
+  };
+
+
+  const generateDietPlan = async () => {
+    if (isLoading) return;
+
+    await reply(
+      "Generate a personalized diet plan for me based on my medical history",
+      (stream, sessionId) => aiService.generateDietPlan("General health and wellness considering medical conditions", medicalReports, stream, sessionId),
+      "Failed to generate diet plan. Please try again."
+    );
+  };
+
+
+  const getHealthInsights = async () => {
+    if (isLoading || medicalReports.length === 0) return;
+
+    await reply(
+      "Analyze my medical reports and give me health insights",
+      (stream, sessionId) => aiService.getHealthInsights(medicalReports, stream, sessionId),
+      "Failed to generate insights. Please try again."
+    );
   };
 
 
   return (
-    <div className="flex flex-col h-full bg-white max-w-4xl mx-auto shadow-sm border-x border-slate-200">
-      {/* Header Info */}
-      <div className="px-6 py-3 bg-slate-50 border-b border-slate-100 flex items-center justify-between">
-        <div className="flex items-center gap-2">
-          <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
-            Groq AI Active • {medicalReports.length} Reports Loaded
-          </span>
-        </div>
-        <div className="flex items-center gap-2 text-[10px] text-slate-400 font-bold italic">
-          <Info size={12} />
-          Emergency? Call 911 immediately.
+    <div className="flex h-full bg-white max-w-6xl mx-auto shadow-sm border-x border-slate-200">
+      <ChatSessionList
+        sessions={sessions}
+        activeId={sessionId}
+        isLoading={sessionsLoading}
+        disabled={isLoading}
+        onSelect={openSession}
+        onNew={startNewChat}
+        onRename={renameSession}
+        onDelete={deleteSession}
+        onExport={exportSession}
+      />
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        {/* Header Info */}
+        <div className="px-6 py-3 bg-slate-50 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+            <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">
+              AI Active • {medicalReports.length} Reports Loaded
+            </span>
+          </div>
+          <div className="flex items-center gap-2 text-[10px] text-slate-400 font-bold italic">
+            <Info size={12} />
+            Emergency? Call 911 immediately.
+          </div>
         </div>
-      </div>
 
 
-      {/* Quick Actions */}
-      {reportsLoaded && (
-        <div className="px-6 py-3 bg-white border-b border-slate-100 flex gap-2 overflow-x-auto">
-          <button
-            onClick={generateDietPlan}
-            disabled={isLoading}
-            className="px-4 py-2 bg-green-50 text-green-700 rounded-full text-xs font-bold hover:bg-green-100 transition-colors flex items-center gap-2 whitespace-nowrap disabled:opacity-50"
-          >
-            <Utensils size={14} />
-            Get Diet Plan
-          </button>
-          <button
-            onClick={getHealthInsights}
-            disabled={isLoading || medicalReports.length === 0}
-            className="px-4 py-2 bg-blue-50 text-blue-700 rounded-full text-xs font-bold hover:bg-blue-100 transition-colors flex items-center gap-2 whitespace-nowrap disabled:opacity-50"
-          >
-            <Sparkles size={14} />
-            Health Insights
-          </button>
-          <div className="px-4 py-2 bg-slate-50 text-slate-600 rounded-full text-xs font-bold flex items-center gap-2 whitespace-nowrap">
-            <FileText size={14} />
-            {medicalReports.length} Reports Analyzed
+        {sessionError && (
+          <div className="px-6 py-2 bg-amber-50 border-b border-amber-100 flex items-center gap-2 text-xs text-amber-700">
+            <AlertCircle size={14} className="shrink-0" />
+            <span className="flex-1">{sessionError}</span>
+            <button onClick={() => setSessionError(null)} className="text-amber-500 hover:text-amber-700"><X size={14} /></button>
           </div>
-        </div>
-      )}
+        )}
 
 
-      {/* Messages */}
-      <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 space-y-6">
-        {messages.map((msg, i) => (
-          <div key={i} className={`flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : ''} animate-in fade-in slide-in-from-bottom-2 duration-300`}>
-            <div className={`w-10 h-10 rounded-xl flex items-center justify-center shrink-0 shadow-sm ${
-              msg.role === 'user' ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 border border-slate-200'
-            }`}>
-              {msg.role === 'user' ? <User size={20} /> : <Bot size={20} />}
+        {activeTriage && <TriageBanner triage={activeTriage} onDismiss={() => setActiveTriage(null)} />}
+
+
+        {/* Quick Actions */}
+        {reportsLoaded && (
+          <div className="px-6 py-3 bg-white border-b border-slate-100 flex gap-2 overflow-x-auto">
+            <button
+              onClick={generateDietPlan}
+              disabled={isLoading}
+              className="px-4 py-2 bg-green-50 text-green-700 rounded-full text-xs font-bold hover:bg-green-100 transition-colors flex items-center gap-2 whitespace-nowrap disabled:opacity-50"
+            >
+              <Utensils size={14} />
+              Get Diet Plan
+            </button>
+            <button
+              onClick={getHealthInsights}
+              disabled={isLoading || medicalReports.length === 0}
+              className="px-4 py-2 bg-blue-50 text-blue-700 rounded-full text-xs font-bold hover:bg-blue-100 transition-colors flex items-center gap-2 whitespace-nowrap disabled:opacity-50"
+            >
+              <Sparkles size={14} />
+              Health Insights
+            </button>
+            <div className="px-4 py-2 bg-slate-50 text-slate-600 rounded-full text-xs font-bold flex items-center gap-2 whitespace-nowrap">
+              <FileText size={14} />
+              {medicalReports.length} Reports Analyzed
             </div>
-            <div className={`max-w-[85%] rounded-[1.5rem] p-5 shadow-sm ${
-              msg.role === 'user' 
-                ? 'bg-blue-600 text-white rounded-tr-none' 
-                : 'bg-slate-50 text-slate-800 border border-slate-200 rounded-tl-none'
-            }`}>
-              <div className="prose prose-slate max-w-none prose-sm text-inherit leading-relaxed">
-                {msg.text.split('\n').map((line, idx) => (
-                  <p key={idx} className="mb-2 last:mb-0 whitespace-pre-wrap">{line}</p>
-                ))}
+          </div>
+        )}
+
+
+        {/* Messages */}
+        <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 space-y-6">
+          {messages.filter(msg => msg.text || msg.stopped).map((msg, i) => (
+            <div key={i} className={`flex gap-4 ${msg.role === 'user' ? 'flex-row-reverse' : ''} animate-in fade-in slide-in-from-bottom-2 duration-300`}>
+              <div className={`w-10 h-10 rounded-xl flex items-center justify-center shrink-0 shadow-sm ${
+                msg.role === 'user' ? 'bg-blue-600 text-white' : 'bg-white text-slate-600 border border-slate-200'
+              }`}>
+                {msg.role === 'user' ? <User size={20} /> : <Bot size={20} />}
               </div>
-              <div className={`text-[10px] mt-3 font-bold opacity-40 uppercase tracking-widest ${msg.role === 'user' ? 'text-right' : ''}`}>
-                {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+              <div className={`max-w-[85%] rounded-[1.5rem] p-5 shadow-sm ${
+                msg.role === 'user' 
+                  ? 'bg-blue-600 text-white rounded-tr-none' 
+                  : 'bg-slate-50 text-slate-800 border border-slate-200 rounded-tl-none'
+              }`}>
+                <div className="prose prose-slate max-w-none prose-sm text-inherit leading-relaxed">
+                  {msg.text.split('\n').map((line, idx) => (
+                    <p key={idx} className="mb-2 last:mb-0 whitespace-pre-wrap">
+                      <CitedText text={line} sources={msg.sources || []} onOpen={setOpenSource} />
+                    </p>
+                  ))}
+                </div>
+                {msg.sources && <SourceChips sources={msg.sources} onOpen={setOpenSource} />}
+                {msg.triage && (
+                  <div className={`inline-flex items-center gap-1.5 mt-3 px-2.5 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${
+                    msg.triage.level === 'emergency' ? 'bg-red-500 text-white' : 'bg-amber-300 text-amber-900'
+                  }`}>
+                    <AlertCircle size={12} />
+                    {msg.triage.level === 'emergency' ? 'Emergency warning shown' : 'Urgent care advised'}
+                  </div>
+                )}
+                <div className={`text-[10px] mt-3 font-bold opacity-40 uppercase tracking-widest ${msg.role === 'user' ? 'text-right' : ''}`}>
+                  {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  {msg.stopped && ' • Stopped'}
+                </div>
               </div>
             </div>
-          </div>
-        ))}
-        {isLoading && (
-          <div className="flex gap-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
-            <div className="w-10 h-10 rounded-xl bg-white border border-slate-200 flex items-center justify-center shrink-0">
-              <Bot size={20} className="text-blue-600 animate-pulse" />
-            </div>
-            <div className="bg-slate-50 rounded-[1.5rem] p-5 border border-slate-200 rounded-tl-none flex items-center gap-3">
-              <Loader2 size={16} className="animate-spin text-blue-600" />
-              <span className="text-sm text-slate-500 font-black uppercase tracking-widest text-[10px]">Groq AI analyzing...</span>
+          ))}
+          {isLoading && !messages[messages.length - 1]?.text && (
+            <div className="flex gap-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
+              <div className="w-10 h-10 rounded-xl bg-white border border-slate-200 flex items-center justify-center shrink-0">
+                <Bot size={20} className="text-blue-600 animate-pulse" />
+              </div>
+              <div className="bg-slate-50 rounded-[1.5rem] p-5 border border-slate-200 rounded-tl-none flex items-center gap-3">
+                <Loader2 size={16} className="animate-spin text-blue-600" />
+                <span className="text-sm text-slate-500 font-black uppercase tracking-widest text-[10px]">AI analyzing...</span>
+              </div>
             </div>
-          </div>
-        )}
-      </div>
+          )}
+        </div>
 
 
-      {/* Input Area */}
-      <div className="p-8 border-t border-slate-200 bg-white">
-        <div className="flex gap-4 items-end bg-slate-50 p-2 rounded-[2rem] border border-slate-200 focus-within:ring-2 focus-within:ring-blue-500 transition-all">
-          <textarea
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={(e) => {
-              if (e.key === 'Enter' && !e.shiftKey) {
-                e.preventDefault();
-                handleSend();
-              }
-            }}
-            placeholder="Ask about symptoms, diet, or health advice..."
-            className="flex-1 min-h-[44px] max-h-[150px] p-3 pl-5 bg-transparent outline-none resize-none text-slate-800 font-medium"
-          />
-          <button
-            onClick={handleSend}
-            disabled={isLoading || !input.trim()}
-            className="p-4 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg shadow-blue-200 mb-0.5 mr-0.5"
-          >
-            <Send size={20} />
-          </button>
+        {/* Input Area */}
+        <div className="p-8 border-t border-slate-200 bg-white">
+          <div className="flex gap-4 items-end bg-slate-50 p-2 rounded-[2rem] border border-slate-200 focus-within:ring-2 focus-within:ring-blue-500 transition-all">
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSend();
+                }
+              }}
+              placeholder="Ask about symptoms, diet, or health advice..."
+              className="flex-1 min-h-[44px] max-h-[150px] p-3 pl-5 bg-transparent outline-none resize-none text-slate-800 font-medium"
+            />
+            {isLoading ? (
+              <button
+                onClick={stopGeneration}
+                title="Stop generating"
+                className="p-4 bg-slate-800 text-white rounded-full hover:bg-slate-900 transition-all shadow-lg shadow-slate-200 mb-0.5 mr-0.5"
+              >
+                <Square size={20} fill="currentColor" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="p-4 bg-blue-600 text-white rounded-full hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-lg shadow-blue-200 mb-0.5 mr-0.5"
+              >
+                <Send size={20} />
+              </button>
+            )}
+          </div>
         </div>
       </div>
+
+      {openSource && <SourceViewer source={openSource} onClose={() => setOpenSource(null)} />}
     </div>
   );
 };
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Plus, MessageSquare, Pencil, Trash2, Download, Check, X, Loader2 } from 'lucide-react';
+import { ChatSessionSummary } from '../types';
+
+interface ChatSessionListProps {
+  sessions: ChatSessionSummary[];
+  activeId: string | null;
+  isLoading: boolean;
+  disabled: boolean;   // while a reply is being generated
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onExport: (id: string) => Promise<void>;
+}
+
+const formatUpdated = (value: string) => {
+  const date = new Date(value);
+  return date.toDateString() === new Date().toDateString()
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { day: 'numeric', month: 'short' });
+};
+
+const actionClass = 'p-1.5 rounded-lg text-slate-400 hover:text-slate-700 hover:bg-white transition-colors';
+
+// Past conversations beside the chat, most recent first
+const ChatSessionList: React.FC<ChatSessionListProps> = ({
+  sessions, activeId, isLoading, disabled, onSelect, onNew, onRename, onDelete, onExport
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [title, setTitle] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const run = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const startRename = (session: ChatSessionSummary) => {
+    setEditingId(session.id);
+    setTitle(session.title);
+  };
+
+  const saveRename = async () => {
+    const id = editingId;
+    if (!id) return;
+    setEditingId(null);
+    if (title.trim() && title.trim() !== sessions.find(s => s.id === id)?.title) {
+      await run(id, () => onRename(id, title.trim()));
+    }
+  };
+
+  const confirmDelete = (session: ChatSessionSummary) => {
+    if (window.confirm(`Delete "${session.title}"? This cannot be undone.`)) {
+      run(session.id, () => onDelete(session.id));
+    }
+  };
+
+  return (
+    <aside className="hidden md:flex w-64 shrink-0 flex-col bg-slate-50 border-r border-slate-200">
+      <div className="p-4 border-b border-slate-200">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full px-4 py-2.5 bg-blue-600 text-white rounded-xl font-bold text-sm flex items-center justify-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Plus size={16} />
+          New Chat
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {isLoading && (
+          <div className="flex justify-center p-4">
+            <Loader2 size={18} className="animate-spin text-slate-400" />
+          </div>
+        )}
+        {!isLoading && sessions.length === 0 && (
+          <p className="p-4 text-xs text-slate-400 text-center">Your conversations are saved here.</p>
+        )}
+        {sessions.map(session => {
+          const active = session.id === activeId;
+          if (editingId === session.id) {
+            return (
+              <div key={session.id} className="flex items-center gap-1 p-2 rounded-xl bg-white border border-blue-200">
+                <input
+                  autoFocus
+                  value={title}
+                  maxLength={120}
+                  onChange={e => setTitle(e.target.value)}
+                  onKeyDown={e => {
+                    if (e.key === 'Enter') saveRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 text-sm bg-transparent outline-none text-slate-800"
+                />
+                <button onClick={saveRename} className={actionClass} title="Save"><Check size={14} /></button>
+                <button onClick={() => setEditingId(null)} className={actionClass} title="Cancel"><X size={14} /></button>
+              </div>
+            );
+          }
+
+          return (
+            <div
+              key={session.id}
+              className={`group flex items-center gap-2 p-3 rounded-xl cursor-pointer transition-colors ${
+                active ? 'bg-white border border-slate-200 shadow-sm' : 'hover:bg-slate-100 border border-transparent'
+              } ${disabled && !active ? 'opacity-50 pointer-events-none' : ''}`}
+              onClick={() => !active && onSelect(session.id)}
+            >
+              <MessageSquare size={16} className={active ? 'text-blue-600 shrink-0' : 'text-slate-400 shrink-0'} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-semibold text-slate-800 truncate">{session.title}</p>
+                <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">
+                  {formatUpdated(session.updatedAt)} • {session.messageCount} msg
+                </p>
+              </div>
+              {busyId === session.id ? (
+                <Loader2 size={14} className="animate-spin text-slate-400" />
+              ) : (
+                <div className="hidden group-hover:flex items-center" onClick={e => e.stopPropagation()}>
+                  <button onClick={() => startRename(session)} className={actionClass} title="Rename"><Pencil size={14} /></button>
+                  <button onClick={() => run(session.id, () => onExport(session.id))} className={actionClass} title="Export"><Download size={14} /></button>
+                  <button onClick={() => confirmDelete(session)} className={actionClass} title="Delete"><Trash2 size={14} /></button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+};
+
+export default ChatSessionList;
@@ -1,10 +1,38 @@
 import React, { useEffect, useState } from 'react';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { Droplets, Activity, Zap, Wind, ArrowUpRight, ArrowDownRight, Clock, ShieldCheck, WifiOff, AlertCircle, Terminal, Info, Cpu, Eye, Upload, Loader } from 'lucide-react';
 import { localServices, ServiceStatus } from '../services/localServices';
+import { SCAN_PROTOCOLS } from '../services/scanProtocols';
+import { riskService } from '../services/riskService';
+import RiskScoreCard from './RiskScoreCard';
 import supabase from './supabaseClient.js';
 
 
+const SENSOR_CHART_POINTS = 100;
+
+interface SensorPoint {
+  timestamp: string;
+  heartRate?: number;
+  restingHeartRate?: number;
+  spo2?: number;
+  systolic?: number;
+  diastolic?: number;
+  hrv?: number;
+  hrvSdnn?: number;
+}
+
+// Measures charted from sensor and wearable readings, when present. Imported
+// measures are sparse, so each series is drawn through the gaps.
+const SENSOR_SERIES: { key: Exclude<keyof SensorPoint, 'timestamp'>; label: string; color: string }[] = [
+  { key: 'heartRate', label: 'Heart rate', color: '#ef4444' },
+  { key: 'restingHeartRate', label: 'Resting HR', color: '#f97316' },
+  { key: 'spo2', label: 'SpO2', color: '#14b8a6' },
+  { key: 'systolic', label: 'Systolic BP', color: '#6366f1' },
+  { key: 'diastolic', label: 'Diastolic BP', color: '#a855f7' },
+  { key: 'hrv', label: 'HRV (RMSSD)', color: '#0ea5e9' },
+  { key: 'hrvSdnn', label: 'HRV (SDNN)', color: '#64748b' }
+];
+
 interface HealthData {
   id?: number;
   bpm: number;
@@ -20,11 +48,17 @@ const Dashboard: React.FC = ( ) => {
   const [eyeImage, setEyeImage] = useState<File | null>(null);
   const [eyeAnalysis, setEyeAnalysis] = useState<string>('');
   const [analyzing, setAnalyzing] = useState(false);
+  const [showLowQuality, setShowLowQuality] = useState(false);
+  const [protocolFilter, setProtocolFilter] = useState<string>('all');
+  const [timelineView, setTimelineView] = useState<'readings' | 'scans'>('readings');
+  const [riskRefreshKey, setRiskRefreshKey] = useState(0);
   
   // Real-time health data from Supabase
   const [latestHealthData, setLatestHealthData] = useState<HealthData | null>(null);
   const [healthHistory, setHealthHistory] = useState<HealthData[]>([]);
   const [supabaseConnected, setSupabaseConnected] = useState(false);
+  // ESP32 readings and wearable imports stored by the backend
+  const [storedReadings, setStoredReadings] = useState<any[]>([]);
 
 
   // Fetch initial health data from Supabase
@@ -124,22 +158,59 @@ const Dashboard: React.FC = ( ) => {
     const loadData = async () => {
       const { backend } = await localServices.checkHealth();
       setBackendStatus(backend);
-      const data = await localServices.getScanHistory();
+      const [data, readings] = await Promise.all([localServices.getScanHistory(), localServices.getHealthReadings()]);
       setHistory(data);
+      setStoredReadings(readings);
     };
     loadData();
   }, []);
 
 
-  // Prepare chart data - prioritize Supabase data if available
-  const chartData = healthHistory.length > 0
-    ? healthHistory.map(h => ({
-        time: new Date(h.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
-        heartRate: h.bpm,
-        oxygen: h.spo2
+  // Low-quality scans stay out of the trend unless explicitly requested
+  const lowQualityCount = history.filter(h => h.qualityLevel === 'low').length;
+  // Scans from different protocols are only comparable with each other
+  const scanProtocols = SCAN_PROTOCOLS.filter(p => history.some(h => h.protocol === p.id));
+  const trendHistory = history
+    .filter(h => showLowQuality || h.qualityLevel !== 'low')
+    .filter(h => protocolFilter === 'all' || h.protocol === protocolFilter);
+
+  // Sensor history: the live Supabase feed merged with stored ESP32 and
+  // imported wearable readings, oldest first. A MAX30102 without a finger
+  // reports 0, so zeros are treated as missing.
+  const sensorHistory: SensorPoint[] = [
+    ...healthHistory.map(h => ({ timestamp: h.created_at, heartRate: h.bpm || undefined, spo2: h.spo2 || undefined })),
+    ...storedReadings.map(r => ({
+      timestamp: r.timestamp as string,
+      heartRate: r.bpm || undefined,
+      spo2: r.spo2 || undefined,
+      restingHeartRate: r.restingHeartRate,
+      systolic: r.systolic,
+      diastolic: r.diastolic,
+      // SDNN runs higher than RMSSD, so each gets its own series
+      hrv: r.hrvMethod === 'sdnn' ? undefined : r.hrv,
+      hrvSdnn: r.hrvMethod === 'sdnn' ? r.hrv : undefined
+    }))
+  ]
+    .filter(h => SENSOR_SERIES.some(series => typeof h[series.key] === 'number'))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .slice(-SENSOR_CHART_POINTS);
+  const spansDays = sensorHistory.length > 1 &&
+    new Date(sensorHistory[sensorHistory.length - 1].timestamp).getTime() - new Date(sensorHistory[0].timestamp).getTime() > 24 * 60 * 60 * 1000;
+  const sensorSeries = SENSOR_SERIES.filter(series => sensorHistory.some(h => typeof h[series.key] === 'number'));
+
+  // Readings are shown by default once there are any; scan history stays
+  // one click away
+  const showingSensorData = sensorHistory.length > 0 && timelineView === 'readings';
+
+  const chartData = showingSensorData
+    ? sensorHistory.map(({ timestamp, ...values }) => ({
+        time: spansDays
+          ? new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric' })
+          : new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+        ...values
       }))
-    : history.length > 0
-    ? history.map(h => ({
+    : trendHistory.length > 0
+    ? trendHistory.map(h => ({
         time: new Date(h.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
         heartRate: h.heartRate
       }))
@@ -176,6 +247,11 @@ const Dashboard: React.FC = ( ) => {
       const result = await response.json();
       const analysisText = formatAnalysisResult(result);
       setEyeAnalysis(analysisText);
+
+      // Arcus feeds the risk score as an enhancer
+      if (result.success && await riskService.saveEyeAnalysis(result)) {
+        setRiskRefreshKey(k => k + 1);
+      }
       
     } catch (error) {
       console.error('Analysis error:', error);
@@ -381,12 +457,45 @@ app.add_middleware(
             <div className="space-y-1">
               <h3 className="text-2xl font-black text-slate-900 tracking-tight">Vitals Timeline</h3>
               <p className="text-sm text-slate-400 font-medium">
-                {supabaseConnected ? 'Live MAX30102 sensor data' : 'Cardiovascular micro-fluctuation history'}
+                {!showingSensorData ? 'Cardiovascular micro-fluctuation history' : supabaseConnected ? 'Live MAX30102 sensor data' : 'Sensor and wearable readings'}
               </p>
             </div>
-            <div className="flex items-center gap-3 text-xs font-bold text-slate-500 bg-slate-50 px-5 py-3 rounded-2xl border border-slate-100 shadow-sm">
-              <Clock size={16} className={supabaseConnected ? "text-green-500" : "text-blue-500"} />
-              {supabaseConnected ? 'Live Supabase Data' : 'Local Data'}
+            <div className="flex items-center gap-3">
+              {sensorHistory.length > 0 && history.length > 0 && (
+                <div className="flex text-[10px] font-black uppercase tracking-widest rounded-2xl border border-slate-100 bg-white shadow-sm overflow-hidden">
+                  {(['readings', 'scans'] as const).map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setTimelineView(view)}
+                      className={`px-4 py-3 transition-colors ${timelineView === view ? 'bg-slate-900 text-white' : 'text-slate-400 hover:text-slate-600'}`}
+                    >
+                      {view === 'readings' ? 'Readings' : 'Scans'}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {!showingSensorData && scanProtocols.length > 1 && (
+                <select
+                  value={protocolFilter}
+                  onChange={(e) => setProtocolFilter(e.target.value)}
+                  className="text-[10px] font-black uppercase tracking-widest px-4 py-3 rounded-2xl border border-slate-100 bg-white text-slate-500 shadow-sm outline-none"
+                >
+                  <option value="all">All protocols</option>
+                  {scanProtocols.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+              )}
+              {!showingSensorData && lowQualityCount > 0 && (
+                <button
+                  onClick={() => setShowLowQuality(!showLowQuality)}
+                  className={`text-[10px] font-black uppercase tracking-widest px-4 py-3 rounded-2xl border shadow-sm transition-colors ${showLowQuality ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-white text-slate-400 border-slate-100 hover:text-slate-600'}`}
+                >
+                  {showLowQuality ? 'Hide' : 'Show'} {lowQualityCount} low-quality
+                </button>
+              )}
+              <div className="flex items-center gap-3 text-xs font-bold text-slate-500 bg-slate-50 px-5 py-3 rounded-2xl border border-slate-100 shadow-sm">
+                <Clock size={16} className={showingSensorData && supabaseConnected ? "text-green-500" : "text-blue-500"} />
+                {!showingSensorData ? 'Local Data' : supabaseConnected ? 'Live Supabase Data' : 'Stored Readings'}
+              </div>
             </div>
           </div>
           <div className="h-80">
@@ -409,9 +518,26 @@ app.add_middleware(
                   cursor={{ stroke: '#f1f5f9', strokeWidth: 2 }}
                   contentStyle={{ borderRadius: '24px', border: 'none', boxShadow: '0 25px 50px -12px rgba(0,0,0,0.15)', fontWeight: 800, padding: '16px' }}
                 />
-                <Area type="monotone" dataKey="heartRate" stroke="#ef4444" strokeWidth={5} fillOpacity={1} fill="url(#colorHeart)" animationDuration={2000} />
-                {healthHistory.length > 0 && (
-                  <Area type="monotone" dataKey="oxygen" stroke="#14b8a6" strokeWidth={3} fillOpacity={1} fill="url(#colorOxygen)" animationDuration={2000} />
+                {showingSensorData ? (
+                  sensorSeries.map(series => (
+                    <Area
+                      key={series.key}
+                      type="monotone"
+                      dataKey={series.key}
+                      name={series.label}
+                      stroke={series.color}
+                      strokeWidth={series.key === 'heartRate' ? 5 : 3}
+                      fillOpacity={1}
+                      fill={series.key === 'heartRate' ? 'url(#colorHeart)' : series.key === 'spo2' ? 'url(#colorOxygen)' : 'none'}
+                      connectNulls
+                      animationDuration={2000}
+                    />
+                  ))
+                ) : (
+                  <Area type="monotone" dataKey="heartRate" name="Heart rate" stroke="#ef4444" strokeWidth={5} fillOpacity={1} fill="url(#colorHeart)" animationDuration={2000} />
+                )}
+                {showingSensorData && sensorSeries.length > 1 && (
+                  <Legend iconType="circle" wrapperStyle={{ fontSize: 10, fontWeight: 800, paddingTop: 24 }} />
                 )}
               </AreaChart>
             </ResponsiveContainer>
@@ -463,6 +589,10 @@ app.add_middleware(
       </div>
 
 
+      {/* Cardiovascular Risk */}
+      <RiskScoreCard refreshKey={riskRefreshKey} />
+
+
       {/* Eye Analysis Section */}
       <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm">
         <div className="flex items-center gap-4 mb-8">
@@ -0,0 +1,102 @@
+import React from 'react';
+import { ArrowUp, ArrowDown, FlaskConical, ScanEye, CheckCircle2, PencilLine } from 'lucide-react';
+import { LabResult } from '../types';
+import { LOW_CONFIDENCE } from '../shared/labParser.js';
+
+interface LabResultsTableProps {
+  results: LabResult[];
+  // Opens the review editor; omitted where values can't be edited
+  onReview?: () => void;
+}
+
+const FLAG_STYLES: Record<LabResult['flag'], string> = {
+  high: 'bg-red-50 text-red-700',
+  low: 'bg-amber-50 text-amber-700',
+  normal: 'bg-emerald-50 text-emerald-700'
+};
+
+export const isUncertain = (r: LabResult) => !r.verified && r.confidence !== undefined && r.confidence < LOW_CONFIDENCE;
+
+const LabResultsTable: React.FC<LabResultsTableProps> = ({ results, onReview }) => {
+  if (!results.length) return null;
+
+  const abnormal = results.filter(r => r.flag !== 'normal').length;
+  const multiPage = results.some(r => r.page && r.page > 1);
+  const uncertain = results.filter(isUncertain).length;
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-8 py-6 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <FlaskConical size={20} className="text-blue-600" />
+          Lab Values
+        </h3>
+        <div className="flex items-center gap-3">
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {results.length} found • {abnormal} out of range
+          </span>
+          {onReview && (
+            <button
+              onClick={onReview}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg bg-white border border-slate-200 text-xs font-bold text-slate-700 hover:bg-slate-100"
+            >
+              <PencilLine size={12} /> Review
+            </button>
+          )}
+        </div>
+      </div>
+
+      {uncertain > 0 && (
+        <div className="px-8 py-3 bg-amber-50 border-b border-amber-100 text-xs text-amber-800 flex items-center gap-2">
+          <ScanEye size={14} className="shrink-0" />
+          {uncertain} value{uncertain > 1 ? 's were' : ' was'} hard to read. Compare the highlighted results with your paper report.
+        </div>
+      )}
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <th className="px-8 py-3">Test</th>
+            <th className="px-4 py-3">Result</th>
+            <th className="px-4 py-3">Reference</th>
+            {multiPage && <th className="px-4 py-3">Page</th>}
+            <th className="px-8 py-3 text-right">Flag</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {results.map(r => (
+            <tr key={r.analyte} title={r.sourceLine}>
+              <td className="px-8 py-3 font-bold text-slate-800">
+                {r.name}
+                {r.verified && <CheckCircle2 size={12} className="inline ml-1 text-emerald-500" aria-label="Checked by you" />}
+              </td>
+              <td className="px-4 py-3 text-slate-900">
+                <span className={`font-bold ${isUncertain(r) ? 'px-1 rounded bg-amber-100 text-amber-900' : ''}`}>{r.value}</span> <span className="text-slate-400 text-xs">{r.unit}</span>
+                {r.rawUnit && r.rawUnit.toLowerCase() !== r.unit.toLowerCase() && (
+                  <p className="text-[10px] text-slate-400">{r.rawValue} {r.rawUnit} on report</p>
+                )}
+                {isUncertain(r) && (
+                  <p className="text-[10px] font-bold text-amber-600">Check value • OCR {r.confidence}% sure</p>
+                )}
+              </td>
+              <td className="px-4 py-3 text-slate-500">
+                {r.referenceRange.label}
+                {r.referenceRange.source === 'default' && <span className="text-[10px] text-slate-400"> (typical)</span>}
+              </td>
+              {multiPage && <td className="px-4 py-3 text-slate-400 text-xs font-bold">p. {r.page}</td>}
+              <td className="px-8 py-3 text-right">
+                <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${FLAG_STYLES[r.flag]}`}>
+                  {r.flag === 'high' && <ArrowUp size={10} />}
+                  {r.flag === 'low' && <ArrowDown size={10} />}
+                  {r.flag}
+                </span>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default LabResultsTable;
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceArea, ReferenceLine } from 'recharts';
+import { TrendingUp, ArrowUpRight, ArrowDownRight, AlertTriangle, CheckCircle2, Loader2 } from 'lucide-react';
+import { aiService } from '../services/aiService';
+import { LIPID_TARGETS, LipidAnalyte, LipidPoint, buildLipidTimeline, changesAt } from '../services/lipidTrends';
+
+interface LipidTrendsProps {
+  // Bumped by the parent after a new report is analysed
+  refreshKey?: number;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleDateString([], { day: 'numeric', month: 'short', year: '2-digit' });
+
+const LipidTrends: React.FC<LipidTrendsProps> = ({ refreshKey = 0 }) => {
+  const [timeline, setTimeline] = useState<LipidPoint[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<LipidAnalyte>('ldl');
+
+  useEffect(() => {
+    setLoading(true);
+    aiService.fetchMedicalReports().then(reports => {
+      setTimeline(buildLipidTimeline(reports));
+      setLoading(false);
+    });
+  }, [refreshKey]);
+
+  const target = LIPID_TARGETS.find(t => t.analyte === selected)!;
+  const changes = useMemo(() => timeline.map((_, i) => changesAt(timeline, i)), [timeline]);
+
+  const series = timeline
+    .map((p, i) => ({ date: formatDate(p.date), value: p[selected], change: changes[i].find(c => c.analyte === selected) }))
+    .filter(p => p.value !== undefined);
+
+  const maxValue = Math.max(...series.map(p => p.value!), ...target.thresholds) * 1.15;
+  const bandLow = target.targetLow ?? 0;
+  const bandHigh = target.targetHigh ?? maxValue;
+
+  const latestCrossings = changes.length ? changes[changes.length - 1].filter(c => c.crossing).map(c => c.crossing!) : [];
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-3xl border border-slate-200 shadow-sm p-8 flex items-center justify-center text-slate-400">
+        <Loader2 size={24} className="animate-spin" />
+      </div>
+    );
+  }
+
+  if (!timeline.length) return null;
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+      <div className="px-8 py-6 border-b border-slate-100 bg-slate-50/50 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <TrendingUp size={20} className="text-blue-600" />
+          Lipid Trends
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-2">{timeline.length} test{timeline.length > 1 ? 's' : ''}</span>
+        </h3>
+        <div className="flex gap-2 flex-wrap">
+          {LIPID_TARGETS.map(t => (
+            <button
+              key={t.analyte}
+              onClick={() => setSelected(t.analyte)}
+              className={`px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${
+                selected === t.analyte ? 'text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'
+              }`}
+              style={selected === t.analyte ? { backgroundColor: t.color } : undefined}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {latestCrossings.length > 0 && (
+        <div className="px-8 pt-6 space-y-2">
+          {latestCrossings.map(c => (
+            <div
+              key={c.analyte}
+              className={`flex items-center gap-2 p-3 rounded-xl border text-sm ${
+                c.direction === 'worse' ? 'bg-red-50 border-red-100 text-red-700' : 'bg-emerald-50 border-emerald-100 text-emerald-700'
+              }`}
+            >
+              {c.direction === 'worse' ? <AlertTriangle size={16} /> : <CheckCircle2 size={16} />}
+              <span>
+                <strong>{c.label}</strong> crossed {c.threshold} mg/dL since the last test ({c.from} → {c.to}).
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-8">
+        {series.length === 0 ? (
+          <p className="text-sm text-slate-500">No {target.label} values in your reports yet.</p>
+        ) : (
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={series}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                <ReferenceArea
+                  y1={bandLow}
+                  y2={bandHigh}
+                  shape={(props: any) => <rect x={props.x} y={props.y} width={props.width} height={props.height} fill="#10b981" fillOpacity={0.08} />}
+                />
+                {target.thresholds.map(t => (
+                  <ReferenceLine key={t} y={t} stroke="#cbd5e1" strokeDasharray="4 4" label={{ value: `${t}`, position: 'right', fill: '#94a3b8', fontSize: 10 }} />
+                ))}
+                <XAxis dataKey="date" axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 10, fontWeight: 800}} dy={15} />
+                <YAxis domain={[0, Math.ceil(maxValue)]} axisLine={false} tickLine={false} tick={{fill: '#94a3b8', fontSize: 10, fontWeight: 800}} />
+                <Tooltip
+                  cursor={{ stroke: '#f1f5f9', strokeWidth: 2 }}
+                  contentStyle={{ borderRadius: '24px', border: 'none', boxShadow: '0 25px 50px -12px rgba(0,0,0,0.15)', fontWeight: 800, padding: '16px' }}
+                  formatter={(value: any) => [`${value} mg/dL`, target.label]}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="value"
+                  stroke={target.color}
+                  strokeWidth={4}
+                  animationDuration={1000}
+                  dot={(props: any) => {
+                    const crossing = props.payload.change?.crossing;
+                    const fill = crossing ? (crossing.direction === 'worse' ? '#ef4444' : '#10b981') : target.color;
+                    return <circle key={props.index} cx={props.cx} cy={props.cy} r={crossing ? 7 : 5} fill={fill} stroke="#fff" strokeWidth={2} />;
+                  }}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+        <p className="mt-6 text-[10px] text-slate-400 font-bold">
+          Shaded band: target {target.targetLow !== undefined ? `≥ ${target.targetLow}` : `< ${target.targetHigh}`} mg/dL. Dashed lines: ATP III category cut points.
+        </p>
+      </div>
+
+      <table className="w-full text-sm border-t border-slate-100">
+        <thead>
+          <tr className="text-left text-[10px] font-black uppercase tracking-widest text-slate-400">
+            <th className="px-8 py-3">Test date</th>
+            {LIPID_TARGETS.map(t => <th key={t.analyte} className="px-4 py-3">{t.label}</th>)}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {timeline.map((point, i) => ({ point, i })).reverse().map(({ point, i }) => (
+            <tr key={point.reportId}>
+              <td className="px-8 py-3 font-bold text-slate-700">{formatDate(point.date)}</td>
+              {LIPID_TARGETS.map(t => {
+                const value = point[t.analyte];
+                const change = changes[i].find(c => c.analyte === t.analyte);
+                const improving = change?.percent !== null && change?.percent !== undefined && (t.higherIsBetter ? change.percent > 0 : change.percent < 0);
+                return (
+                  <td key={t.analyte} className="px-4 py-3">
+                    {value === undefined ? (
+                      <span className="text-slate-300">—</span>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <span className="font-bold text-slate-900">{value}</span>
+                        {change?.percent !== null && change?.percent !== undefined && change.percent !== 0 && (
+                          <span className={`flex items-center text-[10px] font-black ${improving ? 'text-emerald-600' : 'text-red-500'}`}>
+                            {change.percent > 0 ? <ArrowUpRight size={12} /> : <ArrowDownRight size={12} />}
+                            {Math.abs(change.percent)}%
+                          </span>
+                        )}
+                        {change?.crossing && (
+                          <span title={`Crossed ${change.crossing.threshold} mg/dL`}>
+                            <AlertTriangle size={12} className={change.crossing.direction === 'worse' ? 'text-red-500' : 'text-emerald-500'} />
+                          </span>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default LipidTrends;
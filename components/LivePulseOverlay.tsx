@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Heart, Move, Sun, ScanFace } from 'lucide-react';
+import { SignalQuality } from '../types';
+import { RppgSample, LiveSignal, LiveIssue, analyzeLiveWindow, liveWaveform } from '../services/rppg';
+
+interface LivePulseOverlayProps {
+  samplesRef: React.MutableRefObject<RppgSample[]>;
+}
+
+const QUALITY_STYLES: Record<SignalQuality, { bars: number; color: string; text: string }> = {
+  Excellent: { bars: 4, color: 'bg-emerald-400', text: 'text-emerald-300' },
+  Good: { bars: 3, color: 'bg-lime-400', text: 'text-lime-300' },
+  Fair: { bars: 2, color: 'bg-amber-400', text: 'text-amber-300' },
+  Poor: { bars: 1, color: 'bg-rose-500', text: 'text-rose-300' }
+};
+
+const ISSUE_HINTS: Record<LiveIssue, { label: string; icon: React.ElementType }> = {
+  motion: { label: 'Hold still', icon: Move },
+  lighting: { label: 'Adjust lighting', icon: Sun },
+  face_lost: { label: 'Face not detected', icon: ScanFace }
+};
+
+const LivePulseOverlay: React.FC<LivePulseOverlayProps> = ({ samplesRef }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [signal, setSignal] = useState<LiveSignal>({ bpm: null, quality: 'Poor', confidence: 0, issues: [] });
+
+  // Waveform redraw (~15 fps)
+  useEffect(() => {
+    let raf = 0;
+    let last = 0;
+    const draw = (now: number) => {
+      raf = requestAnimationFrame(draw);
+      if (now - last < 66) return;
+      last = now;
+
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx) return;
+
+      const { width, height } = canvas;
+      ctx.clearRect(0, 0, width, height);
+      const wave = liveWaveform(samplesRef.current);
+      if (wave.length < 2) return;
+
+      ctx.beginPath();
+      wave.forEach((v, i) => {
+        const x = (i / (wave.length - 1)) * width;
+        const y = height / 2 - v * (height / 2 - 6);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.strokeStyle = '#f43f5e';
+      ctx.lineWidth = 3;
+      ctx.lineJoin = 'round';
+      ctx.stroke();
+    };
+    raf = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(raf);
+  }, [samplesRef]);
+
+  // Rolling BPM and quality every 2 seconds
+  useEffect(() => {
+    const update = () => setSignal(analyzeLiveWindow(samplesRef.current));
+    const interval = setInterval(update, 2000);
+    return () => clearInterval(interval);
+  }, [samplesRef]);
+
+  const style = QUALITY_STYLES[signal.quality];
+
+  return (
+    <div className="absolute inset-x-6 bottom-6 flex flex-col gap-3 pointer-events-none">
+      {signal.issues.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {signal.issues.map(issue => {
+            const { label, icon: Icon } = ISSUE_HINTS[issue];
+            return (
+              <span key={issue} className="flex items-center gap-1.5 bg-amber-500/90 text-white px-3 py-1.5 rounded-full text-[9px] font-black uppercase tracking-widest shadow-lg">
+                <Icon size={11} /> {label}
+              </span>
+            );
+          })}
+        </div>
+      )}
+      <div className="bg-slate-900/70 backdrop-blur-md rounded-[2rem] border border-white/10 p-4 flex items-center gap-5 shadow-2xl">
+        <div className="flex flex-col items-center min-w-[72px]">
+          <Heart size={18} className="text-rose-500 animate-pulse mb-1" fill="currentColor" />
+          <p className="text-2xl font-black text-white leading-none">{signal.bpm ?? '--'}</p>
+          <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mt-1">Live BPM</p>
+        </div>
+        <canvas ref={canvasRef} width={480} height={64} className="flex-1 h-16 min-w-0" />
+        <div className="flex flex-col items-end gap-1.5 min-w-[72px]">
+          <div className="flex items-end gap-0.5 h-5">
+            {[1, 2, 3, 4].map(n => (
+              <div key={n} className={`w-1.5 rounded-sm ${n <= style.bars ? style.color : 'bg-white/15'}`} style={{ height: `${n * 25}%` }} />
+            ))}
+          </div>
+          <p className={`text-[9px] font-black uppercase tracking-widest ${style.text}`}>{signal.quality}</p>
+          <p className="text-[8px] font-bold text-slate-500 uppercase tracking-widest">{signal.confidence}% conf</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LivePulseOverlay;
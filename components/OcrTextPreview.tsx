@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { ScanText, ChevronDown, ChevronUp } from 'lucide-react';
+import { OcrPage } from '../types';
+import { LOW_CONFIDENCE } from '../shared/labParser.js';
+
+interface OcrTextPreviewProps {
+  pages: OcrPage[];
+}
+
+const confidenceStyle = (confidence: number) =>
+  confidence >= 85 ? 'bg-emerald-50 text-emerald-700' : confidence >= LOW_CONFIDENCE ? 'bg-amber-50 text-amber-700' : 'bg-red-50 text-red-700';
+
+// One page of recognised text with uncertain words marked
+export const OcrText: React.FC<{ page: OcrPage }> = ({ page }) => (
+  <div className="font-mono text-xs text-slate-700 leading-relaxed">
+    {page.text.split('\n').map((_, line) => (
+      <p key={line}>
+        {page.words.filter(w => w.line === line).map((w, i) => (
+          <React.Fragment key={i}>
+            {i > 0 && ' '}
+            {w.conf < LOW_CONFIDENCE ? (
+              <mark className="bg-amber-100 text-amber-900 rounded px-0.5" title={`${w.conf}% confidence`}>{w.text}</mark>
+            ) : w.text}
+          </React.Fragment>
+        ))}
+      </p>
+    ))}
+  </div>
+);
+
+// The recognised text of photographed pages, with words Tesseract was unsure
+// about highlighted so misread values are easy to spot
+const OcrTextPreview: React.FC<OcrTextPreviewProps> = ({ pages }) => {
+  const [open, setOpen] = useState(false);
+  if (!pages.length) return null;
+
+  const lowWords = pages.reduce((sum, p) => sum + p.words.filter(w => w.conf < LOW_CONFIDENCE).length, 0);
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full px-8 py-5 flex items-center justify-between bg-slate-50/50 hover:bg-slate-50 transition-colors"
+      >
+        <span className="text-sm font-bold text-slate-800 flex items-center gap-2">
+          <ScanText size={18} className="text-blue-600" />
+          Recognised Text
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-400 ml-2">
+            {lowWords} uncertain word{lowWords === 1 ? '' : 's'}
+          </span>
+        </span>
+        <span className="flex items-center gap-2">
+          {pages.map(p => (
+            <span key={p.page} className={`px-2 py-0.5 rounded text-[10px] font-black ${confidenceStyle(p.confidence)}`}>
+              {pages.length > 1 ? `p.${p.page} ` : ''}{p.confidence}%
+            </span>
+          ))}
+          {open ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+        </span>
+      </button>
+
+      {open && (
+        <div className="p-8 space-y-6 max-h-96 overflow-y-auto">
+          {pages.map(p => (
+            <div key={p.page}>
+              {pages.length > 1 && <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Page {p.page}</p>}
+              <OcrText page={p} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OcrTextPreview;
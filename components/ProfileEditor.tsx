@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardList, Plus, X, Loader2, CheckCircle2, AlertCircle, Pill, Users } from 'lucide-react';
+import { UserProfile, FamilyHistoryEntry, FamilyRelation, Medication } from '../types';
+import { profileService, EMPTY_PROFILE, profileAge, profileBmi } from '../services/profileService';
+
+const RELATIONS: FamilyRelation[] = ['parent', 'sibling', 'child', 'grandparent', 'other'];
+
+const inputClass = 'w-full px-4 py-3 rounded-xl border border-slate-200 bg-slate-50 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-white transition-all text-sm';
+const labelClass = 'block text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2';
+const cardClass = 'bg-white rounded-3xl border border-slate-100 shadow-sm p-8';
+
+// Comma-separated free text <-> string list
+const TagInput: React.FC<{ value: string[]; onChange: (v: string[]) => void; placeholder: string }> = ({ value, onChange, placeholder }) => {
+  const [draft, setDraft] = useState('');
+  const add = () => {
+    const item = draft.trim();
+    if (item && !value.includes(item)) onChange([...value, item]);
+    setDraft('');
+  };
+  return (
+    <div>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {value.map(item => (
+          <span key={item} className="flex items-center gap-1 px-3 py-1 bg-blue-50 text-blue-700 rounded-full text-xs font-bold">
+            {item}
+            <button type="button" onClick={() => onChange(value.filter(v => v !== item))}><X size={12} /></button>
+          </span>
+        ))}
+      </div>
+      <input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); add(); } }}
+        onBlur={add}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+    </div>
+  );
+};
+
+const ProfileEditor: React.FC = () => {
+  const [profile, setProfile] = useState<UserProfile>(EMPTY_PROFILE);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [notice, setNotice] = useState<{ kind: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    profileService.getProfile().then(saved => {
+      if (saved) setProfile({ ...EMPTY_PROFILE, ...saved });
+      setLoading(false);
+    });
+  }, []);
+
+  const set = <K extends keyof UserProfile>(key: K, value: UserProfile[K]) =>
+    setProfile(prev => ({ ...prev, [key]: value }));
+
+  const numberOrUndefined = (v: string) => (v === '' ? undefined : Number(v));
+
+  const updateMedication = (index: number, changes: Partial<Medication>) =>
+    set('medications', profile.medications.map((m, i) => (i === index ? { ...m, ...changes } : m)));
+
+  const updateFamily = (index: number, changes: Partial<FamilyHistoryEntry>) =>
+    set('familyHistory', profile.familyHistory.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setNotice(null);
+    try {
+      const saved = await profileService.saveProfile({
+        ...profile,
+        medications: profile.medications.filter(m => m.name.trim()),
+        familyHistory: profile.familyHistory.filter(f => f.condition.trim())
+      });
+      setProfile({ ...EMPTY_PROFILE, ...saved });
+      setNotice({ kind: 'success', text: 'Profile saved. Chat advice and scan interpretation now use it.' });
+    } catch (err: any) {
+      setNotice({ kind: 'error', text: err.message });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center text-slate-400">
+        <Loader2 size={28} className="animate-spin" />
+      </div>
+    );
+  }
+
+  const age = profileAge(profile);
+  const bmi = profileBmi(profile);
+
+  return (
+    <form onSubmit={handleSave} className="p-8 max-w-4xl mx-auto space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-slate-900">Health Profile</h1>
+        <p className="text-slate-500 mt-1">
+          Used to personalise chat advice, diet plans and vital scan reference ranges.
+        </p>
+      </div>
+
+      {notice && (
+        <div className={`flex items-center gap-2 p-4 rounded-xl text-sm border ${
+          notice.kind === 'success' ? 'bg-emerald-50 border-emerald-100 text-emerald-700' : 'bg-red-50 border-red-100 text-red-700'
+        }`}>
+          {notice.kind === 'success' ? <CheckCircle2 size={16} /> : <AlertCircle size={16} />}
+          {notice.text}
+        </div>
+      )}
+
+      <div className={cardClass}>
+        <div className="flex items-center gap-2 mb-6 text-slate-900">
+          <ClipboardList size={20} className="text-blue-600" />
+          <h2 className="font-bold text-lg">Demographics</h2>
+        </div>
+        <div className="grid md:grid-cols-4 gap-4">
+          <div>
+            <label className={labelClass}>Date of birth</label>
+            <input type="date" value={profile.dateOfBirth || ''} onChange={(e) => set('dateOfBirth', e.target.value || undefined)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Sex</label>
+            <select value={profile.sex || ''} onChange={(e) => set('sex', (e.target.value || undefined) as UserProfile['sex'])} className={inputClass}>
+              <option value="">Not specified</option>
+              <option value="female">Female</option>
+              <option value="male">Male</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Height (cm)</label>
+            <input type="number" min={50} max={250} value={profile.heightCm ?? ''} onChange={(e) => set('heightCm', numberOrUndefined(e.target.value))} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Weight (kg)</label>
+            <input type="number" min={2} max={400} step="0.1" value={profile.weightKg ?? ''} onChange={(e) => set('weightKg', numberOrUndefined(e.target.value))} className={inputClass} />
+          </div>
+        </div>
+        {(age !== undefined || bmi !== undefined) && (
+          <p className="mt-4 text-xs font-bold text-slate-500">
+            {age !== undefined && `Age ${age}`}{age !== undefined && bmi !== undefined && ' • '}{bmi !== undefined && `BMI ${bmi}`}
+          </p>
+        )}
+      </div>
+
+      <div className={cardClass}>
+        <h2 className="font-bold text-lg text-slate-900 mb-6">Risk Factors</h2>
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <label className={labelClass}>Smoking</label>
+            <select value={profile.smoking} onChange={(e) => set('smoking', e.target.value as UserProfile['smoking'])} className={inputClass}>
+              <option value="never">Never smoked</option>
+              <option value="former">Former smoker</option>
+              <option value="current">Current smoker</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Diabetes</label>
+            <select value={profile.diabetes} onChange={(e) => set('diabetes', e.target.value as UserProfile['diabetes'])} className={inputClass}>
+              <option value="none">None</option>
+              <option value="prediabetes">Prediabetes</option>
+              <option value="type1">Type 1</option>
+              <option value="type2">Type 2</option>
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Activity level</label>
+            <select value={profile.activityLevel || ''} onChange={(e) => set('activityLevel', (e.target.value || undefined) as UserProfile['activityLevel'])} className={inputClass}>
+              <option value="">Not specified</option>
+              <option value="sedentary">Sedentary</option>
+              <option value="light">Light</option>
+              <option value="moderate">Moderate</option>
+              <option value="active">Active</option>
+            </select>
+          </div>
+        </div>
+        <label className="flex items-center gap-3 mt-6 text-sm text-slate-700 font-medium">
+          <input type="checkbox" checked={profile.onBloodPressureMedication} onChange={(e) => set('onBloodPressureMedication', e.target.checked)} className="w-4 h-4 accent-blue-600" />
+          I take medication for high blood pressure
+        </label>
+        <div className="grid md:grid-cols-2 gap-4 mt-6">
+          <div>
+            <label className={labelClass}>Known conditions</label>
+            <TagInput value={profile.conditions} onChange={(v) => set('conditions', v)} placeholder="e.g. Asthma — press Enter" />
+          </div>
+          <div>
+            <label className={labelClass}>Allergies</label>
+            <TagInput value={profile.allergies} onChange={(v) => set('allergies', v)} placeholder="e.g. Peanuts — press Enter" />
+          </div>
+        </div>
+      </div>
+
+      <div className={cardClass}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2 text-slate-900">
+            <Pill size={20} className="text-blue-600" />
+            <h2 className="font-bold text-lg">Medications</h2>
+          </div>
+          <button type="button" onClick={() => set('medications', [...profile.medications, { name: '' }])} className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700">
+            <Plus size={14} /> Add
+          </button>
+        </div>
+        {profile.medications.length === 0 && <p className="text-sm text-slate-400">No medications listed.</p>}
+        <div className="space-y-3">
+          {profile.medications.map((med, i) => (
+            <div key={i} className="flex gap-3">
+              <input value={med.name} onChange={(e) => updateMedication(i, { name: e.target.value })} placeholder="Name" className={inputClass} />
+              <input value={med.dose || ''} onChange={(e) => updateMedication(i, { dose: e.target.value || undefined })} placeholder="Dose, e.g. 10 mg daily" className={inputClass} />
+              <button type="button" onClick={() => set('medications', profile.medications.filter((_, j) => j !== i))} className="px-3 text-slate-400 hover:text-red-500">
+                <X size={18} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className={cardClass}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2 text-slate-900">
+            <Users size={20} className="text-blue-600" />
+            <h2 className="font-bold text-lg">Family History</h2>
+          </div>
+          <button type="button" onClick={() => set('familyHistory', [...profile.familyHistory, { relation: 'parent', condition: '' }])} className="flex items-center gap-1 text-xs font-bold text-blue-600 hover:text-blue-700">
+            <Plus size={14} /> Add
+          </button>
+        </div>
+        {profile.familyHistory.length === 0 && <p className="text-sm text-slate-400">No family history recorded.</p>}
+        <div className="space-y-3">
+          {profile.familyHistory.map((entry, i) => (
+            <div key={i} className="flex gap-3">
+              <select value={entry.relation} onChange={(e) => updateFamily(i, { relation: e.target.value as FamilyRelation })} className={`${inputClass} max-w-[160px] capitalize`}>
+                {RELATIONS.map(r => <option key={r} value={r}>{r}</option>)}
+              </select>
+              <input value={entry.condition} onChange={(e) => updateFamily(i, { condition: e.target.value })} placeholder="Condition, e.g. Heart attack" className={inputClass} />
+              <input type="number" min={0} max={120} value={entry.ageAtOnset ?? ''} onChange={(e) => updateFamily(i, { ageAtOnset: numberOrUndefined(e.target.value) })} placeholder="Age at onset" className={`${inputClass} max-w-[140px]`} />
+              <button type="button" onClick={() => set('familyHistory', profile.familyHistory.filter((_, j) => j !== i))} className="px-3 text-slate-400 hover:text-red-500">
+                <X size={18} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button type="submit" disabled={saving} className="w-full flex items-center justify-center gap-2 px-6 py-4 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-300 text-white font-semibold rounded-xl transition-all shadow-lg">
+        {saving && <Loader2 size={18} className="animate-spin" />}
+        Save Profile
+      </button>
+    </form>
+  );
+};
+
+export default ProfileEditor;
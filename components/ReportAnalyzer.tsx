@@ -1,110 +1,169 @@
 
 import React, { useState } from 'react';
-import { Upload, FileText, Search, AlertCircle, CheckCircle2, Loader2, Image as ImageIcon } from 'lucide-react';
-import { createWorker } from 'tesseract.js';
-import jsPDF from 'jspdf';
-import html2canvas from 'html2canvas';
+import { Upload, FileText, Search, AlertCircle, CheckCircle2, Loader2, Image as ImageIcon, X, Plus, ShieldCheck } from 'lucide-react';
+import { authFetch } from '../services/authService';
+import { BrowserOcrProgress, canRecognizeInBrowser, recognizeInBrowser } from '../services/browserOcr';
+import { exportClinicalReport } from '../services/reportPdf';
+import { LabEdit, LabResult, OcrPage } from '../types';
+import LabResultsTable from './LabResultsTable';
+import OcrTextPreview from './OcrTextPreview';
+import ReportReviewEditor, { ReviewPage } from './ReportReviewEditor';
+import LipidTrends from './LipidTrends';
+
+interface SelectedFile {
+  file: File;
+  dataUrl: string;
+}
+
+// Matches the backend's limits in lib/documentIngest.js
+const MAX_FILES = 10;
+const MAX_TOTAL_BYTES = 35 * 1024 * 1024;
+const ON_DEVICE_OCR_KEY = 'cardiax.onDeviceOcr';
+
+const readAsDataUrl = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// Error bodies are JSON ({ error, code }) unless something in between failed
+const readFailure = async (response: Response): Promise<{ error?: string; code?: string }> => {
+  const text = await response.text();
+  console.error('Server error:', text);
+  try { return JSON.parse(text); } catch { return {}; }
+};
 
 const ReportAnalyzer: React.FC = () => {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<SelectedFile[]>([]);
+  const [pageCount, setPageCount] = useState<number | null>(null);
   const [analysis, setAnalysis] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [labResults, setLabResults] = useState<LabResult[]>([]);
+  const [ocrPages, setOcrPages] = useState<OcrPage[]>([]);
+  // Set after a successful save so the parsed values can be reviewed
+  const [reportId, setReportId] = useState<string | null>(null);
+  const [sourcePages, setSourcePages] = useState<{ page: number; fileName: string; filePage: number }[]>([]);
+  const [labEdits, setLabEdits] = useState<LabEdit[]>([]);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [reportsVersion, setReportsVersion] = useState(0);
+  // Offline mode: OCR runs in the browser and only text is uploaded
+  const [onDeviceOcr, setOnDeviceOcr] = useState(() => localStorage.getItem(ON_DEVICE_OCR_KEY) === 'true');
+  const [ocrProgress, setOcrProgress] = useState<BrowserOcrProgress | null>(null);
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setPreviewUrl(reader.result as string);
-      };
-      reader.readAsDataURL(file);
-      setAnalysis(null);
-    }
-  };
-const downloadReportPDF = async () => {
-  const reportElement = document.getElementById('report-summary'); // The div containing the report
-  
-  if (!reportElement) {
-    alert('Report not found');
-    return;
-  }
-
-  try {
-    // Show loading
-    alert('Generating PDF...');
-
-    // Capture the element as canvas
-    const canvas = await html2canvas(reportElement, {
-      scale: 2,
-      backgroundColor: '#ffffff',
-      useCORS: true
+  const toggleOnDeviceOcr = () => {
+    setOnDeviceOcr(on => {
+      localStorage.setItem(ON_DEVICE_OCR_KEY, String(!on));
+      return !on;
     });
+  };
 
-    // Create PDF
-    const pdf = new jsPDF({
-      orientation: 'portrait',
-      unit: 'mm',
-      format: 'a4'
-    });
+  // Appends to the current selection so several phone photos can be added one by one
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (!files.length) return;
 
-    const imgWidth = 210; // A4 width
-    const imgHeight = (canvas.height * imgWidth) / canvas.width;
-    let heightLeft = imgHeight;
-    let position = 0;
-
-    // Add image to PDF
-    const imgData = canvas.toDataURL('image/png');
-    pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-    heightLeft -= 297; // A4 height
-
-    // Add multiple pages if needed
-    while (heightLeft >= 0) {
-      position = heightLeft - imgHeight;
-      pdf.addPage();
-      pdf.addImage(imgData, 'PNG', 0, position, imgWidth, imgHeight);
-      heightLeft -= 297;
+    const combined = [...selectedFiles, ...await Promise.all(files.map(async file => ({ file, dataUrl: await readAsDataUrl(file) })))];
+    if (combined.length > MAX_FILES) {
+      alert(`You can upload at most ${MAX_FILES} files per report.`);
+      return;
+    }
+    if (combined.reduce((sum, f) => sum + f.file.size, 0) > MAX_TOTAL_BYTES) {
+      alert('These files are too large together. Keep the total under 35 MB.');
+      return;
     }
 
-    // Download
-    pdf.save('Medical_Report.pdf');
-    alert('PDF downloaded successfully!');
+    setSelectedFiles(combined);
+    setAnalysis(null);
+    setLabResults([]);
+    setOcrPages([]);
+    setReportId(null);
+    setPageCount(null);
+  };
+
+  const removeFile = (index: number) => setSelectedFiles(prev => prev.filter((_, i) => i !== index));
 
+  const clearFiles = () => {
+    setSelectedFiles([]);
+    setAnalysis(null);
+    setLabResults([]);
+    setOcrPages([]);
+    setReportId(null);
+    setPageCount(null);
+  };
+const downloadReportPDF = async () => {
+  setIsExporting(true);
+  try {
+    await exportClinicalReport({
+      title: 'Lab Report Analysis',
+      fileName: 'Medical_Report.pdf',
+      labResults,
+      summary: analysis ?? undefined
+    });
   } catch (error) {
     console.error('Error generating PDF:', error);
     alert('Failed to generate PDF');
+  } finally {
+    setIsExporting(false);
   }
 };
 
-
-
 const analyzeFile = async () => {
-  if (!previewUrl || !selectedFile) return;
+  if (!selectedFiles.length) return;
 
   setIsAnalyzing(true);
   setAnalysis(null);
+  setLabResults([]);
+  setOcrPages([]);
+  setReportId(null);
+  setLabEdits([]);
+  setPageCount(null);
+
+  const postAnalysis = (body: object) => authFetch('http://localhost:5000/api/medical/analyze', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+
+  const recognizeOnDevice = async () => {
+    const pages = await recognizeInBrowser(selectedFiles.map(f => f.file), setOcrProgress);
+    setOcrProgress(null);
+    return { pages: pages.map(({ fileName, text, confidence, words }) => ({ fileName, text, confidence, words })) };
+  };
 
   try {
-    const base64Data = previewUrl.split(',')[1];
-    
+    const allPhotos = selectedFiles.every(f => canRecognizeInBrowser(f.file));
+    if (onDeviceOcr && !allPhotos) {
+      throw new Error('On-device OCR reads photos only. Turn it off to upload PDFs.');
+    }
+
     // Point to backend on port 5000
-    const response = await fetch('http://localhost:5000/api/medical/analyze', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        image: base64Data,
-        mimeType: selectedFile.type
-      })
-    });
+    let response = await postAnalysis(onDeviceOcr
+      ? await recognizeOnDevice()
+      : {
+          files: selectedFiles.map(({ file, dataUrl }) => ({
+            name: file.name,
+            mimeType: file.type,
+            data: dataUrl.split(',')[1]
+          }))
+        });
 
     console.log('Response status:', response.status);
     console.log('Response headers:', response.headers.get('content-type'));
 
     if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Server error:', errorText);
-      throw new Error(`Server error: ${response.status}`);
+      // Unreadable uploads come back as 400 with advice worth showing
+      let failure = await readFailure(response);
+
+      // The backend has no working Tesseract: read the photos here instead
+      if (failure.code === 'EXTRACTION_FAILED' && !onDeviceOcr && allPhotos) {
+        console.log('Server OCR unavailable, retrying with on-device OCR');
+        response = await postAnalysis(await recognizeOnDevice());
+        if (!response.ok) failure = await readFailure(response);
+      }
+      if (!response.ok) throw new Error(failure.error || `Server error: ${response.status}`);
     }
 
     const contentType = response.headers.get("content-type");
@@ -118,6 +177,14 @@ const analyzeFile = async () => {
     
     if (result.success && result.analysis) {
       setAnalysis(result.analysis);
+      setLabResults(result.labResults || []);
+      setOcrPages(result.ocr || []);
+      setPageCount(result.pages?.length ?? null);
+      setSourcePages(result.pages || []);
+      if (result.reportId) {
+        setReportId(result.reportId);
+        setReportsVersion(v => v + 1);
+      }
     } else {
       setAnalysis("⚠️ Analysis completed but no results returned.");
     }
@@ -134,6 +201,7 @@ const analyzeFile = async () => {
     }
   } finally {
     setIsAnalyzing(false);
+    setOcrProgress(null);
   }
 };
 
@@ -142,25 +210,75 @@ const analyzeFile = async () => {
 
 
 
+  const reviewPages: ReviewPage[] = sourcePages.map(p => {
+    const source = selectedFiles.find(f => f.file.name === p.fileName);
+    return {
+      page: p.page,
+      fileName: p.fileName,
+      filePage: p.filePage,
+      dataUrl: source?.dataUrl,
+      mimeType: source?.file.type,
+      ocr: ocrPages.find(o => o.page === p.page)
+    };
+  });
+
   return (
     <div className="p-8 max-w-6xl mx-auto">
+      {isReviewing && reportId && (
+        <ReportReviewEditor
+          reportId={reportId}
+          pages={reviewPages}
+          labResults={labResults}
+          edits={labEdits}
+          onClose={() => setIsReviewing(false)}
+          onSaved={review => {
+            setLabResults(review.labResults);
+            setLabEdits(review.labEdits);
+            setIsReviewing(false);
+            setReportsVersion(v => v + 1);
+          }}
+        />
+      )}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
         {/* Upload Section */}
         <div className="space-y-6">
           <div className="bg-white p-8 rounded-3xl border-2 border-dashed border-slate-200 flex flex-col items-center justify-center min-h-[400px] text-center group hover:border-blue-400 transition-colors">
-            {previewUrl ? (
+            {selectedFiles.length > 0 ? (
               <div className="w-full h-full flex flex-col items-center">
-                <img 
-                  src={previewUrl} 
-                  alt="Report Preview" 
-                  className="max-h-[300px] w-auto rounded-xl shadow-lg mb-6 border border-slate-100" 
-                />
+                <div className="grid grid-cols-3 gap-3 w-full mb-6">
+                  {selectedFiles.map(({ file, dataUrl }, i) => (
+                    <div key={`${file.name}-${i}`} className="relative aspect-[3/4] rounded-xl border border-slate-100 shadow-sm overflow-hidden bg-slate-50">
+                      {file.type === 'application/pdf' ? (
+                        <div className="h-full flex flex-col items-center justify-center p-2 text-slate-500">
+                          <FileText size={28} className="text-red-500 mb-2" />
+                          <span className="text-[10px] font-bold truncate w-full">{file.name}</span>
+                        </div>
+                      ) : (
+                        <img src={dataUrl} alt={file.name} className="w-full h-full object-cover" />
+                      )}
+                      <span className="absolute bottom-1 left-1 px-1.5 py-0.5 rounded bg-slate-900/70 text-white text-[9px] font-black">{i + 1}</span>
+                      <button
+                        onClick={() => removeFile(i)}
+                        className="absolute top-1 right-1 p-1 rounded-full bg-white/90 text-slate-500 hover:text-red-500 shadow"
+                      >
+                        <X size={12} />
+                      </button>
+                    </div>
+                  ))}
+                  {selectedFiles.length < MAX_FILES && (
+                    <label className="aspect-[3/4] rounded-xl border-2 border-dashed border-slate-200 flex flex-col items-center justify-center text-slate-400 hover:border-blue-400 hover:text-blue-500 cursor-pointer transition-colors">
+                      <Plus size={24} />
+                      <span className="text-[10px] font-bold mt-1">Add page</span>
+                      <input type="file" className="hidden" accept="image/*,application/pdf" multiple onChange={handleFileChange} />
+                    </label>
+                  )}
+                </div>
                 <div className="flex gap-4">
                   <button 
-                    onClick={() => {setSelectedFile(null); setPreviewUrl(null); setAnalysis(null);}}
+                    onClick={clearFiles}
                     className="px-6 py-2 rounded-xl text-slate-600 hover:bg-slate-100 font-medium transition-colors"
                   >
-                    Remove
+                    Remove All
                   </button>
                   <button 
                     onClick={analyzeFile}
@@ -179,17 +297,36 @@ const analyzeFile = async () => {
                 </div>
                 <h3 className="text-xl font-bold text-slate-800 mb-2">Upload Medical Report</h3>
                 <p className="text-slate-500 mb-8 max-w-[280px]">
-                  Upload a clear photo of your lab results, blood work, or doctor's note for AI interpretation.
+                  Upload a PDF or photos of every page of your lab results, blood work, or doctor's note for AI interpretation.
                 </p>
                 <label className="cursor-pointer bg-slate-900 text-white px-8 py-3 rounded-xl font-bold hover:bg-slate-800 transition-all shadow-xl">
-                  Select File
-                  <input type="file" className="hidden" accept="image/*" onChange={handleFileChange} />
+                  Select Files
+                  <input type="file" className="hidden" accept="image/*,application/pdf" multiple onChange={handleFileChange} />
                 </label>
-                <p className="mt-4 text-xs text-slate-400">Supported: JPG, PNG, WEBP (Max 5MB)</p>
+                <p className="mt-4 text-xs text-slate-400">Supported: PDF, JPG, PNG, WEBP • up to {MAX_FILES} files</p>
               </>
             )}
           </div>
 
+          <div className="bg-white border border-slate-200 p-6 rounded-2xl flex items-center gap-4">
+            <ShieldCheck size={24} className={onDeviceOcr ? 'text-emerald-600 shrink-0' : 'text-slate-300 shrink-0'} />
+            <div className="flex-1">
+              <h4 className="font-bold text-slate-800 mb-1 text-sm">On-device OCR</h4>
+              <p className="text-slate-500 text-xs leading-relaxed">
+                Read photos in this browser and upload only the recognised text. Your images never leave the device. PDFs still need the server.
+              </p>
+            </div>
+            <button
+              onClick={toggleOnDeviceOcr}
+              disabled={isAnalyzing}
+              role="switch"
+              aria-checked={onDeviceOcr}
+              className={`relative w-11 h-6 rounded-full transition-colors shrink-0 ${onDeviceOcr ? 'bg-emerald-500' : 'bg-slate-200'}`}
+            >
+              <span className={`absolute top-0.5 left-0.5 w-5 h-5 rounded-full bg-white shadow transition-transform ${onDeviceOcr ? 'translate-x-5' : ''}`} />
+            </button>
+          </div>
+
           <div className="bg-blue-50 border border-blue-100 p-6 rounded-2xl flex gap-4">
             <AlertCircle size={24} className="text-blue-600 shrink-0" />
             <div>
@@ -203,6 +340,9 @@ const analyzeFile = async () => {
 
         {/* Results Section */}
         <div className="space-y-6">
+          <LabResultsTable results={labResults} onReview={reportId ? () => setIsReviewing(true) : undefined} />
+          <OcrTextPreview pages={ocrPages} />
+
           <div className="bg-white rounded-3xl border border-slate-200 shadow-sm min-h-[500px] overflow-hidden flex flex-col">
             <div className="px-8 py-6 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between">
               <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
@@ -212,7 +352,7 @@ const analyzeFile = async () => {
               {analysis && (
                 <span className="flex items-center gap-1 text-[10px] font-bold text-green-600 uppercase tracking-widest bg-green-50 px-2 py-1 rounded">
                   <CheckCircle2 size={12} />
-                  Ready
+                  {pageCount && pageCount > 1 ? `${pageCount} pages` : 'Ready'}
                 </span>
               )}
             </div>
@@ -235,7 +375,21 @@ const analyzeFile = async () => {
                   </div>
                   <div className="text-center space-y-2">
                     <h4 className="text-lg font-bold text-slate-800">Processing Document</h4>
-                    <p className="text-sm text-slate-500 animate-pulse">Running advanced OCR and clinical analysis...</p>
+                    {ocrProgress ? (
+                      <>
+                        <p className="text-sm text-slate-500">
+                          Reading page {ocrProgress.page} of {ocrProgress.pages} on this device ({ocrProgress.status})...
+                        </p>
+                        <div className="w-64 h-2 bg-slate-100 rounded-full overflow-hidden mx-auto">
+                          <div
+                            className="h-full bg-blue-600 transition-all"
+                            style={{ width: `${Math.round(((ocrProgress.page - 1 + ocrProgress.progress) / ocrProgress.pages) * 100)}%` }}
+                          />
+                        </div>
+                      </>
+                    ) : (
+                      <p className="text-sm text-slate-500 animate-pulse">Running advanced OCR and clinical analysis...</p>
+                    )}
                   </div>
                 </div>
               ) : (
@@ -253,9 +407,11 @@ const analyzeFile = async () => {
             {analysis && (
               <div className="p-6 bg-slate-50 border-t border-slate-100">
                 <button 
-  className="w-full bg-white border border-slate-200 text-slate-700 font-bold py-3 rounded-xl hover:bg-slate-100 transition-colors text-sm"
+  className="w-full bg-white border border-slate-200 text-slate-700 font-bold py-3 rounded-xl hover:bg-slate-100 transition-colors text-sm flex items-center justify-center gap-2 disabled:opacity-50"
   onClick={downloadReportPDF}
+  disabled={isExporting}
 >
+  {isExporting && <Loader2 size={16} className="animate-spin" />}
   Download Report Summary
 </button>
               </div>
@@ -263,6 +419,11 @@ const analyzeFile = async () => {
           </div>
         </div>
       </div>
+
+      {/* History across every uploaded report */}
+      <div className="mt-12">
+        <LipidTrends refreshKey={reportsVersion} />
+      </div>
     </div>
   );
 };
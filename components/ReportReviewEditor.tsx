@@ -0,0 +1,275 @@
+import React, { useMemo, useState } from 'react';
+import { X, Save, Loader2, Trash2, Plus, FileText, History, ScanEye } from 'lucide-react';
+import { LabEdit, LabResult, OcrPage } from '../types';
+import { LabReview, aiService } from '../services/aiService';
+import { ANALYTES, correctLabResult, manualLabResult } from '../shared/labParser.js';
+import { OcrText } from './OcrTextPreview';
+import { isUncertain } from './LabResultsTable';
+
+// One page of the uploaded document as the user sees it during review
+export interface ReviewPage {
+  page: number;
+  fileName: string;
+  filePage: number;
+  dataUrl?: string;      // the original file, if still selected in the browser
+  mimeType?: string;
+  ocr?: OcrPage;         // absent for PDF pages read from the text layer
+}
+
+interface ReportReviewEditorProps {
+  reportId: string;
+  pages: ReviewPage[];
+  labResults: LabResult[];
+  edits: LabEdit[];
+  onClose: () => void;
+  onSaved: (review: LabReview) => void;
+}
+
+interface DraftRow {
+  result: LabResult;
+  input: string;
+}
+
+const FLAG_STYLES: Record<LabResult['flag'], string> = {
+  high: 'bg-red-50 text-red-700',
+  low: 'bg-amber-50 text-amber-700',
+  normal: 'bg-emerald-50 text-emerald-700'
+};
+
+const ACTION_LABELS: Record<LabEdit['action'], string> = {
+  corrected: 'Corrected',
+  added: 'Added',
+  removed: 'Removed'
+};
+
+const analyteName = (id: string) => ANALYTES.find(a => a.id === id)?.name ?? id;
+
+// Live preview of a row: the parsed result re-flagged with the typed value
+const previewOf = (row: DraftRow): LabResult | null => {
+  const value = parseFloat(row.input.replace(',', '.'));
+  if (!Number.isFinite(value)) return null;
+  return value === row.result.value ? row.result : correctLabResult(row.result, value);
+};
+
+// Original page next to what OCR read from it, with the parsed values
+// editable before they feed the risk score, trends and chat
+const ReportReviewEditor: React.FC<ReportReviewEditorProps> = ({ reportId, pages, labResults, edits, onClose, onSaved }) => {
+  const [rows, setRows] = useState<DraftRow[]>(() => labResults.map(result => ({ result, input: String(result.value) })));
+  const [pageIndex, setPageIndex] = useState(0);
+  const [newAnalyte, setNewAnalyte] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const current = pages[pageIndex];
+  const available = useMemo(() => ANALYTES.filter(a => !rows.some(r => r.result.analyte === a.id)), [rows]);
+  const invalid = rows.some(r => !previewOf(r));
+
+  const updateRow = (analyte: string, input: string) =>
+    setRows(prev => prev.map(r => r.result.analyte === analyte ? { ...r, input } : r));
+
+  const removeRow = (analyte: string) => setRows(prev => prev.filter(r => r.result.analyte !== analyte));
+
+  const addRow = () => {
+    const value = parseFloat(newValue.replace(',', '.'));
+    const result = Number.isFinite(value) ? manualLabResult(newAnalyte, value, { page: current?.page }) : null;
+    if (!result) return;
+    setRows(prev => [...prev, { result, input: String(result.value) }]);
+    setNewAnalyte('');
+    setNewValue('');
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const review = await aiService.saveLabReview(reportId, rows.map(row => ({
+        analyte: row.result.analyte,
+        value: previewOf(row)!.value,
+        page: row.result.page
+      })));
+      onSaved(review);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-7xl h-full max-h-[92vh] flex flex-col overflow-hidden">
+        <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+              <ScanEye size={20} className="text-blue-600" />
+              Review Extracted Values
+            </h3>
+            <p className="text-xs text-slate-500">Compare each value with the original and fix anything that was misread.</p>
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-400 hover:bg-slate-100 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 min-h-0">
+          {/* Original document */}
+          <div className="flex flex-col min-h-0 border-r border-slate-100 bg-slate-50">
+            {pages.length > 1 && (
+              <div className="px-6 pt-4 flex gap-2 flex-wrap">
+                {pages.map((p, i) => (
+                  <button
+                    key={p.page}
+                    onClick={() => setPageIndex(i)}
+                    className={`px-3 py-1 rounded-full text-xs font-bold ${i === pageIndex ? 'bg-slate-900 text-white' : 'bg-white text-slate-600 border border-slate-200'}`}
+                  >
+                    Page {p.page}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex-1 p-6 min-h-0 overflow-auto">
+              {!current?.dataUrl ? (
+                <div className="h-full flex flex-col items-center justify-center text-slate-400 text-sm">
+                  <FileText size={40} className="mb-3 opacity-40" />
+                  The original file is no longer selected in this browser.
+                </div>
+              ) : current.mimeType === 'application/pdf' ? (
+                <embed src={`${current.dataUrl}#page=${current.filePage}`} type="application/pdf" className="w-full h-full min-h-[480px] rounded-xl" />
+              ) : (
+                <img src={current.dataUrl} alt={current.fileName} className="w-full rounded-xl shadow-sm" />
+              )}
+            </div>
+          </div>
+
+          {/* Extracted text and values */}
+          <div className="flex flex-col min-h-0 overflow-y-auto">
+            <div className="p-6 border-b border-slate-100">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">
+                Recognised text{current?.ocr ? ` • ${current.ocr.confidence}% confidence` : ''}
+              </p>
+              {current?.ocr ? (
+                <div className="max-h-56 overflow-y-auto">
+                  <OcrText page={current.ocr} />
+                </div>
+              ) : (
+                <p className="text-xs text-slate-500">Read from the PDF's text layer, so there are no OCR errors on this page.</p>
+              )}
+            </div>
+
+            <div className="p-6">
+              <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Values</p>
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-slate-100">
+                  {rows.map(row => {
+                    const preview = previewOf(row);
+                    const uncertain = isUncertain(row.result);
+                    const onPage = !current || !row.result.page || row.result.page === current.page;
+                    return (
+                      <tr key={row.result.analyte} className={onPage ? '' : 'opacity-50'}>
+                        <td className="py-2 pr-3">
+                          <p className="font-bold text-slate-800">{row.result.name}</p>
+                          {row.result.sourceLine ? (
+                            <p className="text-[10px] text-slate-400 font-mono truncate max-w-[220px]" title={row.result.sourceLine}>{row.result.sourceLine}</p>
+                          ) : (
+                            <p className="text-[10px] text-slate-400">Entered by hand</p>
+                          )}
+                        </td>
+                        <td className="py-2 pr-2">
+                          <input
+                            value={row.input}
+                            onChange={e => updateRow(row.result.analyte, e.target.value)}
+                            inputMode="decimal"
+                            className={`w-24 px-3 py-1.5 rounded-lg border text-sm font-bold outline-none focus:ring-2 focus:ring-blue-500 ${
+                              !preview ? 'border-red-300 bg-red-50' : uncertain ? 'border-amber-300 bg-amber-50' : 'border-slate-200'
+                            }`}
+                          />
+                          {uncertain && <p className="text-[10px] font-bold text-amber-600 mt-1">OCR {row.result.confidence}% sure</p>}
+                        </td>
+                        <td className="py-2 pr-2 text-xs text-slate-400">{row.result.unit}</td>
+                        <td className="py-2 pr-2">
+                          {preview && (
+                            <span className={`px-2 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${FLAG_STYLES[preview.flag]}`}>
+                              {preview.flag}
+                            </span>
+                          )}
+                        </td>
+                        <td className="py-2 text-right">
+                          <button onClick={() => removeRow(row.result.analyte)} className="p-1.5 text-slate-300 hover:text-red-500" title="Not on the report">
+                            <Trash2 size={14} />
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div className="mt-4 flex gap-2">
+                <select
+                  value={newAnalyte}
+                  onChange={e => setNewAnalyte(e.target.value)}
+                  className="flex-1 px-3 py-2 rounded-lg border border-slate-200 text-sm text-slate-700 bg-white"
+                >
+                  <option value="">Add a missed value…</option>
+                  {available.map(a => <option key={a.id} value={a.id}>{a.name} ({a.unit})</option>)}
+                </select>
+                <input
+                  value={newValue}
+                  onChange={e => setNewValue(e.target.value)}
+                  placeholder="Value"
+                  inputMode="decimal"
+                  className="w-24 px-3 py-2 rounded-lg border border-slate-200 text-sm"
+                />
+                <button
+                  onClick={addRow}
+                  disabled={!newAnalyte || !Number.isFinite(parseFloat(newValue.replace(',', '.')))}
+                  className="px-3 py-2 rounded-lg bg-slate-900 text-white disabled:opacity-30"
+                >
+                  <Plus size={16} />
+                </button>
+              </div>
+            </div>
+
+            {edits.length > 0 && (
+              <div className="px-6 pb-6">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2 flex items-center gap-1">
+                  <History size={12} /> Edit history
+                </p>
+                <ul className="space-y-1 text-xs text-slate-600">
+                  {edits.map((edit, i) => (
+                    <li key={i}>
+                      <span className="font-bold">{ACTION_LABELS[edit.action]}</span> {analyteName(edit.analyte)}
+                      {edit.action === 'corrected' && <> from {edit.from} to {edit.to} {edit.unit}</>}
+                      {edit.action === 'added' && <> ({edit.to} {edit.unit})</>}
+                      <span className="text-slate-400"> • {new Date(edit.editedAt).toLocaleString()}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="px-8 py-4 border-t border-slate-100 flex items-center justify-between gap-4">
+          <p className="text-xs text-red-500">{error}</p>
+          <div className="flex gap-3">
+            <button onClick={onClose} className="px-6 py-2 rounded-xl text-slate-600 hover:bg-slate-100 font-medium">
+              Cancel
+            </button>
+            <button
+              onClick={save}
+              disabled={isSaving || invalid}
+              className="px-6 py-2 bg-blue-600 text-white rounded-xl hover:bg-blue-700 font-bold flex items-center gap-2 disabled:opacity-50"
+            >
+              {isSaving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+              Confirm Values
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportReviewEditor;
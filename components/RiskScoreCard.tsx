@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { HeartPulse, Loader2, CheckCircle2, XCircle, AlertTriangle, MinusCircle } from 'lucide-react';
+import { CardioRiskResult, RiskInputStatus } from '../types';
+import { riskService } from '../services/riskService';
+import { RISK_CATEGORIES } from '../shared/cardioRisk.js';
+
+interface RiskScoreCardProps {
+  // Bumped by the parent whenever an input (eye analysis, profile, report) changes
+  refreshKey?: number;
+}
+
+const CATEGORY_STYLES: Record<string, string> = {
+  low: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+  intermediate: 'bg-amber-50 text-amber-700 border-amber-100',
+  high: 'bg-red-50 text-red-700 border-red-100'
+};
+
+const formatValue = (input: RiskInputStatus) => {
+  if (input.value === null) return '—';
+  if (typeof input.value === 'boolean') return input.value ? 'Yes' : 'No';
+  return `${input.value}${input.unit ? ` ${input.unit}` : ''}`;
+};
+
+const StatusIcon: React.FC<{ status: RiskInputStatus['status'] }> = ({ status }) => {
+  if (status === 'used') return <CheckCircle2 size={14} className="text-emerald-500 shrink-0" />;
+  if (status === 'missing') return <XCircle size={14} className="text-red-400 shrink-0" />;
+  if (status === 'enhancer') return <AlertTriangle size={14} className="text-amber-500 shrink-0" />;
+  return <MinusCircle size={14} className="text-slate-300 shrink-0" />;
+};
+
+const RiskScoreCard: React.FC<RiskScoreCardProps> = ({ refreshKey = 0 }) => {
+  const [risk, setRisk] = useState<CardioRiskResult | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setLoading(true);
+    riskService.getRiskScore().then(result => {
+      setRisk(result);
+      setLoading(false);
+    });
+  }, [refreshKey]);
+
+  const category = risk?.category ? RISK_CATEGORIES.find(c => c.id === risk.category) : null;
+
+  return (
+    <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm">
+      <div className="flex items-center gap-4 mb-8">
+        <div className="p-4 bg-rose-50 text-rose-500 rounded-3xl">
+          <HeartPulse size={32} />
+        </div>
+        <div>
+          <h3 className="text-2xl font-black text-slate-900 tracking-tight">10-Year Heart Risk</h3>
+          <p className="text-sm text-slate-400 font-medium">Framingham general cardiovascular risk model</p>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-10 text-slate-400">
+          <Loader2 size={28} className="animate-spin" />
+        </div>
+      ) : !risk ? (
+        <p className="text-sm text-slate-500">Risk score unavailable. Make sure the backend is running on port 5000.</p>
+      ) : (
+        <div className="grid lg:grid-cols-2 gap-8">
+          <div>
+            {risk.riskPercent !== null ? (
+              <div className="flex items-end gap-4 mb-4">
+                <span className="text-6xl font-black text-slate-900 tracking-tighter">{risk.riskPercent}%</span>
+                {category && (
+                  <span className={`mb-2 px-3 py-1 rounded-full border text-[10px] font-black uppercase tracking-widest ${CATEGORY_STYLES[category.id]}`}>
+                    {category.label} risk
+                  </span>
+                )}
+              </div>
+            ) : (
+              <p className="text-4xl font-black text-slate-300 mb-4">—</p>
+            )}
+            <p className="text-sm text-slate-600 leading-relaxed">{risk.message}</p>
+            {risk.heartAge !== null && (
+              <p className="mt-3 text-sm font-bold text-slate-700">Estimated heart age: {risk.heartAge}</p>
+            )}
+            {risk.enhancers.length > 0 && (
+              <div className="mt-6 space-y-2">
+                {risk.enhancers.map(e => (
+                  <div key={e.key} className="p-3 bg-amber-50 border border-amber-100 rounded-xl">
+                    <p className="text-xs font-black text-amber-800">{e.label}</p>
+                    <p className="text-xs text-amber-700">{e.detail}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Inputs</p>
+            <div className="divide-y divide-slate-100">
+              {risk.inputs.map(input => (
+                <div key={input.key} className="flex items-center gap-3 py-2 text-sm">
+                  <StatusIcon status={input.status} />
+                  <span className={`flex-1 ${input.status === 'missing' ? 'text-red-500 font-bold' : 'text-slate-700'}`}>{input.label}</span>
+                  <span className="font-bold text-slate-900">{formatValue(input)}</span>
+                  {input.source && <span className="hidden md:inline text-[10px] text-slate-400 w-40 truncate text-right">{input.source}</span>}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskScoreCard;
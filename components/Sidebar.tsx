@@ -1,19 +1,22 @@
 
 import React from 'react';
-import { View } from '../types';
-import { Activity, MessageSquare, FileText, Heart, ScanFace, User } from 'lucide-react';
+import { AuthUser, View } from '../types';
+import { Activity, MessageSquare, FileText, Heart, ScanFace, User, ClipboardList, CalendarRange } from 'lucide-react';
 
 interface SidebarProps {
   activeView: View;
   onViewChange: (view: View) => void;
+  user: AuthUser;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ activeView, onViewChange }) => {
+const Sidebar: React.FC<SidebarProps> = ({ activeView, onViewChange, user }) => {
   const navItems = [
     { id: View.DASHBOARD, label: 'Dashboard', icon: Activity },
     { id: View.VITAL_SCAN, label: 'Vital Scan', icon: ScanFace },
     { id: View.CHAT, label: 'Symptom AI', icon: MessageSquare },
     { id: View.REPORTS, label: 'Report Analyzer', icon: FileText },
+    { id: View.PROFILE, label: 'Health Profile', icon: ClipboardList },
+    { id: View.VISIT_SUMMARY, label: 'Visit Summary', icon: CalendarRange },
     
   ];
 
@@ -48,13 +51,18 @@ const Sidebar: React.FC<SidebarProps> = ({ activeView, onViewChange }) => {
        
 
         <div className="border-t border-slate-700 pt-4">
-          <button className="w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200 hover:bg-slate-800 group">
+          <button
+            onClick={() => onViewChange(View.ACCOUNT)}
+            className={`w-full flex items-center gap-3 px-4 py-3 rounded-xl transition-all duration-200 group ${
+              activeView === View.ACCOUNT ? 'bg-slate-800' : 'hover:bg-slate-800'
+            }`}
+          >
             <div className="p-2 bg-blue-500/20 rounded-lg text-blue-400 group-hover:bg-blue-500/30 transition-colors">
               <User size={20} />
             </div>
-            <div className="flex-1 text-left">
-              <p className="text-sm font-medium text-white">User Profile</p>
-              
+            <div className="flex-1 text-left min-w-0">
+              <p className="text-sm font-medium text-white truncate">{user.name}</p>
+              <p className="text-xs text-slate-500 truncate">{user.email}</p>
             </div>
           </button>
         </div>
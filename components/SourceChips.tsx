@@ -0,0 +1,90 @@
+import React from 'react';
+import { FileText, HeartPulse, Activity } from 'lucide-react';
+import { ChatSource } from '../types';
+
+interface SourceChipsProps {
+  sources: ChatSource[];
+  onOpen: (source: ChatSource) => void;
+}
+
+const CHIP_STYLES: Record<ChatSource['kind'], string> = {
+  report: 'bg-blue-50 text-blue-700 border-blue-100 hover:bg-blue-100',
+  scan: 'bg-rose-50 text-rose-700 border-rose-100 hover:bg-rose-100',
+  reading: 'bg-emerald-50 text-emerald-700 border-emerald-100 hover:bg-emerald-100'
+};
+
+const ICONS: Record<ChatSource['kind'], React.ElementType> = {
+  report: FileText,
+  scan: HeartPulse,
+  reading: Activity
+};
+
+export const sourceLabel = (source: ChatSource) => {
+  switch (source.kind) {
+    case 'report':
+      return `${source.reportType} • ${source.date}${source.pages.length ? ` • p. ${source.pages.join(', ')}` : ''}`;
+    case 'scan':
+      return `Vital scan • ${source.date}`;
+    case 'reading':
+      return `${source.device} • ${source.date}`;
+  }
+};
+
+// Citations in the answer text, e.g. "[R1]" or "[R1, S2]"
+const CITATION = /\[([A-Z]\d+(?:\s*,\s*[A-Z]\d+)*)\]/g;
+
+/** One line of an answer with its citations as small buttons */
+export const CitedText: React.FC<{ text: string } & SourceChipsProps> = ({ text, sources, onOpen }) => {
+  if (!sources.length) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION)) {
+    const cited = match[1].split(/\s*,\s*/).map(tag => sources.find(s => s.tag === tag));
+    // Tags the answer made up stay as plain text
+    if (cited.some(source => !source)) continue;
+    parts.push(text.slice(last, match.index));
+    cited.forEach(source => parts.push(
+      <button
+        key={`${match.index}-${source!.tag}`}
+        onClick={() => onOpen(source!)}
+        title={sourceLabel(source!)}
+        className={`inline-flex items-center mx-0.5 px-1.5 rounded-md border text-[10px] font-black align-middle ${CHIP_STYLES[source!.kind]}`}
+      >
+        {source!.tag}
+      </button>
+    ));
+    last = match.index! + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return <>{parts}</>;
+};
+
+// The reports, scans and readings an answer cites; each opens the record
+const SourceChips: React.FC<SourceChipsProps> = ({ sources, onOpen }) => {
+  if (!sources.length) return null;
+
+  return (
+    <div className="mt-4 pt-3 border-t border-slate-200">
+      <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Sources</div>
+      <div className="flex flex-wrap gap-2">
+        {sources.map(source => {
+          const Icon = ICONS[source.kind];
+          return (
+            <button
+              key={source.tag}
+              onClick={() => onOpen(source)}
+              className={`flex items-center gap-1.5 max-w-full px-2.5 py-1 rounded-full border text-xs font-semibold transition-colors ${CHIP_STYLES[source.kind]}`}
+            >
+              <Icon size={12} className="shrink-0" />
+              <span className="font-black">{source.tag}</span>
+              <span className="truncate">{sourceLabel(source)}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SourceChips;
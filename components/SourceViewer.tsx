@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { X, Loader2, AlertCircle, Quote } from 'lucide-react';
+import { ChatSource } from '../types';
+import { chatSourceService, CitedReading, CitedScan, SourceRecord } from '../services/chatSourceService';
+import LabResultsTable from './LabResultsTable';
+import { sourceLabel } from './SourceChips';
+
+interface SourceViewerProps {
+  source: ChatSource;
+  onClose: () => void;
+}
+
+const Metric: React.FC<{ label: string; value?: string | number; unit: string }> = ({ label, value, unit }) => (
+  value === undefined ? null : (
+    <div className="bg-slate-50 rounded-2xl border border-slate-100 p-4">
+      <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">{label}</div>
+      <div className="text-xl font-bold text-slate-800">
+        {value} <span className="text-xs font-semibold text-slate-400">{unit}</span>
+      </div>
+    </div>
+  )
+);
+
+const ScanDetails: React.FC<{ scan: CitedScan }> = ({ scan }) => (
+  <div className="space-y-4">
+    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+      <Metric label="Heart rate" value={scan.heartRate} unit="bpm" />
+      <Metric label="HRV" value={scan.hrv} unit="ms" />
+      <Metric label="Blood pressure" value={`${scan.bloodPressure.systolic}/${scan.bloodPressure.diastolic}`} unit="mmHg" />
+      <Metric label="Stress index" value={scan.stressIndex || undefined} unit="" />
+    </div>
+    {scan.interpretation && (
+      <p className="text-sm text-slate-600">
+        <span className="font-bold text-slate-800">{scan.interpretation.status}</span> — {scan.interpretation.verdict}
+      </p>
+    )}
+    {scan.qualityLevel === 'low' && (
+      <p className="text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded-xl px-3 py-2">
+        Low signal quality{scan.qualityReasons?.length ? `: ${scan.qualityReasons.join(', ').replace(/_/g, ' ')}` : ''}
+      </p>
+    )}
+    {scan.aiInterpretation && <p className="text-sm text-slate-600 whitespace-pre-wrap">{scan.aiInterpretation}</p>}
+  </div>
+);
+
+const ReadingDetails: React.FC<{ reading: CitedReading }> = ({ reading }) => (
+  <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+    <Metric label="Heart rate" value={reading.bpm} unit="bpm" />
+    <Metric label="Resting heart rate" value={reading.restingHeartRate} unit="bpm" />
+    <Metric label="SpO2" value={reading.spo2} unit="%" />
+    <Metric label="Blood pressure" value={reading.systolic !== undefined ? `${reading.systolic}/${reading.diastolic}` : undefined} unit="mmHg" />
+    <Metric label={reading.hrvMethod === 'sdnn' ? 'HRV (SDNN)' : 'HRV'} value={reading.hrv} unit="ms" />
+  </div>
+);
+
+// The report, scan or reading behind a citation, so the patient can check
+// what the answer said against the record itself
+const SourceViewer: React.FC<SourceViewerProps> = ({ source, onClose }) => {
+  const [record, setRecord] = useState<SourceRecord | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRecord(null);
+    setError(null);
+    chatSourceService.load(source)
+      .then(loaded => { if (!cancelled) setRecord(loaded); })
+      .catch(err => { if (!cancelled) setError(err.message); });
+    return () => { cancelled = true; };
+  }, [source]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-6" onClick={onClose}>
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-8 py-5 border-b border-slate-100 flex items-center justify-between">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-slate-800 truncate">
+              <span className="text-blue-600">[{source.tag}]</span> {sourceLabel(source)}
+            </h3>
+            {source.kind === 'report' && source.fileNames.length > 0 && (
+              <p className="text-xs text-slate-500 truncate">{source.fileNames.join(', ')}</p>
+            )}
+          </div>
+          <button onClick={onClose} className="p-2 rounded-full text-slate-400 hover:bg-slate-100 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-8 space-y-6">
+          {source.kind === 'report' && source.excerpts.length > 0 && (
+            <div className="space-y-2">
+              <div className="text-[10px] font-black uppercase tracking-widest text-slate-400">Passages the answer drew on</div>
+              {source.excerpts.map((excerpt, i) => (
+                <blockquote key={i} className="flex gap-3 bg-blue-50/50 border border-blue-100 rounded-2xl p-4 text-sm text-slate-700 whitespace-pre-wrap">
+                  <Quote size={14} className="text-blue-400 shrink-0 mt-0.5" />
+                  {excerpt}
+                </blockquote>
+              ))}
+            </div>
+          )}
+
+          {error ? (
+            <div className="flex items-center gap-2 text-sm text-red-600">
+              <AlertCircle size={16} /> {error}
+            </div>
+          ) : !record ? (
+            <div className="flex items-center gap-2 text-sm text-slate-500">
+              <Loader2 size={16} className="animate-spin" /> Loading...
+            </div>
+          ) : record.kind === 'report' ? (
+            <>
+              <LabResultsTable results={record.report.labResults || []} />
+              {record.report.aiAnalysis && (
+                <div>
+                  <div className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Analysis</div>
+                  <p className="text-sm text-slate-600 whitespace-pre-wrap">{record.report.aiAnalysis}</p>
+                </div>
+              )}
+            </>
+          ) : record.kind === 'scan' ? (
+            <ScanDetails scan={record.scan} />
+          ) : (
+            <ReadingDetails reading={record.reading} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceViewer;
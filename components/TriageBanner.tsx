@@ -0,0 +1,63 @@
+import React from 'react';
+import { Siren, AlertTriangle, Phone, X } from 'lucide-react';
+import { TriageResult } from '../types';
+
+interface TriageBannerProps {
+  triage: TriageResult;
+  onDismiss: () => void;
+}
+
+const STYLES = {
+  emergency: {
+    box: 'bg-red-600 text-white border-red-700',
+    muted: 'text-red-100',
+    title: 'This may be a medical emergency'
+  },
+  urgent: {
+    box: 'bg-amber-50 text-amber-900 border-amber-200',
+    muted: 'text-amber-700',
+    title: 'Please get medical advice today'
+  }
+};
+
+// Shown as soon as the rule-based triage (shared/triage.js) flags a message,
+// independent of the AI reply
+const TriageBanner: React.FC<TriageBannerProps> = ({ triage, onDismiss }) => {
+  if (triage.level === 'none') return null;
+  const style = STYLES[triage.level];
+  const Icon = triage.level === 'emergency' ? Siren : AlertTriangle;
+
+  return (
+    <div role="alert" className={`mx-6 my-3 rounded-2xl border p-5 shadow-sm ${style.box}`}>
+      <div className="flex items-start gap-3">
+        <Icon size={24} className="shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <div className="font-black">{style.title}</div>
+          <ul className={`text-xs mt-1 space-y-0.5 ${style.muted}`}>
+            {triage.findings.map(f => (
+              <li key={`${f.source}-${f.id}`}>
+                {f.label}{f.source !== 'message' && ` (${f.detail})`}
+              </li>
+            ))}
+          </ul>
+          <ul className="text-sm font-semibold mt-3 space-y-1 list-disc pl-4">
+            {triage.guidance.map(line => <li key={line}>{line}</li>)}
+          </ul>
+          {triage.level === 'emergency' && (
+            <a
+              href="tel:112"
+              className="inline-flex items-center gap-2 mt-4 px-4 py-2 rounded-full bg-white text-red-700 text-sm font-black shadow"
+            >
+              <Phone size={14} /> Call emergency services
+            </a>
+          )}
+        </div>
+        <button onClick={onDismiss} title="Dismiss" className="p-1 rounded-full opacity-70 hover:opacity-100">
+          <X size={18} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TriageBanner;
@@ -0,0 +1,264 @@
+import React, { useState } from 'react';
+import { CalendarRange, Loader2, Download, AlertCircle, Activity, FlaskConical, MessageSquare, FileText, Sparkles, ArrowRight } from 'lucide-react';
+import { VisitSummary as VisitSummaryData, VitalSource } from '../types';
+import { visitSummaryService } from '../services/visitSummaryService';
+import { exportVisitSummary } from '../services/reportPdf';
+
+const PRESETS = [
+  { label: 'Last 30 days', days: 30 },
+  { label: 'Last 90 days', days: 90 },
+  { label: 'Last 6 months', days: 182 }
+];
+
+const SOURCE_LABELS: Record<VitalSource, string> = {
+  scan: 'Camera scans',
+  device: 'ESP32 device',
+  sensor: 'Sensor feed',
+  wearable: 'Wearable imports'
+};
+
+const FLAG_STYLES = {
+  high: 'bg-red-50 text-red-700',
+  low: 'bg-amber-50 text-amber-700',
+  normal: 'bg-emerald-50 text-emerald-700'
+};
+
+const inputClass = 'px-4 py-2.5 rounded-xl border border-slate-200 bg-slate-50 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm';
+const cardClass = 'bg-white rounded-3xl border border-slate-100 shadow-sm p-8';
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+const daysAgo = (days: number) => isoDay(new Date(Date.now() - days * 24 * 60 * 60 * 1000));
+const formatDate = (value: string) => new Date(value).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+
+const SectionTitle: React.FC<{ icon: React.ElementType; title: string }> = ({ icon: Icon, title }) => (
+  <div className="flex items-center gap-2 mb-6 text-slate-900">
+    <Icon size={20} className="text-blue-600" />
+    <h2 className="font-bold text-lg">{title}</h2>
+  </div>
+);
+
+// Everything recorded over a date range, compiled into one document to take
+// to an appointment
+const VisitSummary: React.FC = () => {
+  const [from, setFrom] = useState(daysAgo(30));
+  const [to, setTo] = useState(isoDay(new Date()));
+  const [summary, setSummary] = useState<VisitSummaryData | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const generate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      // Whole days in local time
+      const start = new Date(`${from}T00:00:00`);
+      const end = new Date(`${to}T23:59:59.999`);
+      setSummary(await visitSummaryService.generate(start, end));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!summary) return;
+    setIsExporting(true);
+    try {
+      await exportVisitSummary(summary);
+    } catch (err) {
+      console.error('Visit summary export failed:', err);
+      setError('Could not create the PDF. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="p-8 max-w-5xl mx-auto space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-slate-900">Visit Summary</h1>
+          <p className="text-slate-500 mt-1">
+            Scans, sensor readings, lab reports and the symptoms you mentioned in chat, in one document for your doctor.
+          </p>
+        </div>
+        {summary && (
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="shrink-0 px-5 py-3 bg-slate-900 text-white rounded-xl font-bold text-sm flex items-center gap-2 hover:bg-slate-800 disabled:opacity-50"
+          >
+            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            Export PDF
+          </button>
+        )}
+      </div>
+
+      <div className={cardClass}>
+        <SectionTitle icon={CalendarRange} title="Period" />
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex gap-2">
+            {PRESETS.map(p => (
+              <button
+                key={p.days}
+                onClick={() => { setFrom(daysAgo(p.days)); setTo(isoDay(new Date())); }}
+                className="px-3 py-2 rounded-full text-xs font-bold bg-slate-100 text-slate-600 hover:bg-slate-200"
+              >
+                {p.label}
+              </button>
+            ))}
+          </div>
+          <input type="date" value={from} max={to} onChange={e => setFrom(e.target.value)} className={inputClass} />
+          <ArrowRight size={16} className="text-slate-300 mb-3" />
+          <input type="date" value={to} min={from} max={isoDay(new Date())} onChange={e => setTo(e.target.value)} className={inputClass} />
+          <button
+            onClick={generate}
+            disabled={isGenerating || !from || !to || from > to}
+            className="px-6 py-2.5 bg-blue-600 text-white rounded-xl font-bold text-sm flex items-center gap-2 hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isGenerating ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+            {isGenerating ? 'Compiling…' : 'Generate'}
+          </button>
+        </div>
+        {error && (
+          <div className="mt-4 flex items-center gap-2 p-4 rounded-xl text-sm border bg-red-50 border-red-100 text-red-700">
+            <AlertCircle size={16} />
+            {error}
+          </div>
+        )}
+      </div>
+
+      {summary && (
+        <>
+          <div className={cardClass}>
+            <SectionTitle icon={Sparkles} title="Overview" />
+            {summary.overview ? (
+              <div className="space-y-1">
+                {summary.overview.split('\n').map((line, i) => {
+                  if (line.startsWith('#')) return <h4 key={i} className="text-slate-900 font-bold mt-4 mb-2">{line.replace(/#/g, '')}</h4>;
+                  if (/^[*-]\s/.test(line)) return <li key={i} className="text-slate-700 text-sm ml-4 mb-1">{line.replace(/^[*-]\s+/, '').replace(/\*\*/g, '')}</li>;
+                  return <p key={i} className="text-slate-700 text-sm leading-relaxed">{line.replace(/\*\*/g, '')}</p>;
+                })}
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500">The AI overview could not be written this time. The data below is complete.</p>
+            )}
+          </div>
+
+          <div className={cardClass}>
+            <SectionTitle icon={Activity} title="Vitals" />
+            <div className="flex flex-wrap gap-2 mb-4">
+              {(Object.keys(SOURCE_LABELS) as VitalSource[]).map(source => (
+                <span key={source} className="px-3 py-1 rounded-full bg-slate-100 text-slate-600 text-[10px] font-black uppercase tracking-widest">
+                  {SOURCE_LABELS[source]}: {summary.readingCounts[source]}
+                </span>
+              ))}
+            </div>
+            {summary.vitals.length ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-[10px] font-black uppercase tracking-widest text-slate-400">
+                    <th className="pb-3">Measure</th>
+                    <th className="pb-3 text-right">Mean</th>
+                    <th className="pb-3 text-right">Min – Max</th>
+                    <th className="pb-3 pl-6">Normal</th>
+                    <th className="pb-3">Out of range</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {summary.vitals.map(v => {
+                    const out = v.below + v.above;
+                    return (
+                      <tr key={v.key}>
+                        <td className="py-3 font-bold text-slate-800">{v.label}</td>
+                        <td className="py-3 text-right">{v.mean} <span className="text-xs text-slate-400">{v.unit}</span></td>
+                        <td className="py-3 text-right text-slate-600">{v.min} – {v.max}</td>
+                        <td className="py-3 pl-6 text-slate-500">{v.range ?? '—'}</td>
+                        <td className="py-3">
+                          {v.range ? (
+                            <span className={`font-bold ${out ? 'text-red-600' : 'text-emerald-600'}`}>
+                              {out} of {v.count}
+                              {out > 0 && <span className="text-xs font-normal text-slate-400"> ({v.below} low, {v.above} high)</span>}
+                            </span>
+                          ) : <span className="text-slate-400">{v.count} readings</span>}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-slate-500">No readings in this period.</p>
+            )}
+          </div>
+
+          <div className={cardClass}>
+            <SectionTitle icon={FlaskConical} title="Lab Changes" />
+            {summary.labChanges.length ? (
+              <ul className="divide-y divide-slate-100">
+                {summary.labChanges.map(l => (
+                  <li key={l.analyte} className="py-3 flex items-center justify-between gap-4 text-sm">
+                    <span className="font-bold text-slate-800">{l.name}</span>
+                    <span className="flex items-center gap-3 text-slate-600">
+                      {l.previous && (
+                        <>
+                          <span>{l.previous.value} <span className="text-xs text-slate-400">{formatDate(l.previous.date)}</span></span>
+                          <ArrowRight size={14} className="text-slate-300" />
+                        </>
+                      )}
+                      <span className="font-bold text-slate-900">{l.latest.value} {l.unit}</span>
+                      <span className="text-xs text-slate-400">{formatDate(l.latest.date)}</span>
+                      <span className={`px-2 py-1 rounded-full text-[10px] font-black uppercase tracking-widest ${FLAG_STYLES[l.latest.flag]}`}>
+                        {l.latest.flag}
+                      </span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-slate-500">No lab results uploaded in this period.</p>
+            )}
+          </div>
+
+          <div className={cardClass}>
+            <SectionTitle icon={MessageSquare} title="Symptoms Mentioned in Chat" />
+            {summary.symptoms.length ? (
+              <ul className="space-y-4">
+                {summary.symptoms.map(s => (
+                  <li key={s.symptom} className="text-sm">
+                    <p className="font-bold text-slate-800">
+                      {s.label}
+                      <span className="font-normal text-slate-400"> • {s.count} mention{s.count === 1 ? '' : 's'}, last {formatDate(s.lastReported)}</span>
+                    </p>
+                    {s.excerpts.map((e, i) => <p key={i} className="text-xs text-slate-500 italic mt-1">“{e}”</p>)}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-slate-500">No symptoms mentioned in this period.</p>
+            )}
+          </div>
+
+          {summary.reports.length > 0 && (
+            <div className={cardClass}>
+              <SectionTitle icon={FileText} title="Reports in this Period" />
+              <ul className="space-y-2 text-sm text-slate-600">
+                {summary.reports.map(r => (
+                  <li key={r.id}>
+                    <span className="font-bold text-slate-800">{formatDate(r.uploadedAt)}</span> • {r.reportType}
+                    {r.fileNames.length > 0 && <span className="text-slate-400"> ({r.fileNames.join(', ')})</span>}
+                    {' '}• {r.labCount} lab value{r.labCount === 1 ? '' : 's'}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VisitSummary;
@@ -2,10 +2,24 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Camera, RefreshCw, Activity, ShieldCheck, Loader2, Heart, AlertTriangle, CheckCircle, Wifi, WifiOff, Cpu, Info, FileText, Share2, Printer, Zap, XCircle, Database, Cloud } from 'lucide-react';
 import { localServices, ServiceStatus } from '../services/localServices';
-import { groqService } from '../services/groqService';
-import { VitalScanResult } from '../types';
+import { aiService } from '../services/aiService';
+import { VitalScanResult, RppgResponse, ScanSource, ScanProtocolId, VitalInterpretation, FindingSeverity, Demographics } from '../types';
+import { createFrameSampler, analyzeSamples, RppgSample } from '../services/rppg';
+import { assessScanQuality } from '../services/scanQuality';
+import { SCAN_PROTOCOLS, DEFAULT_PROTOCOL_ID, SERVER_MIN_DURATION_SEC, getScanProtocol } from '../services/scanProtocols';
+import { interpretVitals, SEVERITY_LABELS } from '../services/vitalInterpretation';
+import { profileService, demographicsFromProfile } from '../services/profileService';
+import { exportClinicalReport } from '../services/reportPdf';
+import LivePulseOverlay from './LivePulseOverlay';
+import BreathingGuide from './BreathingGuide';
 
 
+const SEVERITY_STYLES: Record<FindingSeverity, string> = {
+  normal: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  borderline: 'bg-amber-50 text-amber-700 border-amber-200',
+  attention: 'bg-orange-50 text-orange-700 border-orange-200',
+  critical: 'bg-rose-50 text-rose-700 border-rose-200'
+};
 
 const VitalScan: React.FC = () => {
   const [isRecording, setIsRecording] = useState(false);
@@ -16,12 +30,42 @@ const VitalScan: React.FC = () => {
   const [serviceStatus, setServiceStatus] = useState<{backend: ServiceStatus, rppg: ServiceStatus} | null>(null);
   const [useProxy, setUseProxy] = useState(false);
   const [storageStatus, setStorageStatus] = useState<'local' | 'cloud' | null>(null);
+  const [engine, setEngine] = useState<ScanSource>('browser');
+  const [retakeAdvice, setRetakeAdvice] = useState<string[]>([]);
+  const [protocolId, setProtocolId] = useState<ScanProtocolId>(DEFAULT_PROTOCOL_ID);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [narrativeStatus, setNarrativeStatus] = useState<'idle' | 'loading' | 'failed'>('idle');
+  const [isExporting, setIsExporting] = useState(false);
+  const protocol = getScanProtocol(protocolId);
   
   const videoRef = useRef<HTMLVideoElement>(null);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<number | null>(null);
   const isMounted = useRef(true);
+  const samplesRef = useRef<RppgSample[]>([]);
+  const rafRef = useRef<number | null>(null);
+  const engineRef = useRef<ScanSource>('browser');
+  const captureHandledRef = useRef(false);
+  const protocolRef = useRef(protocol);
+  const countdownRef = useRef<number | null>(null);
+  const demographicsRef = useRef<Demographics>({});
+
+  // Recorder callbacks outlive renders, so they read the engine and protocol from refs
+  useEffect(() => {
+    engineRef.current = engine;
+  }, [engine]);
+
+  useEffect(() => {
+    protocolRef.current = protocol;
+  }, [protocol]);
+
+  // Age and sex from the patient profile tailor the reference ranges
+  useEffect(() => {
+    profileService.getProfile().then(profile => {
+      demographicsRef.current = demographicsFromProfile(profile);
+    });
+  }, []);
 
   // Health check decoupled from camera start
   const performCheck = useCallback(async () => {
@@ -39,6 +83,8 @@ const VitalScan: React.FC = () => {
     startCamera();
     return () => {
       isMounted.current = false;
+      if (countdownRef.current) clearInterval(countdownRef.current);
+      stopSampling();
       stopCamera();
     };
   }, []); // Run ONLY once on mount
@@ -71,37 +117,70 @@ const VitalScan: React.FC = () => {
     }
   };
 
+  // Face-region pixel sampling for the in-browser rPPG pipeline (~30 fps)
+  const startSampling = () => {
+    stopSampling();
+    samplesRef.current = [];
+    const sample = createFrameSampler();
+    let last = 0;
+    const tick = (now: number) => {
+      if (videoRef.current && now - last >= 30) {
+        const s = sample(videoRef.current);
+        if (s) samplesRef.current.push(s);
+        last = now;
+      }
+      rafRef.current = requestAnimationFrame(tick);
+    };
+    rafRef.current = requestAnimationFrame(tick);
+  };
+
+  const stopSampling = () => {
+    if (rafRef.current !== null) {
+      cancelAnimationFrame(rafRef.current);
+      rafRef.current = null;
+    }
+  };
+
   const processRecording = async (capturedChunks: Blob[]) => {
-  if (isProcessing) return;
+  // Recorder stop and force stop can both fire for the same capture
+  if (captureHandledRef.current) return;
+  captureHandledRef.current = true;
   setIsProcessing(true);
   setError(null);
+  setRetakeAdvice([]);
   
   try {
-    const blob = new Blob(capturedChunks, { type: 'video/webm' });
-    if (blob.size === 0) throw new Error("No video data captured. Please hold still.");
-    
-    // Upload video to Python backend
-    const formData = new FormData();
-    formData.append('file', blob, 'recording.webm');
-    
-    const response = await fetch('http://localhost:8001/analyze', {
-      method: 'POST',
-      body: formData,
-    });
-    
-    if (!response.ok) {
-      throw new Error(`Server error: ${response.status}`);
+    let rppgData: RppgResponse | null = null;
+    let source: ScanSource = 'browser';
+
+    const activeProtocol = protocolRef.current;
+
+    // High accuracy mode: upload to the Python engine, fall back to the browser pipeline if it is
+    // unreachable or the protocol is shorter than the engine accepts
+    if (engineRef.current === 'server' && activeProtocol.durationSec >= SERVER_MIN_DURATION_SEC) {
+      const blob = new Blob(capturedChunks, { type: 'video/webm' });
+      if (blob.size === 0 && samplesRef.current.length === 0) throw new Error("No video data captured. Please hold still.");
+
+      try {
+        if (blob.size === 0) throw new Error("Empty recording");
+        rppgData = await localServices.analyzeVideo(blob);
+        source = 'server';
+      } catch (serverErr) {
+        console.warn("⚠️ rPPG engine unavailable, using browser pipeline:", serverErr);
+      }
+    }
+
+    if (!rppgData) {
+      rppgData = analyzeSamples(samplesRef.current);
     }
     
-    const rppgData = await response.json();
-    
+    const quality = assessScanQuality(rppgData, activeProtocol.durationSec);
+
     if (!rppgData.success) {
+      if (isMounted.current) setRetakeAdvice(quality.advice);
       throw new Error(rppgData.error || "Analysis failed");
     }
     
-    // Get AI interpretation (optional - can keep your existing Groq logic)
-    let aiText = `### REPORT_STATUS: ${rppgData.heart_rate > 100 ? 'ELEVATED' : 'STABLE'}\n\n**Summary:** Heart rate analysis completed with ${rppgData.quality} signal quality (${rppgData.confidence}% confidence).\n\n**Clinical Findings:**\n* [BPM: ${Math.round(rppgData.heart_rate)}] - ${rppgData.quality} quality detection\n* [BP: ${rppgData.blood_pressure.systolic}/${rppgData.blood_pressure.diastolic}] - Estimated values\n* [HRV: ${rppgData.hrv}] - Heart rate variability\n\n**AI Verdict:** Analysis based on ${rppgData.duration_seconds.toFixed(1)}s video with ${rppgData.face_frames}/${rppgData.frames_processed} frames detected.`;
-    
     const scanResult: VitalScanResult = {
       heartRate: Math.round(rppgData.heart_rate),
       hrv: rppgData.hrv,
@@ -110,12 +189,22 @@ const VitalScan: React.FC = () => {
         diastolic: rppgData.blood_pressure.diastolic
       },
       stressLevel: rppgData.stress_index > 50 ? 'High' : 'Normal',
+      stressIndex: rppgData.stress_index,
       timestamp: new Date().toISOString(),
-      aiInterpretation: aiText
+      source,
+      signalQuality: rppgData.quality,
+      confidence: rppgData.confidence,
+      quality,
+      protocol: activeProtocol.id,
+      hrvMethod: rppgData.hrv_method || 'estimated'
     };
+    const interpretation = interpretVitals(scanResult, demographicsRef.current, rppgData.stress_index);
+    scanResult.interpretation = interpretation;
+    scanResult.aiInterpretation = `${interpretation.summary} ${interpretation.verdict}`;
 
     if (isMounted.current) {
       setResult(scanResult);
+      requestNarrative(scanResult, interpretation);
       const saved = await localServices.saveScanResult(scanResult);
       setStorageStatus(saved ? 'cloud' : 'local');
     }
@@ -130,13 +219,78 @@ const VitalScan: React.FC = () => {
   }
 };
 
+// Optional AI narrative, attached to the interpretation once it arrives
+const requestNarrative = (scan: VitalScanResult, interpretation: VitalInterpretation) => {
+  setNarrativeStatus('loading');
+  aiService.interpretVitals(scan, interpretation)
+    .then(narrative => {
+      if (!isMounted.current) return;
+      setResult(prev => prev && prev.timestamp === scan.timestamp && prev.interpretation
+        ? { ...prev, interpretation: { ...prev.interpretation, narrative } }
+        : prev);
+      setNarrativeStatus('idle');
+    })
+    .catch(() => {
+      if (isMounted.current) setNarrativeStatus('failed');
+    });
+};
+
+// Text PDF of this scan plus the stored profile, trends and latest labs
+const exportReport = async () => {
+  if (!result) return;
+  setIsExporting(true);
+  try {
+    const interp = result.interpretation;
+    await exportClinicalReport({
+      title: 'Vital Scan Report',
+      fileName: `Vital_Scan_${new Date(result.timestamp).toISOString().slice(0, 10)}.pdf`,
+      scan: result,
+      summary: interp ? [interp.summary, interp.verdict, interp.narrative].filter(Boolean).join('\n') : result.aiInterpretation
+    });
+  } catch (err) {
+    console.error('Export failed:', err);
+    alert('Failed to generate PDF');
+  } finally {
+    if (isMounted.current) setIsExporting(false);
+  }
+};
+
+// Pre-roll countdown, then start capturing
+const beginCapture = () => {
+  if (isRecording || isProcessing || countdownRef.current) return;
+  setError(null);
+  setResult(null);
+
+  let remaining = protocolRef.current.countdownSec;
+  if (remaining <= 0) {
+    startRecording();
+    return;
+  }
+
+  setCountdown(remaining);
+  countdownRef.current = window.setInterval(() => {
+    remaining -= 1;
+    if (remaining > 0) {
+      setCountdown(remaining);
+      return;
+    }
+    if (countdownRef.current) clearInterval(countdownRef.current);
+    countdownRef.current = null;
+    setCountdown(null);
+    startRecording();
+  }, 1000);
+};
+
 const startRecording = () => {
   if (isRecording || isProcessing) return;
   
-  console.log("🎥 Starting 30s recording...");
+  const { durationSec } = protocolRef.current;
+  console.log(`🎥 Starting ${durationSec}s recording (${protocolRef.current.id})...`);
   setError(null);
   setResult(null);
   chunksRef.current = [];
+  captureHandledRef.current = false;
+  startSampling();
   setRecordingTime(0);
   setIsRecording(true);
 
@@ -147,9 +301,9 @@ const startRecording = () => {
     const elapsed = Math.floor((Date.now() - startTime) / 1000);
     setRecordingTime(elapsed);
     
-    // ✅ Auto-stop at EXACTLY 30 seconds
-    if (elapsed >= 30) {
-      console.log("⏰ 30s reached - FORCE STOP");
+    // ✅ Auto-stop at the protocol duration
+    if (elapsed >= durationSec) {
+      console.log(`⏰ ${durationSec}s reached - FORCE STOP`);
       clearInterval(timerId);
       forceStopRecording(); // Use force stop to break loops
       return;
@@ -159,7 +313,8 @@ const startRecording = () => {
   // Store timer ID properly
   timerRef.current = timerId;
 
-  if (videoRef.current?.srcObject) {
+  // The browser engine only needs the sampled pixels; the server engine needs the video file
+  if (engineRef.current === 'server' && videoRef.current?.srcObject) {
     try {
       const stream = videoRef.current.srcObject as MediaStream;
       let mimeType = 'video/webm;codecs=vp8';
@@ -205,6 +360,7 @@ const forceStopRecording = useCallback(() => {
   
   setIsRecording(false);
   setRecordingTime(0);
+  stopSampling();
   
   // Clear ALL timers
   if (timerRef.current) {
@@ -224,8 +380,8 @@ const forceStopRecording = useCallback(() => {
     mediaRecorderRef.current = null;
   }
   
-  // Process chunks if we have any
-  if (chunksRef.current.length > 0) {
+  // Process chunks or sampled frames if we have any
+  if (chunksRef.current.length > 0 || samplesRef.current.length > 0) {
     setTimeout(() => processRecording(chunksRef.current), 200);
   }
 }, []);
@@ -238,50 +394,49 @@ const stopRecording = useCallback(() => {
 
 
 
-  const renderClinicalReport = (text: string) => {
-    if (!text) return null;
-    const lines = text.split('\n');
+  const renderInterpretation = (interp: VitalInterpretation) => {
+    const statusColor = interp.status === 'OPTIMAL' || interp.status === 'STABLE'
+      ? 'bg-emerald-50 text-emerald-700 border-emerald-200'
+      : 'bg-rose-50 text-rose-700 border-rose-200';
     return (
       <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-700">
-        {lines.map((line, i) => {
-          if (line.startsWith('###')) {
-            const status = line.replace(/###|REPORT_STATUS:/g, '').trim();
-            const color = status.includes('OPTIMAL') || status.includes('STABLE') ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-rose-50 text-rose-700 border-rose-200';
-            return (
-              <div key={i} className={`px-6 py-4 rounded-3xl border-2 font-black text-center uppercase tracking-[0.2em] text-sm shadow-sm ${color}`}>
-                Vital Status: {status}
-              </div>
-            );
-          }
-          if (line.includes('[BPM:') || line.includes('[BP:') || line.includes('[HRV:')) {
-            const parts = line.split(/(\[.*?\])/g);
-            return (
-              <div key={i} className="flex items-start gap-4 mb-2 border-l-2 border-slate-100 pl-4 py-1">
-                <p className="text-slate-700 text-sm leading-relaxed">
-                  {parts.map((part, idx) => {
-                    if (part.startsWith('[BPM:')) return <span key={idx} className="inline-flex items-center px-2 py-0.5 rounded bg-rose-100 text-rose-700 font-black text-[10px] mx-1">HR: {part.replace('[BPM:', '').replace(']', '')}</span>;
-                    if (part.startsWith('[BP:')) return <span key={idx} className="inline-flex items-center px-2 py-0.5 rounded bg-blue-100 text-blue-700 font-black text-[10px] mx-1">BP: {part.replace('[BP:', '').replace(']', '')}</span>;
-                    if (part.startsWith('[HRV:')) return <span key={idx} className="inline-flex items-center px-2 py-0.5 rounded bg-indigo-100 text-indigo-700 font-black text-[10px] mx-1">HRV: {part.replace('[HRV:', '').replace(']', '')}</span>;
-                    return <span key={idx}>{part.replace(/\*/g, '')}</span>;
-                  })}
-                </p>
-              </div>
-            );
-          }
-          if (line.startsWith('**AI Verdict:**')) {
-            return (
-              <div key={i} className="mt-8 pt-6 border-t border-slate-100">
-                <div className="bg-slate-900 rounded-3xl p-6 text-white relative overflow-hidden group shadow-xl">
-                  <div className="absolute -right-4 -bottom-4 opacity-10 group-hover:scale-125 transition-transform duration-700"><Zap size={80} /></div>
-                  <p className="text-[10px] font-black uppercase tracking-[0.3em] text-blue-400 mb-2">Final Verdict</p>
-                  <p className="text-sm font-medium italic relative z-10 leading-relaxed">"{line.replace('**AI Verdict:**', '').trim()}"</p>
-                </div>
+        <div className={`px-6 py-4 rounded-3xl border-2 font-black text-center uppercase tracking-[0.2em] text-sm shadow-sm ${statusColor}`}>
+          Vital Status: {interp.status}
+        </div>
+        <p className="text-slate-500 text-sm leading-relaxed">{interp.summary}</p>
+
+        <h4 className="text-[11px] font-black text-slate-800 uppercase tracking-widest mt-8 mb-3 flex items-center gap-2"><div className="w-1.5 h-1.5 rounded-full bg-blue-500"></div>Clinical Findings</h4>
+        <div className="space-y-3">
+          {interp.findings.map(f => (
+            <div key={f.metric} className="border-l-2 border-slate-100 pl-4 py-1 space-y-1">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-[10px] font-black text-slate-800 uppercase tracking-widest">{f.label}</span>
+                <span className="inline-flex items-center px-2 py-0.5 rounded bg-slate-100 text-slate-800 font-black text-[10px]">{f.value} {f.unit}</span>
+                <span className={`inline-flex items-center px-2 py-0.5 rounded border font-black text-[9px] uppercase tracking-widest ${SEVERITY_STYLES[f.severity]}`}>{SEVERITY_LABELS[f.severity]}</span>
+                {f.estimated && <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Estimated</span>}
               </div>
-            );
-          }
-          if (line.startsWith('**')) return <h4 key={i} className="text-[11px] font-black text-slate-800 uppercase tracking-widest mt-8 mb-3 flex items-center gap-2"><div className="w-1.5 h-1.5 rounded-full bg-blue-500"></div>{line.replace(/\*\*/g, '')}</h4>;
-          return line.trim() ? <p key={i} className="text-slate-500 text-sm leading-relaxed mb-1 pl-3.5">{line.replace(/\*/g, '')}</p> : null;
-        })}
+              <p className="text-slate-600 text-sm leading-relaxed">{f.summary}</p>
+              <p className="text-[10px] text-slate-400 font-bold">Reference: {f.referenceRange.label} {f.unit}</p>
+            </div>
+          ))}
+        </div>
+
+        {(interp.narrative || narrativeStatus === 'loading') && (
+          <div className="pt-2">
+            <h4 className="text-[11px] font-black text-slate-800 uppercase tracking-widest mt-6 mb-3 flex items-center gap-2"><div className="w-1.5 h-1.5 rounded-full bg-indigo-500"></div>AI Narrative</h4>
+            {interp.narrative
+              ? interp.narrative.split('\n').filter(l => l.trim()).map((line, i) => <p key={i} className="text-slate-500 text-sm leading-relaxed mb-1">{line.replace(/\*/g, '')}</p>)
+              : <p className="text-slate-400 text-xs font-bold flex items-center gap-2"><Loader2 size={12} className="animate-spin" /> Writing explanation...</p>}
+          </div>
+        )}
+
+        <div className="mt-8 pt-6 border-t border-slate-100">
+          <div className="bg-slate-900 rounded-3xl p-6 text-white relative overflow-hidden group shadow-xl">
+            <div className="absolute -right-4 -bottom-4 opacity-10 group-hover:scale-125 transition-transform duration-700"><Zap size={80} /></div>
+            <p className="text-[10px] font-black uppercase tracking-[0.3em] text-blue-400 mb-2">Final Verdict</p>
+            <p className="text-sm font-medium italic relative z-10 leading-relaxed">"{interp.verdict}"</p>
+          </div>
+        </div>
       </div>
     );
   };
@@ -298,6 +453,15 @@ const stopRecording = useCallback(() => {
         </div>
         
         <div className="flex flex-wrap gap-3">
+          <button
+            onClick={() => setEngine(engine === 'browser' ? 'server' : 'browser')}
+            disabled={isRecording || isProcessing}
+            title={engine === 'server' ? 'Uploads the recording to the rPPG engine on port 8001' : 'Signal is processed in this browser'}
+            className={`flex items-center gap-2 px-4 py-2.5 rounded-2xl border text-[10px] font-black uppercase tracking-widest shadow-sm transition-all disabled:opacity-50 ${engine === 'server' ? 'bg-indigo-600 text-white border-indigo-700' : 'bg-white text-indigo-600 border-indigo-200 hover:bg-indigo-50'}`}
+          >
+            {engine === 'server' ? `High Accuracy${serviceStatus && !serviceStatus.rppg.ok ? ' (Offline)' : ''}` : 'Browser Engine'}
+            <Cpu size={12} />
+          </button>
           <button 
             onClick={() => { setUseProxy(!useProxy); performCheck(); }}
             className={`flex items-center gap-2 px-4 py-2.5 rounded-2xl border text-[10px] font-black uppercase tracking-widest shadow-sm transition-all ${useProxy ? 'bg-blue-600 text-white border-blue-700' : 'bg-white text-blue-600 border-blue-200 hover:bg-blue-50'}`}
@@ -320,13 +484,22 @@ const stopRecording = useCallback(() => {
               <div className="absolute top-10 left-10">
                  <div className="bg-red-600 px-6 py-3 rounded-full text-white font-black text-[10px] uppercase tracking-widest flex items-center gap-3 shadow-2xl">
                     <div className="w-2.5 h-2.5 bg-white rounded-full animate-pulse"></div>
-                    Capturing • {recordingTime}s
+                    Capturing • {recordingTime}s / {protocol.durationSec}s
                  </div>
               </div>
             )}
-            {!isRecording && !isProcessing && (
+            {isRecording && <LivePulseOverlay samplesRef={samplesRef} />}
+            {isRecording && protocol.breathing && <BreathingGuide protocol={protocol} elapsed={recordingTime} />}
+            {countdown !== null && (
+              <div className="absolute inset-0 flex flex-col items-center justify-center bg-slate-900/50 backdrop-blur-[2px] text-white pointer-events-none">
+                <p className="text-[10px] font-black uppercase tracking-[0.3em] text-blue-300 mb-4">{protocol.label} • Get ready</p>
+                <p key={countdown} className="text-9xl font-black animate-in zoom-in-50 fade-in duration-500">{countdown}</p>
+                {protocol.breathing && <p className="text-xs font-bold text-slate-300 mt-6">Follow the circle: breathe in as it grows, out as it shrinks.</p>}
+              </div>
+            )}
+            {!isRecording && !isProcessing && countdown === null && (
               <div className="absolute inset-0 flex items-center justify-center bg-slate-900/40 backdrop-blur-[4px] opacity-0 group-hover:opacity-100 transition-all duration-500">
-                <button onClick={startRecording} className="bg-white text-slate-900 px-14 py-6 rounded-[2.5rem] font-black text-xl flex items-center gap-4 shadow-2xl hover:scale-105 active:scale-95 transition-all">
+                <button onClick={beginCapture} className="bg-white text-slate-900 px-14 py-6 rounded-[2.5rem] font-black text-xl flex items-center gap-4 shadow-2xl hover:scale-105 active:scale-95 transition-all">
                   <Camera size={32} className="text-blue-600" />
                   Start Capture
                 </button>
@@ -340,6 +513,26 @@ const stopRecording = useCallback(() => {
               </div>
             )}
           </div>
+          <div className="bg-white p-6 rounded-[2.5rem] border border-slate-200 shadow-sm space-y-4">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-2">Scan Protocol</p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {SCAN_PROTOCOLS.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setProtocolId(p.id)}
+                  disabled={isRecording || isProcessing || countdown !== null}
+                  className={`p-4 rounded-2xl border text-left transition-all disabled:opacity-50 ${protocolId === p.id ? 'bg-blue-600 border-blue-700 text-white shadow-lg shadow-blue-200' : 'bg-slate-50 border-slate-100 text-slate-700 hover:bg-blue-50'}`}
+                >
+                  <p className="text-sm font-black">{p.label}</p>
+                  <p className={`text-[10px] font-bold uppercase tracking-widest ${protocolId === p.id ? 'text-blue-100' : 'text-slate-400'}`}>{p.durationSec}s</p>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-500 font-medium px-2">
+              {protocol.description}
+              {engine === 'server' && protocol.durationSec < SERVER_MIN_DURATION_SEC && ' Runs on the browser engine (server needs 25s+).'}
+            </p>
+          </div>
           <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm flex items-center justify-between border-l-[12px] border-l-blue-600">
             <div className="flex items-center gap-6">
               <div className="p-6 bg-blue-50 text-blue-600 rounded-[2rem]"><ShieldCheck size={40} /></div>
@@ -364,6 +557,9 @@ const stopRecording = useCallback(() => {
                     ) : storageStatus === 'local' ? (
                       <span className="flex items-center gap-1.5 text-[9px] font-black text-amber-600 uppercase bg-amber-50 px-3 py-1 rounded-full border border-amber-100"><Database size={10}/> Local Database</span>
                     ) : null}
+                    {result?.source && (
+                      <span className="flex items-center gap-1.5 text-[9px] font-black text-indigo-600 uppercase bg-indigo-50 px-3 py-1 rounded-full border border-indigo-100"><Cpu size={10}/> {result.source === 'server' ? 'Server Engine' : 'Browser rPPG'}</span>
+                    )}
                   </div>
                 </div>
                 <div className="p-4 bg-white rounded-2xl shadow-sm border border-slate-100"><FileText size={28} className="text-blue-500" /></div>
@@ -385,6 +581,13 @@ const stopRecording = useCallback(() => {
                   <XCircle size={48} className="text-rose-500" />
                   <h4 className="font-black text-slate-900 uppercase tracking-tighter text-sm">Diagnostic Error</h4>
                   <p className="text-[10px] text-slate-500 leading-relaxed font-bold bg-slate-50 p-4 rounded-2xl border border-slate-100">{error}</p>
+                  {retakeAdvice.length > 0 && (
+                    <ul className="w-full text-left space-y-2">
+                      {retakeAdvice.map(tip => (
+                        <li key={tip} className="flex items-start gap-2 text-[11px] text-amber-800 font-bold bg-amber-50 px-4 py-2.5 rounded-xl border border-amber-100"><AlertTriangle size={12} className="shrink-0 mt-0.5" />{tip}</li>
+                      ))}
+                    </ul>
+                  )}
                   <div className="flex flex-col gap-2 w-full pt-4">
                     <button onClick={() => {setError(null); startCamera();}} className="w-full py-3 bg-slate-900 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-xl">Retry Live</button>
                     {(
@@ -393,13 +596,29 @@ const stopRecording = useCallback(() => {
                   </div>
                 </div>
               ) : result ? (
-                renderClinicalReport(result.aiInterpretation || '')
+                <>
+                  {result.quality?.level === 'low' && (
+                    <div className="mb-8 p-6 rounded-3xl bg-amber-50 border-2 border-amber-200 space-y-4">
+                      <div className="flex items-center gap-3 text-amber-700">
+                        <AlertTriangle size={20} />
+                        <p className="text-[11px] font-black uppercase tracking-widest">Low-quality scan • excluded from trends</p>
+                      </div>
+                      <ul className="space-y-2">
+                        {result.quality.advice.map(tip => (
+                          <li key={tip} className="text-xs text-amber-900 font-medium leading-relaxed">• {tip}</li>
+                        ))}
+                      </ul>
+                      <button onClick={beginCapture} className="w-full py-3 bg-amber-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest shadow-lg flex items-center justify-center gap-2"><RefreshCw size={12} /> Retake Scan</button>
+                    </div>
+                  )}
+                  {result.interpretation && renderInterpretation(result.interpretation)}
+                </>
               ) : (
                 <div className="h-full flex flex-col items-center justify-center text-center p-8 space-y-8">
                   <Activity size={64} className="text-slate-100 animate-pulse" />
                   <div className="space-y-3">
                     <h4 className="font-black text-slate-900 text-xl tracking-tight uppercase">Ready</h4>
-                    <p className="text-xs text-slate-400 font-bold uppercase tracking-[0.2em] max-w-[240px] mx-auto">Start a 15s session to generate your medical readout.</p>
+                    <p className="text-xs text-slate-400 font-bold uppercase tracking-[0.2em] max-w-[240px] mx-auto">Start a {protocol.durationSec}s {protocol.label} session to generate your medical readout.</p>
                   </div>
                 </div>
               )}
@@ -407,7 +626,7 @@ const stopRecording = useCallback(() => {
             {result && (
               <div className="p-10 bg-slate-50 border-t border-slate-100 flex gap-4">
                 <button onClick={() => setResult(null)} className="flex-1 p-5 bg-white border border-slate-200 text-slate-900 font-black rounded-[2rem] hover:bg-slate-100 shadow-sm transition-all">Clear</button>
-                <button onClick={() => window.print()} className="flex-1 bg-slate-900 text-white font-black py-5 rounded-[2rem] hover:bg-slate-800 shadow-2xl flex items-center justify-center gap-3 transition-all"><Share2 size={20} className="text-blue-400" /> Export</button>
+                <button onClick={exportReport} disabled={isExporting} className="flex-1 bg-slate-900 text-white font-black py-5 rounded-[2rem] hover:bg-slate-800 shadow-2xl flex items-center justify-center gap-3 transition-all disabled:opacity-60">{isExporting ? <Loader2 size={20} className="animate-spin text-blue-400" /> : <Share2 size={20} className="text-blue-400" />} Export</button>
               </div>
             )}
           </div>
@@ -0,0 +1,84 @@
+import React, { useRef, useState } from 'react';
+import { Watch, Upload, Loader2, CheckCircle2, AlertCircle } from 'lucide-react';
+import { importWearableFile, WearableImportProgress, WearableImportResult, WEARABLE_SOURCE_LABELS } from '../services/wearableImport';
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+
+// Card for bringing in history from a watch or fitness app export
+const WearableImport: React.FC = () => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [progress, setProgress] = useState<WearableImportProgress | null>(null);
+  const [result, setResult] = useState<WearableImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setResult(null);
+    setError(null);
+    setProgress({ stage: 'reading', progress: 0 });
+    try {
+      setResult(await importWearableFile(file, setProgress));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setProgress(null);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-100 shadow-sm p-8">
+      <div className="flex items-center gap-2 mb-2 text-slate-900">
+        <Watch size={20} className="text-blue-600" />
+        <h2 className="font-bold text-lg">Import from Wearables</h2>
+      </div>
+      <p className="text-sm text-slate-500 mb-4">
+        Add heart rate, resting heart rate, HRV, SpO2 and blood pressure history from an Apple Health <code className="text-xs bg-slate-100 px-1 rounded">export.xml</code>,
+        a Google Fit JSON file or a CSV with a date column. Readings you already have are skipped, and the file is read on this device.
+      </p>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".xml,.json,.csv,.txt"
+        className="hidden"
+        onChange={e => handleFile(e.target.files?.[0])}
+      />
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={!!progress}
+        className="px-6 py-3 border border-slate-200 hover:bg-slate-50 text-slate-700 font-semibold rounded-xl transition-all flex items-center gap-2 disabled:opacity-50"
+      >
+        {progress ? <Loader2 size={18} className="animate-spin" /> : <Upload size={18} />}
+        {progress ? (progress.stage === 'reading' ? 'Reading file…' : 'Importing…') : 'Choose Export File'}
+      </button>
+
+      {progress && (
+        <div className="mt-4 h-2 bg-slate-100 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-600 transition-all" style={{ width: `${Math.round(progress.progress * 100)}%` }} />
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-4 flex items-start gap-2 p-4 rounded-xl text-sm border bg-emerald-50 border-emerald-100 text-emerald-700">
+          <CheckCircle2 size={16} className="mt-0.5 shrink-0" />
+          <span>
+            {WEARABLE_SOURCE_LABELS[result.source]}: {result.imported} new reading{result.imported === 1 ? '' : 's'} imported
+            {result.from && result.to && <> ({formatDate(result.from)} – {formatDate(result.to)})</>}.
+            {result.duplicates > 0 && ` ${result.duplicates} already stored.`}
+            {result.rejected > 0 && ` ${result.rejected} implausible value${result.rejected === 1 ? '' : 's'} skipped.`}
+          </span>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 flex items-center gap-2 p-4 rounded-xl text-sm border bg-red-50 border-red-100 text-red-700">
+          <AlertCircle size={16} className="shrink-0" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WearableImport;
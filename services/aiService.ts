@@ -0,0 +1,278 @@
+import { ChatSource, LabEdit, LabResult, TriageResult, VitalInterpretation } from '../types';
+import { authFetch } from './authService';
+
+interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+
+interface MedicalReport {
+  _id: string;
+  extractedText: string;
+  aiAnalysis: string;
+  uploadedAt: string;
+  labResults?: LabResult[];
+  labEdits?: LabEdit[];
+  reviewedAt?: string;
+}
+
+export interface LabReview {
+  labResults: LabResult[];
+  labEdits: LabEdit[];
+  reviewedAt: string;
+}
+
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+export interface StreamOptions {
+  onDelta: (text: string) => void;   // the reply so far
+  onSources?: (sources: ChatSource[]) => void;   // once the reply is complete
+  onTriage?: (triage: TriageResult) => void;      // before the reply starts
+  signal?: AbortSignal;
+}
+
+/**
+ * Reads a server-sent event reply from the chat routes (backend/lib/chatStream.js).
+ * Aborting the signal stops generation on the server; the text received up
+ * to then is returned.
+ */
+const streamReply = async (path: string, body: object, { onDelta, onSources, onTriage, signal }: StreamOptions): Promise<string> => {
+  let text = '';
+  try {
+    const response = await authFetch(`${API_BASE_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...body, stream: true }),
+      signal
+    });
+
+    // Validation and auth errors arrive before the stream starts, as JSON
+    if (!response.headers.get('Content-Type')?.includes('text/event-stream') || !response.body) {
+      const data = await response.json();
+      if (data.triage) onTriage?.(data.triage);
+      if (!data.success) throw new Error(data.error || 'Failed to get AI response');
+      onDelta(data.response);
+      if (data.sources) onSources?.(data.sources);
+      return data.response;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return text;
+      buffer += decoder.decode(value, { stream: true });
+
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+      for (const event of events) {
+        const type = event.match(/^event: (.*)$/m)?.[1];
+        const data = event.match(/^data: (.*)$/m)?.[1];
+        if (!data) continue;
+        const payload = JSON.parse(data);
+        if (type === 'error') throw new Error(payload.error || 'Failed to get AI response');
+        if (type === 'start') {
+          if (payload.triage) onTriage?.(payload.triage);
+          continue;
+        }
+        if (type === 'done') {
+          if (payload.sources) onSources?.(payload.sources);
+          return payload.response;
+        }
+        text += payload.delta;
+        onDelta(text);
+      }
+    }
+  } catch (error: any) {
+    if (error.name === 'AbortError') return text;
+    throw error;
+  }
+};
+
+
+export const aiService = {
+  // Fetch user's medical reports from backend
+  async fetchMedicalReports(): Promise<MedicalReport[]> {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/medical/reports`);
+      const data = await response.json();
+      return data.reports || [];
+    } catch (error) {
+      console.error('Error fetching reports:', error);
+      return [];
+    }
+  },
+
+
+  // Enhanced chat with medical context (backend picks the AI provider)
+  // The backend adds the signed-in user's profile and the report passages
+  // relevant to the question to the prompt, and notes the reports it used on
+  // the saved conversation when sessionId is given
+  async chatWithContext(
+    messages: ChatMessage[],
+    stream?: StreamOptions,
+    sessionId?: string
+  ): Promise<string> {
+    try {
+      if (stream) return await streamReply('/chat/message', { messages, sessionId }, stream);
+
+      const response = await authFetch(`${API_BASE_URL}/chat/message`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messages, sessionId })
+      });
+      
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to get AI response');
+      }
+      
+      return data.response;
+    } catch (error: any) {
+      console.error('Chat Error:', error);
+      throw new Error(error.message || 'Failed to get AI response');
+    }
+  },
+
+
+  // Generate personalized diet plan (profile-aware)
+  async generateDietPlan(
+    goal: string,
+    medicalReports: MedicalReport[],
+    stream?: StreamOptions,
+    sessionId?: string
+  ): Promise<string> {
+    try {
+      if (stream) return await streamReply('/chat/diet-plan', { goal, medicalReports, sessionId }, stream);
+
+      const response = await authFetch(`${API_BASE_URL}/chat/diet-plan`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ goal, medicalReports, sessionId })
+      });
+      
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to generate diet plan');
+      }
+      
+      return data.response;
+    } catch (error: any) {
+      console.error('Diet Plan Error:', error);
+      throw new Error(error.message || 'Failed to generate diet plan');
+    }
+  },
+
+
+  // Get health insights across all reports
+  async getHealthInsights(medicalReports: MedicalReport[], stream?: StreamOptions, sessionId?: string): Promise<string> {
+    try {
+      if (stream) return await streamReply('/chat/insights', { medicalReports, sessionId }, stream);
+
+      const response = await authFetch(`${API_BASE_URL}/chat/insights`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ medicalReports, sessionId })
+      });
+      
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to generate insights');
+      }
+      
+      return data.response;
+    } catch (error: any) {
+      console.error('Insights Error:', error);
+      throw new Error(error.message || 'Failed to generate insights');
+    }
+  },
+
+
+  // Legacy symptom analysis (uses chatWithContext)
+  async analyzeSymptoms(messages: ChatMessage[]): Promise<string> {
+    return this.chatWithContext(messages);
+  },
+
+
+  // Narrative for a vital scan; the structured interpretation stays the source of truth.
+  // Has its own route, so it skips the chat's report retrieval, triage and symptom log.
+  async interpretVitals(vitals: any, interpretation?: VitalInterpretation): Promise<string> {
+    try {
+      const findings = interpretation
+        ? interpretation.findings.map(f => `${f.label}: ${f.value} ${f.unit} (ref ${f.referenceRange.label}) — ${f.severity}${f.estimated ? ', estimated' : ''}`)
+        : [
+            `Heart Rate: ${vitals.heart_rate || vitals.heartRate} bpm`,
+            `HRV: ${vitals.hrv} ms`,
+            `Blood Pressure: ${vitals.blood_pressure?.systolic || vitals.bloodPressure?.systolic}/${vitals.blood_pressure?.diastolic || vitals.bloodPressure?.diastolic} mmHg`
+          ];
+
+      const response = await authFetch(`${API_BASE_URL}/chat/vitals-narrative`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ findings, status: interpretation?.status })
+      });
+      
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to interpret vitals');
+      }
+      
+      return data.response;
+    } catch (error: any) {
+      console.error('Vitals Error:', error);
+      throw new Error('Failed to interpret vitals');
+    }
+  },
+
+
+  // Analyze medical report image
+  // The backend runs OCR and analyses the text, so no vision model is needed
+  async analyzeReport(base64Image: string, mimeType: string): Promise<string> {
+    try {
+      // This endpoint should use OCR (Tesseract) on backend, not vision API
+      // Your existing /api/medical/analyze endpoint already does this
+      const response = await authFetch('http://localhost:5000/api/medical/analyze', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ image: base64Image, mimeType })
+      });
+      
+      const data = await response.json();
+      
+      if (!data.success) {
+        throw new Error(data.error || 'Failed to analyze image');
+      }
+      
+      return data.analysis || "Image analysis completed. Check your medical reports.";
+    } catch (error: any) {
+      console.error('Image Analysis Error:', error);
+      return "Image analysis temporarily unavailable. Please try again later.";
+    }
+  },
+
+
+  // Saves the values the patient checked against the original report.
+  // Values are in each analyte's canonical unit.
+  async saveLabReview(
+    reportId: string,
+    labResults: { analyte: string; value: number; page?: number }[]
+  ): Promise<LabReview> {
+    const response = await authFetch(`${API_BASE_URL}/medical/reports/${reportId}/lab-results`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ labResults })
+    });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to save corrections');
+    }
+    return { labResults: data.labResults, labEdits: data.labEdits, reviewedAt: data.reviewedAt };
+  }
+};
@@ -0,0 +1,101 @@
+import { AuthUser } from '../types';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+const TOKEN_KEY = 'cardiax.session';
+
+// Fired whenever the backend rejects the stored session so App can show the sign-in screen
+export const AUTH_EXPIRED_EVENT = 'auth:expired';
+
+interface AuthResponse {
+  success: boolean;
+  user?: AuthUser;
+  token?: string;
+  deviceKey?: string;
+  error?: string;
+}
+
+export const getToken = (): string | null => localStorage.getItem(TOKEN_KEY);
+
+const setToken = (token: string | null) => {
+  if (token) localStorage.setItem(TOKEN_KEY, token);
+  else localStorage.removeItem(TOKEN_KEY);
+};
+
+// fetch() with the session token attached; a 401 clears the session
+export const authFetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+  const token = getToken();
+  const headers = new Headers(init.headers);
+  if (token) headers.set('Authorization', `Bearer ${token}`);
+
+  const response = await fetch(input, { ...init, headers });
+  if (response.status === 401 && token) {
+    setToken(null);
+    window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+  }
+  return response;
+};
+
+const send = async (path: string, method: string, body?: unknown): Promise<AuthResponse> => {
+  const response = await authFetch(`${API_BASE_URL}/auth${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  const data: AuthResponse = await response.json();
+  if (!data.success) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data;
+};
+
+export const authService = {
+  async register(name: string, email: string, password: string): Promise<AuthUser> {
+    const data = await send('/register', 'POST', { name, email, password });
+    setToken(data.token!);
+    return data.user!;
+  },
+
+  async login(email: string, password: string): Promise<AuthUser> {
+    const data = await send('/login', 'POST', { email, password });
+    setToken(data.token!);
+    return data.user!;
+  },
+
+  async logout(): Promise<void> {
+    try {
+      await send('/logout', 'POST');
+    } finally {
+      setToken(null);
+    }
+  },
+
+  // Resolves to null when there is no valid session
+  async currentUser(): Promise<AuthUser | null> {
+    if (!getToken()) return null;
+    try {
+      const data = await send('/me', 'GET');
+      return data.user || null;
+    } catch {
+      return null;
+    }
+  },
+
+  async updateAccount(changes: { name?: string; email?: string }): Promise<AuthUser> {
+    const data = await send('/me', 'PATCH', changes);
+    return data.user!;
+  },
+
+  async changePassword(currentPassword: string, newPassword: string): Promise<void> {
+    await send('/password', 'POST', { currentPassword, newPassword });
+  },
+
+  async regenerateDeviceKey(): Promise<string> {
+    const data = await send('/device-key', 'POST');
+    return data.deviceKey!;
+  },
+
+  async deleteAccount(): Promise<void> {
+    await send('/me', 'DELETE');
+    setToken(null);
+  }
+};
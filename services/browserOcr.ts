@@ -0,0 +1,80 @@
+import { createWorker, Block } from 'tesseract.js';
+import { OcrPage, OcrWord } from '../types';
+
+// On-device OCR with tesseract.js. Recognition runs in a web worker, so the
+// photos never leave the browser; only the recognised text is sent to the
+// backend. The English language data is fetched once and cached by the
+// worker in IndexedDB.
+
+export interface BrowserOcrProgress {
+  page: number;        // 1-based, of `pages`
+  pages: number;
+  status: string;      // tesseract.js status, e.g. "recognizing text"
+  progress: number;    // 0-1 for the current page
+}
+
+export interface BrowserOcrPage extends OcrPage {
+  fileName: string;
+}
+
+// PDFs need poppler on the backend; the browser path handles photos only
+export const canRecognizeInBrowser = (file: File) => file.type.startsWith('image/');
+
+const wordsOf = (blocks: Block[] | null): OcrWord[] => {
+  const words: OcrWord[] = [];
+  let line = 0;
+  for (const block of blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const l of paragraph.lines) {
+        const lineWords = l.words.filter(w => w.text.trim());
+        if (!lineWords.length) continue;
+        for (const w of lineWords) {
+          words.push({
+            text: w.text.trim(),
+            conf: Math.round(w.confidence),
+            line,
+            bbox: [w.bbox.x0, w.bbox.y0, w.bbox.x1 - w.bbox.x0, w.bbox.y1 - w.bbox.y0]
+          });
+        }
+        line++;
+      }
+    }
+  }
+  return words;
+};
+
+/**
+ * OCRs each photo in a single worker. Page text is rebuilt from the word
+ * lines so `OcrWord.line` indexes into it, as with the backend's OCR.
+ */
+export const recognizeInBrowser = async (
+  files: File[],
+  onProgress?: (progress: BrowserOcrProgress) => void
+): Promise<BrowserOcrPage[]> => {
+  let current = 0;
+  const worker = await createWorker('eng', 1, {
+    logger: m => onProgress?.({ page: current + 1, pages: files.length, status: m.status, progress: m.progress })
+  });
+
+  try {
+    const pages: BrowserOcrPage[] = [];
+    for (const [index, file] of files.entries()) {
+      current = index;
+      const { data } = await worker.recognize(file, {}, { text: true, blocks: true });
+      const words = wordsOf(data.blocks);
+      const lines: string[][] = [];
+      words.forEach(w => (lines[w.line] ||= []).push(w.text));
+
+      pages.push({
+        page: index + 1,
+        fileName: file.name,
+        text: lines.map(l => l.join(' ')).join('\n'),
+        confidence: Math.round(data.confidence),
+        words
+      });
+    }
+    return pages;
+  } finally {
+    await worker.terminate();
+  }
+};
@@ -0,0 +1,85 @@
+import { ChatSession, ChatSessionSummary, Message } from '../types';
+import { authFetch } from './authService';
+
+// Saved chat conversations (backend/routes/chatSessions.js)
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+export type ChatExportFormat = 'md' | 'json';
+
+const request = async (path: string, init: RequestInit = {}) => {
+  const response = await authFetch(`${API_BASE_URL}/chat/sessions${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init.headers }
+  });
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data;
+};
+
+const toSession = (session: any): ChatSession => ({
+  ...session,
+  messages: session.messages.map((m: any) => ({ ...m, timestamp: new Date(m.timestamp) }))
+});
+
+const toPayload = (messages: Message[]) => messages.map(m => ({ ...m, timestamp: m.timestamp.toISOString() }));
+
+export const chatSessionService = {
+  async list(): Promise<ChatSessionSummary[]> {
+    const data = await request('');
+    return data.sessions;
+  },
+
+  async get(id: string): Promise<ChatSession> {
+    const data = await request(`/${id}`);
+    return toSession(data.session);
+  },
+
+  // The title is taken from the first user message unless given
+  async create(messages: Message[], title?: string): Promise<ChatSession> {
+    const data = await request('', {
+      method: 'POST',
+      body: JSON.stringify({ title, messages: toPayload(messages) })
+    });
+    return toSession(data.session);
+  },
+
+  async appendMessages(id: string, messages: Message[]): Promise<ChatSessionSummary> {
+    const data = await request(`/${id}/messages`, {
+      method: 'POST',
+      body: JSON.stringify({ messages: toPayload(messages) })
+    });
+    return data.session;
+  },
+
+  async rename(id: string, title: string): Promise<ChatSessionSummary> {
+    const data = await request(`/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ title })
+    });
+    return data.session;
+  },
+
+  async remove(id: string): Promise<void> {
+    await request(`/${id}`, { method: 'DELETE' });
+  },
+
+  // Downloads the conversation as Markdown or JSON
+  async download(id: string, format: ChatExportFormat = 'md'): Promise<void> {
+    const response = await authFetch(`${API_BASE_URL}/chat/sessions/${id}/export?format=${format}`);
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Export failed');
+    }
+
+    const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `cardiax-chat.${format}`;
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,76 @@
+import { ChatSource, LabResult, VitalInterpretation } from '../types';
+import { authFetch } from './authService';
+
+// The records behind a chat answer's citations, loaded when a source chip is
+// opened: a medical report, a vital scan or a stored sensor reading
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+export interface CitedReport {
+  _id: string;
+  reportType: string;
+  uploadedAt: string;
+  fileNames: string[];
+  aiAnalysis: string;
+  labResults: LabResult[];
+}
+
+export interface CitedScan {
+  _id: string;
+  heartRate: number;
+  hrv: number;
+  bloodPressure: { systolic: number; diastolic: number };
+  stressIndex?: number;
+  aiInterpretation?: string;
+  interpretation?: VitalInterpretation;
+  qualityLevel?: 'good' | 'low';
+  qualityReasons?: string[];
+  protocol?: string;
+  timestamp: string;
+}
+
+export interface CitedReading {
+  _id: string;
+  bpm?: number;
+  restingHeartRate?: number;
+  spo2?: number;
+  systolic?: number;
+  diastolic?: number;
+  hrv?: number;
+  hrvMethod?: 'rmssd' | 'sdnn';
+  source: string;
+  timestamp: string;
+}
+
+export type SourceRecord =
+  | { kind: 'report'; report: CitedReport }
+  | { kind: 'scan'; scan: CitedScan }
+  | { kind: 'reading'; reading: CitedReading };
+
+// The record may have been deleted since the answer was given
+const fetchJson = async (path: string, notFound: string) => {
+  const response = await authFetch(`${API_BASE_URL}${path}`);
+  if (response.status === 404) throw new Error(notFound);
+  const data = await response.json();
+  if (!response.ok || data.success === false) {
+    throw new Error(data.error || `Request failed with status ${response.status}`);
+  }
+  return data;
+};
+
+export const chatSourceService = {
+  async load(source: ChatSource): Promise<SourceRecord> {
+    switch (source.kind) {
+      case 'report': {
+        const data = await fetchJson(`/medical/reports/${source.reportId}`, 'This report has been deleted.');
+        return { kind: 'report', report: data.report };
+      }
+      case 'scan':
+        return { kind: 'scan', scan: await fetchJson(`/scans/${source.scanId}`, 'This scan has been deleted.') };
+      case 'reading': {
+        const data = await fetchJson(`/health-data/${source.readingId}`, 'This reading has been deleted.');
+        return { kind: 'reading', reading: data.reading };
+      }
+    }
+  }
+};
@@ -0,0 +1,25 @@
+import { authFetch } from './authService';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+// Downloads the signed-in user's scans, sensor readings and lab reports as a
+// FHIR R4 Bundle (backend/lib/fhir.js) that clinical systems can import
+export const downloadFhirBundle = async (range: { from?: Date; to?: Date } = {}) => {
+  const params = new URLSearchParams();
+  if (range.from) params.set('from', range.from.toISOString());
+  if (range.to) params.set('to', range.to.toISOString());
+
+  const response = await authFetch(`${API_BASE_URL}/fhir/export${params.size ? `?${params}` : ''}`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Export failed');
+  }
+
+  const fileName = response.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || 'cardiax-fhir.json';
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,101 @@
+import { LabResult } from '../types';
+
+// Lipid panel history across uploaded reports. Thresholds follow the NCEP
+// ATP III categories so a "crossing" matches what a clinician would flag.
+
+export type LipidAnalyte = 'totalCholesterol' | 'ldl' | 'hdl' | 'triglycerides';
+
+export interface LipidTarget {
+  analyte: LipidAnalyte;
+  label: string;
+  color: string;
+  // Band drawn on the chart
+  targetLow?: number;
+  targetHigh?: number;
+  // Category cut points, ascending
+  thresholds: number[];
+  // HDL is the only one where higher is better
+  higherIsBetter: boolean;
+}
+
+export const LIPID_TARGETS: LipidTarget[] = [
+  { analyte: 'totalCholesterol', label: 'Total Cholesterol', color: '#3b82f6', targetHigh: 200, thresholds: [200, 240], higherIsBetter: false },
+  { analyte: 'ldl', label: 'LDL', color: '#ef4444', targetHigh: 100, thresholds: [100, 130, 160, 190], higherIsBetter: false },
+  { analyte: 'hdl', label: 'HDL', color: '#10b981', targetLow: 60, thresholds: [40, 60], higherIsBetter: true },
+  { analyte: 'triglycerides', label: 'Triglycerides', color: '#f59e0b', targetHigh: 150, thresholds: [150, 200, 500], higherIsBetter: false }
+];
+
+export interface LipidPoint {
+  reportId: string;
+  date: string;
+  totalCholesterol?: number;
+  ldl?: number;
+  hdl?: number;
+  triglycerides?: number;
+}
+
+export interface LipidCrossing {
+  analyte: LipidAnalyte;
+  label: string;
+  threshold: number;
+  from: number;
+  to: number;
+  direction: 'worse' | 'better';
+}
+
+export interface LipidChange {
+  analyte: LipidAnalyte;
+  percent: number | null;       // vs the previous test that reported this analyte
+  crossing?: LipidCrossing;
+}
+
+interface ReportWithLabs {
+  _id: string;
+  uploadedAt: string;
+  labResults?: LabResult[];
+}
+
+const ANALYTES = LIPID_TARGETS.map(t => t.analyte);
+
+// Oldest first, only reports that contain at least one lipid value
+export const buildLipidTimeline = (reports: ReportWithLabs[]): LipidPoint[] =>
+  reports
+    .map(report => {
+      const point: LipidPoint = { reportId: report._id, date: report.uploadedAt };
+      for (const r of report.labResults || []) {
+        if ((ANALYTES as string[]).includes(r.analyte)) point[r.analyte as LipidAnalyte] = r.value;
+      }
+      return point;
+    })
+    .filter(p => ANALYTES.some(a => p[a] !== undefined))
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+const category = (thresholds: number[], value: number) => thresholds.filter(t => value >= t).length;
+
+export const detectCrossing = (target: LipidTarget, from: number, to: number): LipidCrossing | undefined => {
+  const before = category(target.thresholds, from);
+  const after = category(target.thresholds, to);
+  if (before === after) return undefined;
+
+  const rising = after > before;
+  // Report the threshold nearest the new value
+  const threshold = rising ? target.thresholds[after - 1] : target.thresholds[after];
+  const worse = target.higherIsBetter ? !rising : rising;
+  return { analyte: target.analyte, label: target.label, threshold, from, to, direction: worse ? 'worse' : 'better' };
+};
+
+// Change for every analyte at timeline[index] against its previous reading
+export const changesAt = (timeline: LipidPoint[], index: number): LipidChange[] =>
+  LIPID_TARGETS.flatMap(target => {
+    const value = timeline[index]?.[target.analyte];
+    if (value === undefined) return [];
+
+    const previous = timeline.slice(0, index).reverse().find(p => p[target.analyte] !== undefined)?.[target.analyte];
+    if (previous === undefined) return [{ analyte: target.analyte, percent: null }];
+
+    return [{
+      analyte: target.analyte,
+      percent: previous ? Math.round(((value - previous) / previous) * 1000) / 10 : null,
+      crossing: detectCrossing(target, previous, value)
+    }];
+  });
@@ -166,7 +166,9 @@
 //     }
 //   }
 // };
-const BACKEND_URL = 'http://localhost:3000';
+import { authFetch } from './authService';
+
+const BACKEND_URL = 'http://localhost:5000';
 const RPPG_URL = 'http://localhost:8001';
 
 // Public development proxy
@@ -211,7 +213,7 @@ export const localServices = {
     const formData = new FormData();
     formData.append('file', videoBlob, 'capture.webm');
 
-    const targetUrl = useProxy ? `${CORS_PROXY}${RPPG_URL}/analyze-video` : `${RPPG_URL}/analyze-video`;
+    const targetUrl = useProxy ? `${CORS_PROXY}${RPPG_URL}/analyze` : `${RPPG_URL}/analyze`;
     
     console.log(`%c[LIVE] Sending to ${targetUrl}`, "color: #3b82f6; font-weight: bold");
 
@@ -238,6 +240,13 @@ export const localServices = {
       },
       stressIndex: result.stress_index || result.stressIndex || 0,
       aiInterpretation: result.aiInterpretation || 'Scan completed successfully.',
+      interpretation: result.interpretation,
+      source: result.source || 'server',
+      signalQuality: result.signalQuality,
+      confidence: result.confidence,
+      qualityLevel: result.quality?.level || 'good',
+      qualityReasons: result.quality?.reasons || [],
+      protocol: result.protocol || 'standard',
       timestamp: new Date().toISOString()
     };
 
@@ -246,7 +255,7 @@ export const localServices = {
 
     // SAVE TO MONGODB VIA BACKEND API
     try {
-      const response = await fetch(`${BACKEND_URL}/api/scans`, {
+      const response = await authFetch(`${BACKEND_URL}/api/scans`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(scanData)
@@ -268,10 +277,22 @@ export const localServices = {
     return false;
   },
 
+  // ESP32 and imported wearable readings stored by the backend, newest first
+  async getHealthReadings(limit: number = 200) {
+    try {
+      const response = await authFetch(`${BACKEND_URL}/data?limit=${limit}`);
+      return response.ok ? await response.json() : [];
+    } catch (e: any) {
+      console.error("%c❌ MONGODB: Could not fetch health readings", "color: #ef4444; font-weight: bold");
+      console.error(e.message);
+      return [];
+    }
+  },
+
   async getScanHistory() {
     try {
       console.log("%c🔄 Fetching scan history from MongoDB...", "color: #3b82f6; font-weight: bold");
-      const response = await fetch(`${BACKEND_URL}/api/scans`);
+      const response = await authFetch(`${BACKEND_URL}/api/scans`);
       
       if (response.ok) {
         const data = await response.json();
@@ -285,6 +306,11 @@ export const localServices = {
           bloodPressure: scan.bloodPressure,
           stressIndex: scan.stressIndex,
           aiInterpretation: scan.aiInterpretation,
+          interpretation: scan.interpretation,
+          source: scan.source,
+          qualityLevel: scan.qualityLevel || 'good',
+          qualityReasons: scan.qualityReasons || [],
+          protocol: scan.protocol || 'standard',
           timestamp: scan.timestamp,
           _id: scan._id
         }));
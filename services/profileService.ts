@@ -0,0 +1,60 @@
+import { Demographics, UserProfile } from '../types';
+import { authFetch } from './authService';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+export const EMPTY_PROFILE: UserProfile = {
+  smoking: 'never',
+  diabetes: 'none',
+  onBloodPressureMedication: false,
+  medications: [],
+  conditions: [],
+  allergies: [],
+  familyHistory: []
+};
+
+export const profileAge = (profile: UserProfile | null): number | undefined => {
+  if (!profile?.dateOfBirth) return undefined;
+  const dob = new Date(profile.dateOfBirth);
+  const now = new Date();
+  let age = now.getFullYear() - dob.getFullYear();
+  if (now.getMonth() < dob.getMonth() || (now.getMonth() === dob.getMonth() && now.getDate() < dob.getDate())) age--;
+  return age;
+};
+
+export const profileBmi = (profile: UserProfile | null): number | undefined => {
+  if (!profile?.heightCm || !profile.weightKg) return undefined;
+  return Math.round((profile.weightKg / (profile.heightCm / 100) ** 2) * 10) / 10;
+};
+
+export const demographicsFromProfile = (profile: UserProfile | null): Demographics => ({
+  age: profileAge(profile),
+  sex: profile?.sex
+});
+
+export const profileService = {
+  // Resolves to null when the user has not filled in a profile yet
+  async getProfile(): Promise<UserProfile | null> {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/profile`);
+      const data = await response.json();
+      return data.success ? data.profile : null;
+    } catch (error) {
+      console.error('Error fetching profile:', error);
+      return null;
+    }
+  },
+
+  async saveProfile(profile: UserProfile): Promise<UserProfile> {
+    const response = await authFetch(`${API_BASE_URL}/profile`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(profile)
+    });
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Failed to save profile');
+    }
+    return data.profile;
+  }
+};
@@ -0,0 +1,509 @@
+import jsPDF from 'jspdf';
+import { LabResult, MetricFinding, UserProfile, VisitSummary, VitalScanResult } from '../types';
+import { authService } from './authService';
+import { profileService, profileAge, profileBmi } from './profileService';
+import { localServices } from './localServices';
+import { aiService } from './aiService';
+import { LIPID_TARGETS, LipidPoint, buildLipidTimeline } from './lipidTrends';
+import { SEVERITY_LABELS } from './vitalInterpretation';
+
+// Clinical report PDF drawn with jsPDF text and vector primitives, so the
+// output is searchable, selectable and paginates on row boundaries instead of
+// slicing a screenshot.
+
+export interface ClinicalReportPatient {
+  name?: string;
+  email?: string;
+  profile: UserProfile | null;
+}
+
+export interface VitalsPoint {
+  timestamp: string;
+  heartRate: number;
+  systolic: number;
+  diastolic: number;
+}
+
+export interface ClinicalReportData {
+  title: string;
+  generatedAt: Date;
+  patient: ClinicalReportPatient;
+  // The scan the report is about, else the latest good scan from history
+  scan?: VitalScanResult;
+  vitalsHistory: VitalsPoint[];
+  labResults: LabResult[];
+  lipidTimeline: LipidPoint[];
+  // AI summary; markdown headings and bullets are rendered as such
+  summary?: string;
+}
+
+const DISCLAIMER = 'This report is generated by CardiaX for personal tracking. Camera-based vitals are estimates and AI summaries can be wrong. It is not a diagnosis; review it with a qualified healthcare professional.';
+
+const PAGE = { width: 210, height: 297, margin: 16, headerHeight: 14, footerHeight: 20 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+
+type Rgb = [number, number, number];
+const COLORS: Record<string, Rgb> = {
+  ink: [15, 23, 42],
+  muted: [100, 116, 139],
+  faint: [203, 213, 225],
+  band: [241, 245, 249],
+  blue: [37, 99, 235],
+  high: [220, 38, 38],
+  low: [217, 119, 6],
+  normal: [5, 150, 105]
+};
+
+const SEVERITY_COLORS: Record<MetricFinding['severity'], Rgb> = {
+  normal: COLORS.normal,
+  borderline: COLORS.low,
+  attention: COLORS.high,
+  critical: COLORS.high
+};
+
+// The built-in PDF fonts only cover WinAnsi; map what our text uses and drop
+// the rest (emoji in AI output)
+const pdfText = (text: string) => text
+  .replace(/≥/g, '>=')
+  .replace(/≤/g, '<=')
+  .replace(/→/g, '->')
+  .replace(/[µμ]/g, 'u')
+  .replace(/[^\x20-\x7E\xA0-\xFF\n–—•‘’“”…]/g, '')
+  .trim();
+
+const formatDate = (value: string | Date) => new Date(value).toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+
+interface Column {
+  label: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const BOTTOM = PAGE.height - PAGE.footerHeight;
+
+// Tracks the write position and starts new pages when a block won't fit
+const createWriter = (runningTitle: string) => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+
+  const w = {
+    doc,
+    y: PAGE.margin,
+
+    ensureSpace(height: number) {
+      if (w.y + height <= BOTTOM) return;
+      doc.addPage();
+      w.y = PAGE.margin;
+      w.runningHeader();
+    },
+
+    runningHeader() {
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(8);
+      doc.setTextColor(...COLORS.muted);
+      doc.text(pdfText(runningTitle), PAGE.margin, w.y);
+      doc.setDrawColor(...COLORS.faint);
+      doc.line(PAGE.margin, w.y + 2, PAGE.width - PAGE.margin, w.y + 2);
+      w.y += PAGE.headerHeight - 4;
+    },
+
+    setFont(size: number, style: 'normal' | 'bold' = 'normal', color: Rgb = COLORS.ink) {
+      doc.setFont('helvetica', style);
+      doc.setFontSize(size);
+      doc.setTextColor(...color);
+    },
+
+    // Wrapped text, paginating line by line
+    paragraph(text: string, { size = 10, style = 'normal' as 'normal' | 'bold', color = COLORS.ink, indent = 0, gap = 2 } = {}) {
+      w.setFont(size, style, color);
+      const lineHeight = size * 0.45;
+      const lines: string[] = doc.splitTextToSize(pdfText(text), CONTENT_WIDTH - indent);
+      for (const line of lines) {
+        w.ensureSpace(lineHeight);
+        w.setFont(size, style, color);
+        doc.text(line, PAGE.margin + indent, w.y + lineHeight * 0.8);
+        w.y += lineHeight;
+      }
+      w.y += gap;
+    },
+
+    sectionTitle(title: string) {
+      w.ensureSpace(16);
+      w.y += 4;
+      w.setFont(12, 'bold', COLORS.blue);
+      doc.text(title.toUpperCase(), PAGE.margin, w.y + 4);
+      doc.setDrawColor(...COLORS.blue);
+      doc.setLineWidth(0.4);
+      doc.line(PAGE.margin, w.y + 6, PAGE.margin + 24, w.y + 6);
+      doc.setLineWidth(0.2);
+      w.y += 10;
+    },
+
+    // Rows never split across pages; the header row repeats after a break
+    table(columns: Column[], rows: { cells: string[]; colors?: (Rgb | undefined)[] }[]) {
+      const rowHeight = 7;
+      const header = () => {
+        doc.setFillColor(...COLORS.band);
+        doc.rect(PAGE.margin, w.y, CONTENT_WIDTH, rowHeight, 'F');
+        w.setFont(8, 'bold', COLORS.muted);
+        let x = PAGE.margin + 2;
+        for (const col of columns) {
+          doc.text(col.label.toUpperCase(), col.align === 'right' ? x + col.width - 4 : x, w.y + 4.8, { align: col.align ?? 'left' });
+          x += col.width;
+        }
+        w.y += rowHeight;
+      };
+
+      w.ensureSpace(rowHeight * 2);
+      header();
+      for (const row of rows) {
+        const wrapped = row.cells.map((cell, i) => doc.splitTextToSize(pdfText(cell), columns[i].width - 4) as string[]);
+        const height = Math.max(rowHeight, Math.max(...wrapped.map(lines => lines.length)) * 4 + 3);
+        if (w.y + height > BOTTOM) {
+          w.ensureSpace(height + rowHeight);
+          header();
+        }
+        let x = PAGE.margin + 2;
+        wrapped.forEach((lines, i) => {
+          const color = row.colors?.[i];
+          w.setFont(9, color || i === 0 ? 'bold' : 'normal', color ?? COLORS.ink);
+          doc.text(lines, columns[i].align === 'right' ? x + columns[i].width - 4 : x, w.y + 4.8, { align: columns[i].align ?? 'left' });
+          x += columns[i].width;
+        });
+        w.y += height;
+        doc.setDrawColor(...COLORS.band);
+        doc.line(PAGE.margin, w.y, PAGE.width - PAGE.margin, w.y);
+      }
+      w.y += 4;
+    },
+
+    // Small line chart of one series, scaled to its own range
+    miniChart(x: number, y: number, width: number, height: number, title: string, unit: string, points: { date: string; value: number }[], color: Rgb) {
+      doc.setDrawColor(...COLORS.faint);
+      doc.roundedRect(x, y, width, height, 2, 2, 'S');
+
+      w.setFont(8, 'bold', COLORS.muted);
+      doc.text(pdfText(title.toUpperCase()), x + 3, y + 5);
+      const last = points[points.length - 1];
+      w.setFont(10, 'bold', COLORS.ink);
+      doc.text(`${last.value} ${unit}`, x + width - 3, y + 5.5, { align: 'right' });
+
+      const plot = { x: x + 4, y: y + 10, width: width - 8, height: height - 17 };
+      const values = points.map(p => p.value);
+      const min = Math.min(...values);
+      const span = Math.max(...values) - min || 1;
+      const coords = points.map((p, i) => [
+        plot.x + (points.length === 1 ? plot.width / 2 : (i / (points.length - 1)) * plot.width),
+        plot.y + plot.height - ((p.value - min) / span) * plot.height
+      ]);
+
+      doc.setDrawColor(...color);
+      doc.setLineWidth(0.6);
+      for (let i = 1; i < coords.length; i++) {
+        doc.line(coords[i - 1][0], coords[i - 1][1], coords[i][0], coords[i][1]);
+      }
+      doc.setLineWidth(0.2);
+      doc.setFillColor(...color);
+      coords.forEach(([cx, cy]) => doc.circle(cx, cy, 0.8, 'F'));
+
+      w.setFont(7, 'normal', COLORS.muted);
+      doc.text(formatDate(points[0].date), x + 3, y + height - 2.5);
+      doc.text(formatDate(last.date), x + width - 3, y + height - 2.5, { align: 'right' });
+    },
+
+    // Disclaimer and page numbers, drawn once every page exists
+    finish(generatedAt: Date) {
+      const pages = doc.getNumberOfPages();
+      for (let i = 1; i <= pages; i++) {
+        doc.setPage(i);
+        const top = PAGE.height - PAGE.footerHeight + 4;
+        doc.setDrawColor(...COLORS.faint);
+        doc.line(PAGE.margin, top, PAGE.width - PAGE.margin, top);
+        w.setFont(7, 'normal', COLORS.muted);
+        doc.text(doc.splitTextToSize(DISCLAIMER, CONTENT_WIDTH - 30), PAGE.margin, top + 4);
+        doc.text(`Page ${i} of ${pages}`, PAGE.width - PAGE.margin, top + 4, { align: 'right' });
+        doc.text(generatedAt.toLocaleString(), PAGE.width - PAGE.margin, top + 8, { align: 'right' });
+      }
+      return doc;
+    }
+  };
+
+  return w;
+};
+
+type ReportWriter = ReturnType<typeof createWriter>;
+
+const writeHeader = (w: ReportWriter, data: Pick<ClinicalReportData, 'title' | 'generatedAt' | 'patient'>) => {
+  const { doc } = w;
+  doc.setFillColor(...COLORS.ink);
+  doc.rect(0, 0, PAGE.width, 34, 'F');
+  w.setFont(20, 'bold', [255, 255, 255]);
+  doc.text('CardiaX', PAGE.margin, 15);
+  w.setFont(11, 'normal', [148, 163, 184]);
+  doc.text(pdfText(data.title), PAGE.margin, 23);
+  w.setFont(9, 'normal', [148, 163, 184]);
+  doc.text(`Generated ${data.generatedAt.toLocaleString()}`, PAGE.width - PAGE.margin, 23, { align: 'right' });
+  w.y = 42;
+
+  const { name, email, profile } = data.patient;
+  const age = profileAge(profile);
+  const bmi = profileBmi(profile);
+  const facts: [string, string][] = [
+    ['Patient', name || '—'],
+    ['Email', email || '—'],
+    ['Age', age !== undefined ? `${age}` : '—'],
+    ['Sex', profile?.sex ? profile.sex[0].toUpperCase() + profile.sex.slice(1) : '—'],
+    ['Height / Weight', profile?.heightCm && profile.weightKg ? `${profile.heightCm} cm / ${profile.weightKg} kg` : '—'],
+    ['BMI', bmi !== undefined ? `${bmi}` : '—']
+  ];
+
+  const colWidth = CONTENT_WIDTH / 3;
+  facts.forEach(([label, value], i) => {
+    const x = PAGE.margin + (i % 3) * colWidth;
+    const y = w.y + Math.floor(i / 3) * 11;
+    w.setFont(7, 'bold', COLORS.muted);
+    doc.text(label.toUpperCase(), x, y);
+    w.setFont(10, 'bold', COLORS.ink);
+    doc.text(pdfText(value), x, y + 5);
+  });
+  w.y += 22;
+
+  const lists: [string, string[]][] = [
+    ['Conditions', profile?.conditions ?? []],
+    ['Medications', (profile?.medications ?? []).map(m => [m.name, m.dose].filter(Boolean).join(' '))],
+    ['Allergies', profile?.allergies ?? []]
+  ];
+  for (const [label, items] of lists) {
+    if (items.length) w.paragraph(`${label}: ${items.join(', ')}`, { size: 9, gap: 1 });
+  }
+};
+
+const writeVitals = (w: ReportWriter, scan: VitalScanResult) => {
+  w.sectionTitle(`Vitals • ${formatDate(scan.timestamp)}`);
+  const columns: Column[] = [
+    { label: 'Measure', width: 50 },
+    { label: 'Result', width: 38 },
+    { label: 'Reference', width: 50 },
+    { label: 'Assessment', width: CONTENT_WIDTH - 138 }
+  ];
+  const findings = scan.interpretation?.findings;
+  if (findings?.length) {
+    w.table(columns, findings.map(f => ({
+      cells: [f.label, `${f.value} ${f.unit}${f.estimated ? ' (est.)' : ''}`, f.referenceRange.label, SEVERITY_LABELS[f.severity]],
+      colors: [undefined, undefined, undefined, SEVERITY_COLORS[f.severity]]
+    })));
+  } else {
+    w.table(columns, [
+      { cells: ['Heart rate', `${scan.heartRate} bpm`, '60–100', ''] },
+      { cells: ['Blood pressure (est.)', `${scan.bloodPressure.systolic}/${scan.bloodPressure.diastolic} mmHg`, '< 120/80', ''] },
+      { cells: ['HRV (RMSSD)', `${scan.hrv} ms`, '', ''] },
+      { cells: ['Stress', scan.stressLevel || '—', '', ''] }
+    ]);
+  }
+  if (scan.quality?.level === 'low') {
+    w.paragraph('Low signal quality: treat these readings with caution.', { size: 8, color: COLORS.low });
+  }
+};
+
+const writeLabs = (w: ReportWriter, results: LabResult[]) => {
+  w.sectionTitle('Laboratory Results');
+  w.table(
+    [
+      { label: 'Test', width: 58 },
+      { label: 'Result', width: 34, align: 'right' },
+      { label: 'Unit', width: 24 },
+      { label: 'Reference', width: 36 },
+      { label: 'Flag', width: CONTENT_WIDTH - 152 }
+    ],
+    results.map(r => ({
+      cells: [r.name, `${r.value}`, r.unit, r.referenceRange.label, `${r.flag.toUpperCase()}${r.verified ? ' (verified)' : ''}`],
+      colors: [undefined, r.flag === 'normal' ? undefined : COLORS[r.flag], undefined, undefined, COLORS[r.flag]]
+    }))
+  );
+};
+
+const writeTrends = (w: ReportWriter, data: ClinicalReportData) => {
+  const vitals = [...data.vitalsHistory].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const charts = [
+    { title: 'Heart rate', unit: 'bpm', color: COLORS.high, points: vitals.map(v => ({ date: v.timestamp, value: v.heartRate })) },
+    { title: 'Systolic BP', unit: 'mmHg', color: COLORS.blue, points: vitals.filter(v => v.systolic).map(v => ({ date: v.timestamp, value: v.systolic })) },
+    ...LIPID_TARGETS.map(t => ({
+      title: t.label,
+      unit: 'mg/dL',
+      color: COLORS.normal,
+      points: data.lipidTimeline.filter(p => p[t.analyte] !== undefined).map(p => ({ date: p.date, value: p[t.analyte]! }))
+    }))
+  ].filter(c => c.points.length >= 2);
+
+  if (!charts.length) return;
+  w.sectionTitle('Trends');
+  const width = (CONTENT_WIDTH - 6) / 2;
+  const height = 34;
+  for (let i = 0; i < charts.length; i += 2) {
+    w.ensureSpace(height + 4);
+    charts.slice(i, i + 2).forEach((c, j) => w.miniChart(PAGE.margin + j * (width + 6), w.y, width, height, c.title, c.unit, c.points, c.color));
+    w.y += height + 4;
+  }
+};
+
+const writeSummary = (w: ReportWriter, summary: string, title = 'AI Summary') => {
+  w.sectionTitle(title);
+  for (const raw of summary.split('\n')) {
+    const line = raw.trim();
+    if (!line) continue;
+    if (line.startsWith('#')) {
+      w.paragraph(line.replace(/^#+\s*/, ''), { size: 11, style: 'bold', gap: 1 });
+    } else if (/^[*-]\s/.test(line)) {
+      w.paragraph(`•  ${line.replace(/^[*-]\s+/, '').replace(/\*\*/g, '')}`, { size: 10, indent: 3, gap: 1 });
+    } else {
+      w.paragraph(line.replace(/\*\*/g, ''), { size: 10 });
+    }
+  }
+};
+
+/**
+ * Lays out the report. Sections without data are left out.
+ */
+export const buildClinicalReportPdf = (data: ClinicalReportData): jsPDF => {
+  const w = createWriter(`CardiaX ${data.title}${data.patient.name ? ` • ${data.patient.name}` : ''}`);
+  writeHeader(w, data);
+  if (data.scan) writeVitals(w, data.scan);
+  if (data.labResults.length) writeLabs(w, data.labResults);
+  writeTrends(w, data);
+  if (data.summary?.trim()) writeSummary(w, data.summary);
+  return w.finish(data.generatedAt);
+};
+
+const SOURCE_LABELS: Record<string, string> = { scan: 'camera scan', device: 'ESP32', sensor: 'sensor feed', wearable: 'wearable' };
+
+const writeVitalStats = (w: ReportWriter, summary: VisitSummary) => {
+  w.sectionTitle('Vitals');
+  if (!summary.vitals.length) {
+    w.paragraph('No readings in this period.', { size: 10, color: COLORS.muted });
+    return;
+  }
+  w.table(
+    [
+      { label: 'Measure', width: 36 },
+      { label: 'Mean', width: 24, align: 'right' },
+      { label: 'Min - Max', width: 30, align: 'right' },
+      { label: 'Normal', width: 22 },
+      { label: 'Out of range', width: 26 },
+      { label: 'Readings', width: CONTENT_WIDTH - 138 }
+    ],
+    summary.vitals.map(v => {
+      const out = v.below + v.above;
+      const sources = Object.entries(v.bySource).map(([source, n]) => `${n} ${SOURCE_LABELS[source] ?? source}`).join(', ');
+      return {
+        cells: [v.label, `${v.mean} ${v.unit}`, `${v.min} - ${v.max}`, v.range ?? '—', v.range ? `${out} of ${v.count}` : '—', sources],
+        colors: [undefined, undefined, undefined, undefined, out ? COLORS.high : undefined, undefined]
+      };
+    })
+  );
+};
+
+const writeLabChanges = (w: ReportWriter, summary: VisitSummary) => {
+  w.sectionTitle('Lab Changes');
+  w.table(
+    [
+      { label: 'Test', width: 44 },
+      { label: 'Previous', width: 38 },
+      { label: 'Latest', width: 38 },
+      { label: 'Change', width: 24, align: 'right' },
+      { label: 'Flag', width: CONTENT_WIDTH - 144 }
+    ],
+    summary.labChanges.map(l => ({
+      cells: [
+        l.name,
+        l.previous ? `${l.previous.value} (${formatDate(l.previous.date)})` : '—',
+        `${l.latest.value} ${l.unit} (${formatDate(l.latest.date)})`,
+        l.change === null ? '—' : `${l.change > 0 ? '+' : ''}${l.change}`,
+        `${l.latest.flag.toUpperCase()}${l.latest.verified ? ' (verified)' : ''}`
+      ],
+      colors: [undefined, undefined, undefined, undefined, COLORS[l.latest.flag]]
+    }))
+  );
+};
+
+const writeSymptoms = (w: ReportWriter, summary: VisitSummary) => {
+  w.sectionTitle('Reported Symptoms');
+  w.table(
+    [
+      { label: 'Symptom', width: 50 },
+      { label: 'Mentions', width: 22, align: 'right' },
+      { label: 'Last reported', width: 32 },
+      { label: "In the patient's words", width: CONTENT_WIDTH - 104 }
+    ],
+    summary.symptoms.map(s => ({
+      cells: [s.label, `${s.count}`, formatDate(s.lastReported), s.excerpts.map(e => `"${e}"`).join('\n')]
+    }))
+  );
+};
+
+/**
+ * Lays out a visit summary: the AI overview first, then the data it was
+ * written from.
+ */
+export const buildVisitSummaryPdf = (summary: VisitSummary, patient: ClinicalReportPatient): jsPDF => {
+  const title = `Visit Summary • ${formatDate(summary.from)} – ${formatDate(summary.to)}`;
+  const generatedAt = new Date(summary.generatedAt);
+  const w = createWriter(`CardiaX ${title}${patient.name ? ` • ${patient.name}` : ''}`);
+  writeHeader(w, { title, generatedAt, patient });
+  if (summary.overview?.trim()) writeSummary(w, summary.overview, 'Overview');
+  writeVitalStats(w, summary);
+  if (summary.labChanges.length) writeLabChanges(w, summary);
+  if (summary.symptoms.length) writeSymptoms(w, summary);
+  if (summary.reports.length) {
+    w.sectionTitle('Reports in this Period');
+    summary.reports.forEach(r => w.paragraph(
+      `•  ${formatDate(r.uploadedAt)}: ${r.reportType}${r.fileNames.length ? ` (${r.fileNames.join(', ')})` : ''}, ${r.labCount} lab value${r.labCount === 1 ? '' : 's'}${r.reviewed ? ', checked by the patient' : ''}`,
+      { size: 10, indent: 3, gap: 1 }
+    ));
+  }
+  return w.finish(generatedAt);
+};
+
+export const exportVisitSummary = async (summary: VisitSummary) => {
+  const [user, profile] = await Promise.all([authService.currentUser(), profileService.getProfile()]);
+  const doc = buildVisitSummaryPdf(summary, { name: user?.name, email: user?.email, profile });
+  doc.save(`Visit_Summary_${summary.to.slice(0, 10)}.pdf`);
+};
+
+/**
+ * Gathers the patient's profile, scan history and reports, then downloads
+ * the PDF. Callers pass what they have on screen; anything missing is
+ * filled in from the latest stored data.
+ */
+export const exportClinicalReport = async (options: {
+  title: string;
+  fileName: string;
+  scan?: VitalScanResult;
+  labResults?: LabResult[];
+  summary?: string;
+}) => {
+  const [user, profile, scans, reports] = await Promise.all([
+    authService.currentUser(),
+    profileService.getProfile(),
+    localServices.getScanHistory(),
+    aiService.fetchMedicalReports()
+  ]);
+
+  const goodScans = scans.filter((s: any) => s.qualityLevel !== 'low');
+  const vitalsHistory: VitalsPoint[] = goodScans.map((s: any) => ({
+    timestamp: s.timestamp,
+    heartRate: s.heartRate,
+    systolic: s.bloodPressure?.systolic,
+    diastolic: s.bloodPressure?.diastolic
+  }));
+
+  const doc = buildClinicalReportPdf({
+    title: options.title,
+    generatedAt: new Date(),
+    patient: { name: user?.name, email: user?.email, profile },
+    scan: options.scan ?? goodScans[0],
+    vitalsHistory,
+    labResults: options.labResults ?? reports.find(r => r.labResults?.length)?.labResults ?? [],
+    lipidTimeline: buildLipidTimeline(reports),
+    summary: options.summary
+  });
+  doc.save(options.fileName);
+};
@@ -0,0 +1,32 @@
+import { CardioRiskResult } from '../types';
+import { authFetch } from './authService';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+
+export const riskService = {
+  async getRiskScore(): Promise<CardioRiskResult | null> {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/risk-score`);
+      const data = await response.json();
+      return data.success ? data.risk : null;
+    } catch (error) {
+      console.error('Error fetching risk score:', error);
+      return null;
+    }
+  },
+
+  // Stores a raw eye service response so arcus feeds into the risk score
+  async saveEyeAnalysis(result: any): Promise<boolean> {
+    try {
+      const response = await authFetch(`${API_BASE_URL}/eye-analyses`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(result)
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Error saving eye analysis:', error);
+      return false;
+    }
+  }
+};
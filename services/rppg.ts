@@ -0,0 +1,399 @@
+import { RppgResponse, SignalQuality } from '../types';
+
+// In-browser rPPG pipeline: samples skin pixels from live video frames and
+// mirrors the maths of services/backend_bpm_service.py so both engines
+// produce comparable numbers.
+
+export interface RppgSample {
+  t: number;          // ms, performance.now()
+  r: number;
+  g: number;
+  b: number;
+  skinRatio: number;  // share of ROI pixels classified as skin
+  luminance: number;  // mean Y of the ROI, 0-255
+  face: boolean;
+}
+
+const TARGET_FPS = 30;
+const MIN_BPM_HZ = 0.7;   // 42 BPM
+const MAX_BPM_HZ = 3.5;   // 210 BPM
+const MIN_FACE_SECONDS = 10;
+const SKIN_RATIO_THRESHOLD = 0.25;
+const ROI_SIZE = 48;
+
+// ---------- Frame sampling ----------
+
+// Face region guide: centre of the frame where the on-screen framing puts the face
+const ROI = { x: 0.35, y: 0.2, w: 0.3, h: 0.4 };
+
+const isSkin = (r: number, g: number, b: number) => {
+  const cb = 128 - 0.168736 * r - 0.331264 * g + 0.5 * b;
+  const cr = 128 + 0.5 * r - 0.418688 * g - 0.081312 * b;
+  return cb >= 77 && cb <= 127 && cr >= 133 && cr <= 173;
+};
+
+export const createFrameSampler = () => {
+  const canvas = document.createElement('canvas');
+  canvas.width = ROI_SIZE;
+  canvas.height = ROI_SIZE;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+
+  return (video: HTMLVideoElement): RppgSample | null => {
+    if (!ctx || video.readyState < 2 || !video.videoWidth) return null;
+
+    const sx = video.videoWidth * ROI.x;
+    const sy = video.videoHeight * ROI.y;
+    const sw = video.videoWidth * ROI.w;
+    const sh = video.videoHeight * ROI.h;
+    ctx.drawImage(video, sx, sy, sw, sh, 0, 0, ROI_SIZE, ROI_SIZE);
+    const { data } = ctx.getImageData(0, 0, ROI_SIZE, ROI_SIZE);
+
+    let r = 0, g = 0, b = 0, skin = 0, luma = 0;
+    const total = data.length / 4;
+    for (let i = 0; i < data.length; i += 4) {
+      const pr = data[i], pg = data[i + 1], pb = data[i + 2];
+      luma += 0.299 * pr + 0.587 * pg + 0.114 * pb;
+      if (isSkin(pr, pg, pb)) {
+        r += pr; g += pg; b += pb;
+        skin++;
+      }
+    }
+
+    const skinRatio = skin / total;
+    return {
+      t: performance.now(),
+      r: skin ? r / skin : 0,
+      g: skin ? g / skin : 0,
+      b: skin ? b / skin : 0,
+      skinRatio,
+      luminance: luma / total,
+      face: skinRatio >= SKIN_RATIO_THRESHOLD
+    };
+  };
+};
+
+// ---------- Signal helpers ----------
+
+const mean = (x: number[]) => x.reduce((a, v) => a + v, 0) / (x.length || 1);
+
+const std = (x: number[]) => {
+  const m = mean(x);
+  return Math.sqrt(mean(x.map(v => (v - m) ** 2))) + 1e-10;
+};
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+// Linear interpolation of the face samples onto a uniform time grid
+const resample = (samples: RppgSample[], fs: number) => {
+  const t0 = samples[0].t;
+  const duration = (samples[samples.length - 1].t - t0) / 1000;
+  const n = Math.floor(duration * fs);
+  const r: number[] = [], g: number[] = [], b: number[] = [];
+  let j = 0;
+  for (let i = 0; i < n; i++) {
+    const t = t0 + (i / fs) * 1000;
+    while (j < samples.length - 2 && samples[j + 1].t < t) j++;
+    const a = samples[j], c = samples[j + 1];
+    const w = c.t === a.t ? 0 : clamp((t - a.t) / (c.t - a.t), 0, 1);
+    r.push(a.r + (c.r - a.r) * w);
+    g.push(a.g + (c.g - a.g) * w);
+    b.push(a.b + (c.b - a.b) * w);
+  }
+  return { r, g, b };
+};
+
+type Biquad = [number, number, number, number, number];
+
+// RBJ cookbook 2nd-order Butterworth sections, normalised by a0
+const biquad = (type: 'low' | 'high', f0: number, fs: number): Biquad => {
+  const w0 = (2 * Math.PI * f0) / fs;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / Math.SQRT2;
+  const a0 = 1 + alpha;
+  const b = type === 'low'
+    ? [(1 - cos) / 2, 1 - cos, (1 - cos) / 2]
+    : [(1 + cos) / 2, -(1 + cos), (1 + cos) / 2];
+  return [b[0] / a0, b[1] / a0, b[2] / a0, (-2 * cos) / a0, (1 - alpha) / a0];
+};
+
+const applyBiquad = (x: number[], [b0, b1, b2, a1, a2]: Biquad) => {
+  const y = new Array<number>(x.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < x.length; i++) {
+    const v = b0 * x[i] + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+    x2 = x1; x1 = x[i];
+    y2 = y1; y1 = v;
+    y[i] = v;
+  }
+  return y;
+};
+
+// Zero-phase band-pass (forward + reverse pass), with reflected padding to tame edge transients
+export const bandpass = (x: number[], fs: number, lo = MIN_BPM_HZ, hi = MAX_BPM_HZ) => {
+  if (x.length < 4) return x.slice();
+  const m = mean(x);
+  const centred = x.map(v => v - m);
+  const pad = Math.min(centred.length - 1, Math.round(fs));
+  const head = centred.slice(1, pad + 1).reverse();
+  const tail = centred.slice(-pad - 1, -1).reverse();
+  const sections = [biquad('high', lo, fs), biquad('high', lo, fs), biquad('low', hi, fs), biquad('low', hi, fs)];
+
+  const run = (sig: number[]) => sections.reduce((acc, s) => applyBiquad(acc, s), sig);
+  const forward = run([...head, ...centred, ...tail]);
+  const backward = run(forward.reverse()).reverse();
+  return backward.slice(pad, pad + x.length);
+};
+
+// ---------- Channel traces ----------
+
+export const greenTrace = (g: number[]) => {
+  const m = mean(g) || 1;
+  return g.map(v => v / m - 1);
+};
+
+// de Haan & Jeanne (2013) chrominance method
+export const chromTrace = (r: number[], g: number[], b: number[], fs: number) => {
+  const mr = mean(r) || 1, mg = mean(g) || 1, mb = mean(b) || 1;
+  const x = r.map((v, i) => 3 * (v / mr) - 2 * (g[i] / mg));
+  const y = r.map((v, i) => 1.5 * (v / mr) + g[i] / mg - 1.5 * (b[i] / mb));
+  const xf = bandpass(x, fs);
+  const yf = bandpass(y, fs);
+  const alpha = std(xf) / std(yf);
+  return xf.map((v, i) => v - alpha * yf[i]);
+};
+
+// Wang et al. (2017) plane-orthogonal-to-skin method, 1.6 s overlap-add windows
+export const posTrace = (r: number[], g: number[], b: number[], fs: number) => {
+  const n = r.length;
+  const win = Math.max(2, Math.round(1.6 * fs));
+  const h = new Array<number>(n).fill(0);
+  for (let start = 0; start + win <= n; start++) {
+    const end = start + win;
+    const wr = r.slice(start, end), wg = g.slice(start, end), wb = b.slice(start, end);
+    const mr = mean(wr) || 1, mg = mean(wg) || 1, mb = mean(wb) || 1;
+    const s1 = wg.map((v, i) => v / mg - wb[i] / mb);
+    const s2 = wg.map((v, i) => v / mg + wb[i] / mb - 2 * (wr[i] / mr));
+    const alpha = std(s1) / std(s2);
+    const hw = s1.map((v, i) => v + alpha * s2[i]);
+    const m = mean(hw);
+    for (let i = 0; i < win; i++) h[start + i] += hw[i] - m;
+  }
+  return h;
+};
+
+// ---------- Estimation ----------
+
+// Amplitude spectrum over the heart-rate band; returns peak frequency and SNR (peak / mean)
+export const spectralPeak = (x: number[], fs: number) => {
+  let peakAmp = 0, peakHz = 0, total = 0, bins = 0;
+  for (let f = MIN_BPM_HZ; f <= MAX_BPM_HZ; f += 0.01) {
+    let re = 0, im = 0;
+    const w = (2 * Math.PI * f) / fs;
+    for (let i = 0; i < x.length; i++) {
+      re += x[i] * Math.cos(w * i);
+      im -= x[i] * Math.sin(w * i);
+    }
+    const amp = Math.sqrt(re * re + im * im);
+    total += amp;
+    bins++;
+    if (amp > peakAmp) {
+      peakAmp = amp;
+      peakHz = f;
+    }
+  }
+  const meanAmp = total / (bins || 1);
+  return { hz: peakHz, snr: meanAmp ? peakAmp / meanAmp : 0 };
+};
+
+export const qualityFromSnr = (snr: number): SignalQuality => {
+  if (snr > 3.0) return 'Excellent';
+  if (snr > 2.0) return 'Good';
+  if (snr > 1.5) return 'Fair';
+  return 'Poor';
+};
+
+// Beat-to-beat intervals from the filtered pulse; RMSSD in ms, or null when too few clean beats
+export const rmssdFromPulse = (pulse: number[], fs: number, bpm: number) => {
+  const minGap = Math.max(1, Math.floor(0.6 * (60 / bpm) * fs));
+  const peaks: number[] = [];
+  for (let i = 1; i < pulse.length - 1; i++) {
+    if (pulse[i] <= pulse[i - 1] || pulse[i] < pulse[i + 1] || pulse[i] <= 0) continue;
+    const last = peaks[peaks.length - 1];
+    if (last !== undefined && i - last < minGap) {
+      if (pulse[i] > pulse[last]) peaks[peaks.length - 1] = i;
+      continue;
+    }
+    peaks.push(i);
+  }
+
+  // Parabolic interpolation refines each peak to sub-sample precision
+  const refined = peaks.map(i => {
+    const a = pulse[i - 1], c = pulse[i], d = pulse[i + 1];
+    const denom = a - 2 * c + d;
+    return i + (denom ? 0.5 * (a - d) / denom : 0);
+  });
+
+  const intervals = refined.slice(1).map((p, i) => ((p - refined[i]) / fs) * 1000);
+  if (intervals.length < 8) return null;
+
+  const sorted = [...intervals].sort((x, y) => x - y);
+  const median = sorted[Math.floor(sorted.length / 2)];
+  const clean = intervals.filter(v => v > median * 0.7 && v < median * 1.3);
+  if (clean.length < 8) return null;
+
+  const diffs = clean.slice(1).map((v, i) => (v - clean[i]) ** 2);
+  return Math.sqrt(mean(diffs));
+};
+
+export const analyzeSamples = (samples: RppgSample[]): RppgResponse => {
+  const faceSamples = samples.filter(s => s.face);
+  const duration = samples.length > 1 ? (samples[samples.length - 1].t - samples[0].t) / 1000 : 0;
+  const faceDuration = faceSamples.length > 1 ? (faceSamples[faceSamples.length - 1].t - faceSamples[0].t) / 1000 : 0;
+
+  const base = {
+    heart_rate: 0,
+    hrv: 0,
+    blood_pressure: { systolic: 0, diastolic: 0 },
+    stress_index: 0,
+    quality: 'Poor' as SignalQuality,
+    confidence: 0,
+    frames_processed: samples.length,
+    face_frames: faceSamples.length,
+    duration_seconds: duration,
+    mean_luminance: Math.round(mean(samples.map(s => s.luminance))),
+    motion_ratio: samples.length > 1
+      ? Math.round((samples.slice(1).filter((s, i) => Math.abs(s.luminance - samples[i].luminance) > 4).length / (samples.length - 1)) * 100) / 100
+      : 0
+  };
+
+  if (faceDuration < MIN_FACE_SECONDS) {
+    return {
+      ...base,
+      success: false,
+      error: `Insufficient face data. Got ${faceDuration.toFixed(1)}s (need ${MIN_FACE_SECONDS}s+). Keep your face inside the frame.`
+    };
+  }
+
+  const fs = TARGET_FPS;
+  const { r, g, b } = resample(faceSamples, fs);
+
+  const candidates = [
+    { method: 'green' as const, pulse: bandpass(greenTrace(g), fs) },
+    { method: 'chrom' as const, pulse: chromTrace(r, g, b, fs) },
+    { method: 'pos' as const, pulse: bandpass(posTrace(r, g, b, fs), fs) }
+  ].map(c => ({ ...c, ...spectralPeak(c.pulse, fs) }));
+
+  const best = candidates.reduce((a, c) => (c.snr > a.snr ? c : a));
+  const bpm = best.hz * 60;
+
+  if (best.snr < 1.5 || bpm < 40 || bpm > 200) {
+    return {
+      ...base,
+      success: false,
+      quality: qualityFromSnr(best.snr),
+      error: `No valid heart rate detected. Quality: ${qualityFromSnr(best.snr)}. Try better lighting.`
+    };
+  }
+
+  const confidence = Math.min(100, (best.snr / 3.0) * 100);
+
+  // BP, stress and fallback HRV use the same experimental heuristics as the server engine
+  const systolic = clamp(Math.trunc(105 + (bpm - 65) * 0.8), 90, 160);
+  const diastolic = clamp(Math.trunc(70 + (bpm - 65) * 0.5), 60, 100);
+
+  const rmssd = rmssdFromPulse(best.pulse, fs, bpm);
+  const hrv = rmssd !== null
+    ? Math.round(clamp(rmssd, 5, 250))
+    : clamp(Math.trunc(75 - (bpm - 65) * 0.4), 25, 95);
+
+  const hrFactor = Math.max(0, ((bpm - 70) / 30) * 40);
+  const lowHrvFactor = Math.max(0, ((75 - hrv) / 50) * 30);
+
+  return {
+    ...base,
+    success: true,
+    heart_rate: Math.round(bpm * 10) / 10,
+    hrv,
+    blood_pressure: { systolic, diastolic },
+    stress_index: Math.round(Math.min(100, hrFactor + lowHrvFactor) * 10) / 10,
+    quality: qualityFromSnr(best.snr),
+    confidence: Math.round(confidence * 10) / 10,
+    method: best.method,
+    hrv_method: rmssd !== null ? 'rr' : 'estimated'
+  };
+};
+
+// ---------- Live feedback ----------
+
+export type LiveIssue = 'motion' | 'lighting' | 'face_lost';
+
+export interface LiveSignal {
+  bpm: number | null;
+  quality: SignalQuality;
+  confidence: number;
+  issues: LiveIssue[];
+}
+
+const QUALITY_LEVELS: SignalQuality[] = ['Poor', 'Fair', 'Good', 'Excellent'];
+
+const recent = (samples: RppgSample[], seconds: number) => {
+  if (!samples.length) return [];
+  const cutoff = samples[samples.length - 1].t - seconds * 1000;
+  let i = samples.length - 1;
+  while (i > 0 && samples[i - 1].t >= cutoff) i--;
+  return samples.slice(i);
+};
+
+// Motion, lighting and face presence over the last couple of seconds
+export const detectLiveIssues = (samples: RppgSample[]): LiveIssue[] => {
+  const tail = recent(samples, 2);
+  if (tail.length < 10) return [];
+
+  const issues: LiveIssue[] = [];
+  const faceShare = tail.filter(s => s.face).length / tail.length;
+  if (faceShare < 0.5) issues.push('face_lost');
+
+  const luma = mean(tail.map(s => s.luminance));
+  if (luma < 50 || luma > 220) issues.push('lighting');
+
+  const lumaJumps = tail.slice(1).map((s, i) => Math.abs(s.luminance - tail[i].luminance));
+  if (mean(lumaJumps) > 3 || std(tail.map(s => s.skinRatio)) > 0.08) issues.push('motion');
+
+  return issues;
+};
+
+// Band-passed green trace of the last few seconds, scaled to [-1, 1] for drawing
+export const liveWaveform = (samples: RppgSample[], seconds = 6) => {
+  const tail = recent(samples, seconds).filter(s => s.face);
+  if (tail.length < TARGET_FPS * 2) return [];
+  const { g } = resample(tail, TARGET_FPS);
+  const pulse = bandpass(greenTrace(g), TARGET_FPS);
+  const peak = Math.max(...pulse.map(Math.abs)) || 1;
+  return pulse.map(v => v / peak);
+};
+
+// Rolling estimate over the last `windowSec` seconds; issues downgrade the reported quality
+export const analyzeLiveWindow = (samples: RppgSample[], windowSec = 10): LiveSignal => {
+  const issues = detectLiveIssues(samples);
+  const faceSamples = recent(samples, windowSec).filter(s => s.face);
+  const faceSeconds = faceSamples.length > 1 ? (faceSamples[faceSamples.length - 1].t - faceSamples[0].t) / 1000 : 0;
+
+  if (faceSeconds < 5) {
+    return { bpm: null, quality: 'Poor', confidence: 0, issues };
+  }
+
+  const { r, g, b } = resample(faceSamples, TARGET_FPS);
+  const pulse = bandpass(posTrace(r, g, b, TARGET_FPS), TARGET_FPS);
+  const { hz, snr } = spectralPeak(pulse, TARGET_FPS);
+
+  let level = QUALITY_LEVELS.indexOf(qualityFromSnr(snr));
+  if (issues.includes('face_lost')) level = 0;
+  else level = Math.max(0, level - issues.length);
+
+  return {
+    bpm: snr >= 1.5 ? Math.round(hz * 60) : null,
+    quality: QUALITY_LEVELS[level],
+    confidence: Math.round(Math.min(100, (snr / 3.0) * 100)),
+    issues
+  };
+};
@@ -0,0 +1,50 @@
+import { ScanProtocol, ScanProtocolId } from '../types';
+
+export const SCAN_PROTOCOLS: ScanProtocol[] = [
+  {
+    id: 'quick',
+    label: 'Quick',
+    description: '15s heart-rate check. HRV is less reliable at this length.',
+    durationSec: 15,
+    countdownSec: 3
+  },
+  {
+    id: 'standard',
+    label: 'Standard',
+    description: '30s resting scan for heart rate, HRV and BP estimate.',
+    durationSec: 30,
+    countdownSec: 3
+  },
+  {
+    id: 'extended',
+    label: 'Extended HRV',
+    description: '60s scan for a more stable RR-interval HRV reading.',
+    durationSec: 60,
+    countdownSec: 5
+  },
+  {
+    id: 'paced_breathing',
+    label: 'Paced Breathing',
+    description: '60s at 6 breaths/min following the on-screen guide.',
+    durationSec: 60,
+    countdownSec: 5,
+    breathing: { inhaleSec: 5, exhaleSec: 5 }
+  }
+];
+
+export const DEFAULT_PROTOCOL_ID: ScanProtocolId = 'standard';
+
+// The Python rPPG engine rejects recordings shorter than this
+export const SERVER_MIN_DURATION_SEC = 25;
+
+export const getScanProtocol = (id?: ScanProtocolId | string): ScanProtocol =>
+  SCAN_PROTOCOLS.find(p => p.id === id) || SCAN_PROTOCOLS.find(p => p.id === DEFAULT_PROTOCOL_ID)!;
+
+export const breathingPhase = (protocol: ScanProtocol, elapsedSec: number) => {
+  if (!protocol.breathing) return null;
+  const { inhaleSec, exhaleSec } = protocol.breathing;
+  const pos = elapsedSec % (inhaleSec + exhaleSec);
+  return pos < inhaleSec
+    ? { phase: 'inhale' as const, remaining: inhaleSec - pos }
+    : { phase: 'exhale' as const, remaining: inhaleSec + exhaleSec - pos };
+};
@@ -0,0 +1,42 @@
+import { RppgResponse, RetakeReason, ScanQualityAssessment } from '../types';
+
+// Thresholds a scan must meet to count towards trends
+export const QUALITY_POLICY = {
+  minFaceRatio: 0.7,        // face_frames / frames_processed
+  minConfidence: 50,        // %
+  minDurationRatio: 0.8,    // of the requested capture length
+  minLuminance: 60,
+  maxLuminance: 210,
+  maxMotionRatio: 0.15
+};
+
+export const RETAKE_ADVICE: Record<RetakeReason, string> = {
+  too_dark: 'Too dark — face a window or lamp so your face is evenly lit.',
+  too_bright: 'Too bright — avoid direct sunlight or a light source behind the camera.',
+  face_moved: 'Face moved — rest your elbows on a table and keep your head still.',
+  face_lost: 'Face left the frame — keep your face centred in the guide for the whole scan.',
+  too_short: 'Too short — let the scan run until it stops by itself.',
+  weak_signal: 'Weak pulse signal — remove glasses or hair from your forehead and try again.'
+};
+
+export const assessScanQuality = (data: Partial<RppgResponse>, expectedDurationSec = 30): ScanQualityAssessment => {
+  const reasons: RetakeReason[] = [];
+  const frames = data.frames_processed || 0;
+  const faceRatio = frames ? (data.face_frames || 0) / frames : 0;
+
+  if (data.mean_luminance !== undefined && data.mean_luminance < QUALITY_POLICY.minLuminance) reasons.push('too_dark');
+  if (data.mean_luminance !== undefined && data.mean_luminance > QUALITY_POLICY.maxLuminance) reasons.push('too_bright');
+  if (data.motion_ratio !== undefined && data.motion_ratio > QUALITY_POLICY.maxMotionRatio) reasons.push('face_moved');
+  if (frames && faceRatio < QUALITY_POLICY.minFaceRatio) reasons.push('face_lost');
+  if ((data.duration_seconds || 0) < expectedDurationSec * QUALITY_POLICY.minDurationRatio) reasons.push('too_short');
+
+  // A failed analysis with no more specific cause is reported as a weak signal
+  const lowConfidence = (data.confidence || 0) < QUALITY_POLICY.minConfidence || data.quality === 'Poor';
+  if (data.success ? lowConfidence : !reasons.length) reasons.push('weak_signal');
+
+  return {
+    level: reasons.length ? 'low' : 'good',
+    reasons,
+    advice: reasons.map(r => RETAKE_ADVICE[r])
+  };
+};
@@ -0,0 +1,47 @@
+import { VisitSummary } from '../types';
+import { authFetch } from './authService';
+import supabase from '../components/supabaseClient.js';
+
+const API_BASE_URL = 'http://localhost:5000/api';
+// Matches MAX_SENSOR_READINGS in backend/lib/visitSummary.js
+const MAX_SENSOR_READINGS = 5000;
+
+export interface SensorReading {
+  bpm: number;
+  spo2: number;
+  created_at: string;
+}
+
+// The Supabase feed is only reachable from the browser, so its readings are
+// fetched here and sent with the request. Without them the summary still
+// covers scans and the ESP32 data stored by the backend.
+const fetchSensorReadings = async (from: Date, to: Date): Promise<SensorReading[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('health_readings')
+      .select('bpm, spo2, created_at')
+      .gte('created_at', from.toISOString())
+      .lte('created_at', to.toISOString())
+      .order('created_at', { ascending: false })
+      .limit(MAX_SENSOR_READINGS);
+    if (error) throw error;
+    return data || [];
+  } catch (error) {
+    console.warn('Sensor readings unavailable for the visit summary:', error);
+    return [];
+  }
+};
+
+export const visitSummaryService = {
+  async generate(from: Date, to: Date): Promise<VisitSummary> {
+    const sensorReadings = await fetchSensorReadings(from, to);
+    const response = await authFetch(`${API_BASE_URL}/visit-summary`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from: from.toISOString(), to: to.toISOString(), sensorReadings })
+    });
+    const data = await response.json();
+    if (!data.success) throw new Error(data.error || 'Failed to generate the visit summary');
+    return data.summary;
+  }
+};
@@ -0,0 +1,145 @@
+import { Demographics, FindingSeverity, MetricFinding, ReferenceRange, VitalInterpretation, VitalScanResult, VitalStatus } from '../types';
+
+// Deterministic interpretation of a vital scan. The AI narrative is attached
+// afterwards as `narrative` and never changes severities or status.
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = { normal: 0, borderline: 1, attention: 2, critical: 3 };
+
+export const SEVERITY_LABELS: Record<FindingSeverity, string> = {
+  normal: 'Normal',
+  borderline: 'Borderline',
+  attention: 'Needs attention',
+  critical: 'Critical'
+};
+
+// Short-term RMSSD reference bands by age (ms)
+const HRV_BANDS: { maxAge: number; low: number; high: number }[] = [
+  { maxAge: 29, low: 25, high: 90 },
+  { maxAge: 39, low: 20, high: 80 },
+  { maxAge: 49, low: 16, high: 65 },
+  { maxAge: 59, low: 13, high: 55 },
+  { maxAge: Infinity, low: 10, high: 50 }
+];
+
+const rangeLabel = (low?: number, high?: number) =>
+  low !== undefined && high !== undefined ? `${low}–${high}` : low !== undefined ? `≥ ${low}` : `< ${high}`;
+
+const range = (low?: number, high?: number): ReferenceRange => ({ low, high, label: rangeLabel(low, high) });
+
+export const interpretHeartRate = (bpm: number, { age, sex }: Demographics): MetricFinding => {
+  // Resting HR runs a few beats higher in women; older adults tolerate less tachycardia
+  const high = age !== undefined && age >= 65 ? 95 : 100;
+  const low = sex === 'female' ? 55 : 50;
+  const ref = range(60, high);
+
+  let severity: FindingSeverity = 'normal';
+  let summary = `${bpm} bpm is within the resting range.`;
+  if (bpm < 40 || bpm > 130) {
+    severity = 'critical';
+    summary = `${bpm} bpm is far outside the resting range.`;
+  } else if (bpm > high + 20 || bpm < low - 5) {
+    severity = 'attention';
+    summary = bpm > high ? `${bpm} bpm indicates resting tachycardia.` : `${bpm} bpm indicates bradycardia.`;
+  } else if (bpm > high || bpm < 60) {
+    severity = 'borderline';
+    summary = bpm > high
+      ? `${bpm} bpm is slightly above the resting range — recheck after 5 minutes of rest.`
+      : `${bpm} bpm is below 60, which can be normal in physically fit people.`;
+  }
+
+  return { metric: 'heart_rate', label: 'Heart Rate', value: `${bpm}`, unit: 'bpm', referenceRange: ref, severity, summary, estimated: false };
+};
+
+export const interpretHrv = (rmssd: number, { age }: Demographics, estimated: boolean): MetricFinding => {
+  const band = HRV_BANDS.find(b => (age ?? 35) <= b.maxAge)!;
+  const ref = range(band.low, band.high);
+
+  let severity: FindingSeverity = 'normal';
+  let summary = `${rmssd} ms is within the expected range${age !== undefined ? ` for age ${age}` : ''}.`;
+  if (rmssd < band.low * 0.6) {
+    severity = 'attention';
+    summary = `${rmssd} ms is well below the expected range, suggesting high sympathetic load or fatigue.`;
+  } else if (rmssd < band.low) {
+    severity = 'borderline';
+    summary = `${rmssd} ms is slightly below the expected range.`;
+  }
+  if (estimated) summary += ' Estimated from heart rate, not measured beat-to-beat.';
+
+  return { metric: 'hrv', label: 'HRV (RMSSD)', value: `${rmssd}`, unit: 'ms', referenceRange: ref, severity, summary, estimated };
+};
+
+// ACC/AHA 2017 categories
+export const interpretBloodPressure = (systolic: number, diastolic: number): MetricFinding => {
+  let severity: FindingSeverity = 'normal';
+  let summary = 'Normal blood pressure category.';
+  if (systolic > 180 || diastolic > 120) {
+    severity = 'critical';
+    summary = 'Hypertensive crisis range.';
+  } else if (systolic >= 140 || diastolic >= 90) {
+    severity = 'attention';
+    summary = 'Stage 2 hypertension range.';
+  } else if (systolic >= 130 || diastolic >= 80) {
+    severity = 'attention';
+    summary = 'Stage 1 hypertension range.';
+  } else if (systolic >= 120) {
+    severity = 'borderline';
+    summary = 'Elevated blood pressure category.';
+  } else if (systolic < 90 || diastolic < 60) {
+    severity = 'borderline';
+    summary = 'Below the usual range (hypotension).';
+  }
+  summary += ' Camera-based BP is an estimate; confirm with a cuff.';
+
+  return {
+    metric: 'blood_pressure',
+    label: 'Blood Pressure',
+    value: `${systolic}/${diastolic}`,
+    unit: 'mmHg',
+    referenceRange: { high: 120, label: '< 120/80' },
+    severity,
+    summary,
+    estimated: true
+  };
+};
+
+export const interpretStress = (index: number): MetricFinding => {
+  const severity: FindingSeverity = index > 60 ? 'attention' : index >= 40 ? 'borderline' : 'normal';
+  const summary = severity === 'normal'
+    ? 'Low physiological stress.'
+    : severity === 'borderline' ? 'Moderate physiological stress.' : 'High physiological stress.';
+  return { metric: 'stress', label: 'Stress Index', value: `${Math.round(index)}`, unit: '/100', referenceRange: range(undefined, 40), severity, summary, estimated: true };
+};
+
+const statusFor = (findings: MetricFinding[]): VitalStatus => {
+  const worst = Math.max(...findings.map(f => SEVERITY_RANK[f.severity]));
+  return (['OPTIMAL', 'STABLE', 'ATTENTION', 'URGENT'] as VitalStatus[])[worst];
+};
+
+export const interpretVitals = (
+  result: VitalScanResult,
+  demographics: Demographics = {},
+  stressIndex?: number
+): VitalInterpretation => {
+  const findings = [
+    interpretHeartRate(result.heartRate, demographics),
+    interpretHrv(result.hrv, demographics, result.hrvMethod !== 'rr'),
+    interpretBloodPressure(result.bloodPressure.systolic, result.bloodPressure.diastolic)
+  ];
+  if (stressIndex !== undefined) findings.push(interpretStress(stressIndex));
+
+  const status = statusFor(findings);
+  const flagged = findings.filter(f => f.severity !== 'normal');
+
+  const summary = flagged.length
+    ? `${flagged.length} of ${findings.length} metrics outside the reference range: ${flagged.map(f => f.label).join(', ')}.`
+    : `All ${findings.length} metrics within the reference range.`;
+
+  let verdict = status === 'URGENT'
+    ? 'One or more readings are in a critical range. If you feel unwell, seek medical care now.'
+    : status === 'ATTENTION'
+    ? 'Some readings need attention. Repeat the scan at rest and discuss persistent results with a clinician.'
+    : 'Readings are consistent with a healthy resting state.';
+  if (result.quality?.level === 'low') verdict += ' Signal quality was low, so treat these numbers with caution.';
+
+  return { status, findings, summary, verdict, demographics, generatedAt: new Date().toISOString() };
+};
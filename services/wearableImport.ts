@@ -0,0 +1,301 @@
+import { authFetch } from './authService';
+
+// Imports vitals from wearable export files. Files are parsed here in the
+// browser (an Apple Health export.xml easily runs to hundreds of MB) and only
+// the normalised samples are sent to the backend, which de-duplicates them
+// against existing readings (backend/routes/healthData.js).
+
+const API_BASE_URL = 'http://localhost:5000/api';
+// Well under MAX_BATCH in backend/routes/healthData.js
+const BATCH_SIZE = 2000;
+
+export type WearableSource = 'apple-health' | 'google-fit' | 'csv';
+
+// One reading; a sample usually carries a single measure
+export interface WearableSample {
+  timestamp: string;
+  bpm?: number;
+  restingHeartRate?: number;
+  hrv?: number;
+  hrvMethod?: 'rmssd' | 'sdnn';
+  spo2?: number;
+  systolic?: number;
+  diastolic?: number;
+}
+
+export interface WearableImportProgress {
+  stage: 'reading' | 'uploading';
+  progress: number;    // 0-1
+}
+
+export interface WearableImportResult {
+  source: WearableSource;
+  parsed: number;
+  imported: number;
+  duplicates: number;
+  rejected: number;
+  from?: string;
+  to?: string;
+}
+
+export const WEARABLE_SOURCE_LABELS: Record<WearableSource, string> = {
+  'apple-health': 'Apple Health',
+  'google-fit': 'Google Fit',
+  csv: 'CSV'
+};
+
+export const detectWearableSource = (file: File): WearableSource | null => {
+  const name = file.name.toLowerCase();
+  if (name.endsWith('.xml')) return 'apple-health';
+  if (name.endsWith('.json')) return 'google-fit';
+  if (name.endsWith('.csv') || name.endsWith('.txt')) return 'csv';
+  return null;
+};
+
+// --- Apple Health ---------------------------------------------------------
+
+type SampleField = 'bpm' | 'restingHeartRate' | 'hrv' | 'spo2' | 'systolic' | 'diastolic';
+
+const APPLE_TYPES: Record<string, SampleField> = {
+  HKQuantityTypeIdentifierHeartRate: 'bpm',
+  HKQuantityTypeIdentifierRestingHeartRate: 'restingHeartRate',
+  HKQuantityTypeIdentifierHeartRateVariabilitySDNN: 'hrv',
+  HKQuantityTypeIdentifierOxygenSaturation: 'spo2',
+  HKQuantityTypeIdentifierBloodPressureSystolic: 'systolic',
+  HKQuantityTypeIdentifierBloodPressureDiastolic: 'diastolic'
+};
+
+const attributesOf = (tag: string) => {
+  const attrs: Record<string, string> = {};
+  for (const [, key, value] of tag.matchAll(/(\w+)="([^"]*)"/g)) attrs[key] = value;
+  return attrs;
+};
+
+// "2024-03-01 08:15:02 +0100" -> ISO 8601
+const appleDate = (value: string) => {
+  const match = value.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  return match ? new Date(`${match[1]}T${match[2]}${match[3]}:${match[4]}`).toISOString() : null;
+};
+
+/**
+ * Streams export.xml and picks out the <Record> elements we use. Systolic and
+ * diastolic records sharing a start time are paired into one reading; Apple
+ * repeats them inside each blood pressure correlation, which the pairing
+ * absorbs.
+ */
+export const parseAppleHealth = async (file: File, onProgress?: (progress: number) => void): Promise<WearableSample[]> => {
+  const samples: WearableSample[] = [];
+  const pressure = new Map<string, WearableSample>();
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let read = 0;
+
+  const take = (tag: string) => {
+    const attrs = attributesOf(tag);
+    const field = APPLE_TYPES[attrs.type];
+    const timestamp = field && appleDate(attrs.startDate || '');
+    const value = parseFloat(attrs.value);
+    if (!field || !timestamp || !Number.isFinite(value)) return;
+
+    if (field === 'systolic' || field === 'diastolic') {
+      const reading = pressure.get(timestamp) || { timestamp };
+      reading[field] = value;
+      pressure.set(timestamp, reading);
+    } else if (field === 'spo2') {
+      // Stored as a fraction
+      samples.push({ timestamp, spo2: Math.round((value <= 1 ? value * 100 : value) * 10) / 10 });
+    } else if (field === 'hrv') {
+      samples.push({ timestamp, hrv: value, hrvMethod: 'sdnn' });
+    } else {
+      samples.push({ timestamp, [field]: value });
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    read += value.length;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Only complete tags; the rest waits for the next chunk
+    const end = buffer.lastIndexOf('>') + 1;
+    for (const [tag] of buffer.slice(0, end).matchAll(/<Record\b[^>]*>/g)) take(tag);
+    buffer = buffer.slice(end);
+    onProgress?.(read / file.size);
+  }
+
+  return [...samples, ...[...pressure.values()].filter(r => r.systolic !== undefined && r.diastolic !== undefined)];
+};
+
+// --- Google Fit -----------------------------------------------------------
+
+interface FitValue {
+  fpVal?: number;
+  intVal?: number;
+}
+
+interface FitPoint {
+  dataTypeName?: string;
+  startTimeNanos?: string | number;
+  value?: FitValue[];       // Fitness REST API
+  fitValue?: { value: FitValue }[];   // Takeout
+}
+
+const fitNumber = (v?: FitValue) => v?.fpVal ?? v?.intVal;
+
+// Takeout "All Data" files hold "Data Points"; REST API datasets hold "point",
+// aggregate responses nest them under bucket[].dataset[]
+const fitPointsOf = (data: any): FitPoint[] => [
+  ...(data['Data Points'] || []),
+  ...(data.point || []),
+  ...(data.bucket || []).flatMap((b: any) => (b.dataset || []).flatMap((d: any) => d.point || []))
+];
+
+export const parseGoogleFit = (text: string): WearableSample[] => {
+  const data = JSON.parse(text);
+  return fitPointsOf(Array.isArray(data) ? { point: data } : data).flatMap((point): WearableSample[] => {
+    const values = point.value ?? (point.fitValue || []).map(v => v.value);
+    const nanos = String(point.startTimeNanos ?? '');
+    if (nanos.length < 7) return [];
+    const timestamp = new Date(Number(nanos.slice(0, -6))).toISOString();
+
+    switch (point.dataTypeName) {
+      case 'com.google.heart_rate.bpm': {
+        const bpm = fitNumber(values[0]);
+        return bpm !== undefined ? [{ timestamp, bpm }] : [];
+      }
+      case 'com.google.oxygen_saturation': {
+        const spo2 = fitNumber(values[0]);
+        return spo2 !== undefined ? [{ timestamp, spo2 }] : [];
+      }
+      case 'com.google.blood_pressure': {
+        const [systolic, diastolic] = [fitNumber(values[0]), fitNumber(values[1])];
+        return systolic !== undefined && diastolic !== undefined ? [{ timestamp, systolic, diastolic }] : [];
+      }
+      default:
+        return [];
+    }
+  });
+};
+
+// --- CSV ------------------------------------------------------------------
+
+// Header -> field, first match wins (so "resting heart rate" isn't read as heart rate)
+const CSV_COLUMNS: [RegExp, SampleField | 'bloodPressure'][] = [
+  [/resting/i, 'restingHeartRate'],
+  [/rmssd|sdnn|\bhrv\b|variability/i, 'hrv'],
+  [/spo2|sp02|oxygen|saturation/i, 'spo2'],
+  [/systolic|\bsys\b/i, 'systolic'],
+  [/diastolic|\bdia\b/i, 'diastolic'],
+  [/blood\s*pressure|\bbp\b/i, 'bloodPressure'],
+  [/heart|pulse|\bhr\b|bpm/i, 'bpm']
+];
+const TIME_COLUMN = /date|time|timestamp|recorded/i;
+
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') { cell += '"'; i++; } else quoted = !quoted;
+    } else if (ch === delimiter && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+const csvNumber = (cell: string | undefined) => {
+  const value = parseFloat((cell || '').replace(',', '.'));
+  return Number.isFinite(value) ? value : undefined;
+};
+
+/**
+ * A header row naming a date/time column and one or more measures, e.g.
+ * "Date,Heart Rate,SpO2,Blood Pressure" with "120/80" style pressures.
+ * Separate date and time columns are joined.
+ */
+export const parseCsv = (text: string): WearableSample[] => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim());
+  if (lines.length < 2) throw new Error('The CSV file has no data rows');
+
+  const delimiter = [',', ';', '\t'].reduce((best, d) => (lines[0].split(d).length > lines[0].split(best).length ? d : best), ',');
+  const header = splitCsvLine(lines[0], delimiter);
+  const timeColumns = header.map((h, i) => (TIME_COLUMN.test(h) ? i : -1)).filter(i => i >= 0);
+  const columns = header.flatMap((h, i) => {
+    if (timeColumns.includes(i)) return [];
+    const match = CSV_COLUMNS.find(([pattern]) => pattern.test(h));
+    return match ? [{ index: i, field: match[1], sdnn: /sdnn/i.test(h) }] : [];
+  });
+  if (!timeColumns.length || !columns.length) {
+    throw new Error('Could not find a date column and at least one vital (heart rate, HRV, SpO2, blood pressure) in the CSV header');
+  }
+
+  return lines.slice(1).flatMap((line): WearableSample[] => {
+    const cells = splitCsvLine(line, delimiter);
+    const date = new Date(timeColumns.map(i => cells[i]).join(' '));
+    if (isNaN(date.getTime())) return [];
+
+    const sample: WearableSample = { timestamp: date.toISOString() };
+    for (const { index, field, sdnn } of columns) {
+      if (field === 'bloodPressure') {
+        const match = (cells[index] || '').match(/(\d{2,3})\s*\/\s*(\d{2,3})/);
+        if (match) [sample.systolic, sample.diastolic] = [Number(match[1]), Number(match[2])];
+        continue;
+      }
+      const value = csvNumber(cells[index]);
+      if (value === undefined) continue;
+      sample[field] = value;
+      if (field === 'hrv') sample.hrvMethod = sdnn ? 'sdnn' : 'rmssd';
+    }
+    return Object.keys(sample).length > 1 ? [sample] : [];
+  });
+};
+
+// --- Import ---------------------------------------------------------------
+
+const uploadBatch = async (source: WearableSource, samples: WearableSample[]) => {
+  const response = await authFetch(`${API_BASE_URL}/health-data/import`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ source, samples })
+  });
+  const data = await response.json();
+  if (!data.success) throw new Error(data.error || 'Import failed');
+  return data as { imported: number; duplicates: number; rejected: number };
+};
+
+export const importWearableFile = async (
+  file: File,
+  onProgress?: (progress: WearableImportProgress) => void
+): Promise<WearableImportResult> => {
+  const source = detectWearableSource(file);
+  if (!source) {
+    throw new Error('Choose an Apple Health export.xml, a Google Fit .json or a .csv file. Unzip Apple Health exports first.');
+  }
+
+  onProgress?.({ stage: 'reading', progress: 0 });
+  const samples = source === 'apple-health'
+    ? await parseAppleHealth(file, progress => onProgress?.({ stage: 'reading', progress }))
+    : source === 'google-fit' ? parseGoogleFit(await file.text()) : parseCsv(await file.text());
+  if (!samples.length) throw new Error(`No heart rate, HRV, SpO2 or blood pressure readings found in ${file.name}`);
+
+  const result: WearableImportResult = { source, parsed: samples.length, imported: 0, duplicates: 0, rejected: 0 };
+  for (let i = 0; i < samples.length; i += BATCH_SIZE) {
+    onProgress?.({ stage: 'uploading', progress: i / samples.length });
+    const batch = await uploadBatch(source, samples.slice(i, i + BATCH_SIZE));
+    result.imported += batch.imported;
+    result.duplicates += batch.duplicates;
+    result.rejected += batch.rejected;
+  }
+
+  const times = samples.map(s => s.timestamp).sort();
+  return { ...result, from: times[0], to: times[times.length - 1] };
+};
@@ -0,0 +1,171 @@
+// Deterministic 10-year cardiovascular risk engine shared by the backend
+// (/api/risk-score) and the frontend. Plain ES module so both can import it.
+//
+// D'Agostino RB et al. General cardiovascular risk profile for use in primary
+// care: the Framingham Heart Study. Circulation 2008;117:743-753.
+// The lipid model is used when total cholesterol and HDL are available,
+// otherwise the office-based BMI model.
+
+export const RISK_MODEL_VERSION = 'framingham-2008-general-cvd';
+
+export const VALID_AGE_RANGE = { min: 30, max: 74 };
+
+const COEFFICIENTS = {
+  lipid: {
+    female: { lnAge: 2.32888, lnTotalChol: 1.20904, lnHdl: -0.70833, lnSbpUntreated: 2.76157, lnSbpTreated: 2.82263, smoker: 0.52873, diabetes: 0.69154, s0: 0.95012, mean: 26.1931 },
+    male: { lnAge: 3.06117, lnTotalChol: 1.1237, lnHdl: -0.93263, lnSbpUntreated: 1.93303, lnSbpTreated: 1.99881, smoker: 0.65451, diabetes: 0.57367, s0: 0.88936, mean: 23.9802 }
+  },
+  bmi: {
+    female: { lnAge: 2.72107, lnBmi: 0.51125, lnSbpUntreated: 2.81291, lnSbpTreated: 2.88267, smoker: 0.61868, diabetes: 0.77763, s0: 0.94833, mean: 26.0145 },
+    male: { lnAge: 3.11296, lnBmi: 0.79277, lnSbpUntreated: 1.85508, lnSbpTreated: 1.92672, smoker: 0.70953, diabetes: 0.5316, s0: 0.88431, mean: 23.9388 }
+  }
+};
+
+// Reference person used for "heart age": same sex, optimal risk factors
+const OPTIMAL = { totalCholesterol: 180, hdl: 45, systolicBp: 125, bmi: 22.5 };
+
+/** @typedef {'low' | 'intermediate' | 'high'} RiskCategory */
+
+export const RISK_CATEGORIES = [
+  { id: 'low', label: 'Low', maxPercent: 10 },
+  { id: 'intermediate', label: 'Intermediate', maxPercent: 20 },
+  { id: 'high', label: 'High', maxPercent: Infinity }
+];
+
+/**
+ * @typedef {Object} RiskInputs
+ * @property {number} [age]
+ * @property {'male' | 'female'} [sex]
+ * @property {number} [totalCholesterol]  mg/dL
+ * @property {number} [hdl]               mg/dL
+ * @property {number} [systolicBp]        mmHg
+ * @property {boolean} [onBpTreatment]
+ * @property {boolean} [smoker]
+ * @property {boolean} [diabetes]
+ * @property {number} [bmi]
+ * @property {boolean} [prematureFamilyHistory]  first-degree relative, male < 55 / female < 65
+ * @property {boolean} [arcusDetected]
+ * @property {Object<string, string>} [sources]  where each input came from, for display
+ */
+
+/**
+ * @typedef {Object} RiskInputStatus
+ * @property {string} key
+ * @property {string} label
+ * @property {number | string | boolean | null} value
+ * @property {string} [unit]
+ * @property {'used' | 'missing' | 'enhancer' | 'not_used'} status
+ * @property {string} [source]
+ */
+
+/**
+ * @typedef {Object} RiskEnhancer
+ * @property {string} key
+ * @property {string} label
+ * @property {string} detail
+ */
+
+/**
+ * @typedef {Object} CardioRiskResult
+ * @property {string} model
+ * @property {'lipid' | 'bmi' | null} variant
+ * @property {number | null} riskPercent
+ * @property {RiskCategory | null} category
+ * @property {number | null} heartAge
+ * @property {RiskInputStatus[]} inputs
+ * @property {string[]} missing
+ * @property {RiskEnhancer[]} enhancers
+ * @property {string} message
+ */
+
+const INPUT_LABELS = {
+  age: ['Age', 'years'],
+  sex: ['Sex'],
+  totalCholesterol: ['Total cholesterol', 'mg/dL'],
+  hdl: ['HDL cholesterol', 'mg/dL'],
+  systolicBp: ['Systolic BP', 'mmHg'],
+  onBpTreatment: ['On BP medication'],
+  smoker: ['Current smoker'],
+  diabetes: ['Diabetes'],
+  bmi: ['BMI', 'kg/m²'],
+  prematureFamilyHistory: ['Premature family history of CVD'],
+  arcusDetected: ['Corneal arcus']
+};
+
+/** @param {number} percent @returns {RiskCategory} */
+export const riskCategory = (percent) =>
+  /** @type {RiskCategory} */ (RISK_CATEGORIES.find(c => percent < c.maxPercent).id);
+
+const linearSum = (c, variant, x) =>
+  c.lnAge * Math.log(x.age) +
+  (variant === 'lipid'
+    ? c.lnTotalChol * Math.log(x.totalCholesterol) + c.lnHdl * Math.log(x.hdl)
+    : c.lnBmi * Math.log(x.bmi)) +
+  (x.onBpTreatment ? c.lnSbpTreated : c.lnSbpUntreated) * Math.log(x.systolicBp) +
+  (x.smoker ? c.smoker : 0) +
+  (x.diabetes ? c.diabetes : 0);
+
+const riskFromSum = (c, sum) => 1 - Math.pow(c.s0, Math.exp(sum - c.mean));
+
+// Age at which a same-sex person with optimal risk factors has the same risk
+const heartAgeFor = (c, variant, sum) => {
+  const rest = linearSum(c, variant, { ...OPTIMAL, age: 1, onBpTreatment: false, smoker: false, diabetes: false });
+  return Math.round(Math.exp((sum - rest) / c.lnAge));
+};
+
+const isNumber = (v) => typeof v === 'number' && Number.isFinite(v) && v > 0;
+
+/**
+ * @param {RiskInputs} inputs
+ * @returns {CardioRiskResult}
+ */
+export const computeCardioRisk = (inputs) => {
+  const sources = inputs.sources || {};
+  const hasLipids = isNumber(inputs.totalCholesterol) && isNumber(inputs.hdl);
+  const variant = hasLipids ? 'lipid' : isNumber(inputs.bmi) ? 'bmi' : null;
+
+  const required = ['age', 'sex', 'systolicBp', ...(variant === 'bmi' ? ['bmi'] : ['totalCholesterol', 'hdl'])];
+  const missing = required.filter(k => (k === 'sex' ? !inputs.sex : !isNumber(inputs[k])));
+
+  // Boolean risk factors default to "absent" but are still reported
+  const modelKeys = new Set([...required, 'onBpTreatment', 'smoker', 'diabetes']);
+  const inputStatus = Object.keys(INPUT_LABELS).map(key => {
+    const [label, unit] = INPUT_LABELS[key];
+    const value = inputs[key] ?? null;
+    const status = missing.includes(key) ? 'missing' : modelKeys.has(key) ? 'used' : value !== null ? 'enhancer' : 'not_used';
+    return { key, label, value, unit, status, source: value === null ? undefined : sources[key] };
+  });
+
+  const enhancers = [];
+  if (inputs.arcusDetected && isNumber(inputs.age) && inputs.age < 50) {
+    enhancers.push({ key: 'arcus', label: 'Corneal arcus before 50', detail: 'Can indicate familial hypercholesterolaemia; a full lipid panel is recommended.' });
+  }
+  if (inputs.prematureFamilyHistory) {
+    enhancers.push({ key: 'family_history', label: 'Premature family history', detail: 'A first-degree relative had cardiovascular disease at a young age.' });
+  }
+  if (variant === 'lipid' && isNumber(inputs.bmi) && inputs.bmi >= 30) {
+    enhancers.push({ key: 'obesity', label: 'BMI ≥ 30', detail: 'Obesity raises risk beyond what the lipid model captures.' });
+  }
+
+  const base = { model: RISK_MODEL_VERSION, variant, riskPercent: null, category: null, heartAge: null, inputs: inputStatus, missing, enhancers };
+
+  if (missing.length) {
+    const hint = variant === null ? ' (or height and weight instead of lipids)' : '';
+    const bpHint = missing.includes('systolicBp') ? ' Blood pressure needs a cuff reading, from the ESP32 cuff module or an imported export; camera scans only estimate it.' : '';
+    return { ...base, message: `Missing ${missing.map(k => INPUT_LABELS[k][0]).join(', ')}${hint} — add them to calculate your risk.${bpHint}` };
+  }
+  if (inputs.age < VALID_AGE_RANGE.min || inputs.age > VALID_AGE_RANGE.max) {
+    return { ...base, message: `The Framingham model is validated for ages ${VALID_AGE_RANGE.min}–${VALID_AGE_RANGE.max}.` };
+  }
+
+  const c = COEFFICIENTS[variant][inputs.sex];
+  const sum = linearSum(c, variant, inputs);
+  const riskPercent = Math.round(riskFromSum(c, sum) * 1000) / 10;
+  const category = riskCategory(riskPercent);
+
+  let message = `${riskPercent}% estimated 10-year risk of a cardiovascular event (${category}).`;
+  if (variant === 'bmi') message += ' Calculated without lipids — upload a lipid panel for a more precise estimate.';
+  if (enhancers.length && category !== 'high') message += ' Risk enhancers are present, so your true risk may be higher.';
+
+  return { ...base, riskPercent, category, heartAge: heartAgeFor(c, variant, sum), message };
+};
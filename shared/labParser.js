@@ -0,0 +1,465 @@
+// Turns OCR'd lab report text into typed results. Shared by the backend
+// (/api/medical/analyze) and the frontend. Values are normalised to the
+// analyte's canonical unit (US conventional) before flagging.
+
+/**
+ * @typedef {'male' | 'female'} Sex
+ * @typedef {'low' | 'normal' | 'high'} LabFlag
+ */
+
+/**
+ * @typedef {Object} LabReferenceRange
+ * @property {number} [low]
+ * @property {number} [high]
+ * @property {string} label
+ * @property {'report' | 'default'} source  printed on the report, or our default
+ */
+
+/**
+ * @typedef {Object} LabResult
+ * @property {string} analyte       canonical id, e.g. "ldl"
+ * @property {string} name          display name
+ * @property {number} value         in `unit`
+ * @property {string} unit          canonical unit
+ * @property {number} rawValue      as printed
+ * @property {string} [rawUnit]     as printed, if any
+ * @property {LabReferenceRange} referenceRange
+ * @property {LabFlag} flag
+ * @property {string} sourceLine    OCR line the value came from
+ * @property {number} [page]        page of a multi-page document
+ * @property {number} [confidence]  OCR confidence (0-100) of the printed value
+ * @property {boolean} [verified]   confirmed or corrected by the patient
+ */
+
+// Values read with less OCR confidence than this should be checked by hand
+export const LOW_CONFIDENCE = 70;
+
+/**
+ * Conversion from an alternative unit into the canonical one.
+ * `plausible` is the range a value in that unit can take, used to guess the
+ * unit when the OCR lost it.
+ * @typedef {Object} UnitDef
+ * @property {RegExp} pattern
+ * @property {(v: number) => number} toCanonical
+ * @property {[number, number]} plausible
+ */
+
+const factor = (f) => (v) => v * f;
+const identity = (v) => v;
+
+const MG_DL = /mg\s*\/\s*d\s*l/i;
+const MMOL_L = /mmol\s*\/\s*l/i;
+const UMOL_L = /[uµμ]mol\s*\/\s*l/i;
+const G_DL = /g\s*\/\s*d\s*l/i;
+const G_L = /g\s*\/\s*l\b/i;
+const MG_L = /mg\s*\/\s*l\b/i;
+const U_L = /\b(?:i?u|units?)\s*\/\s*l\b/i;
+const PERCENT = /%/;
+const MMOL_MOL = /mmol\s*\/\s*mol/i;
+const MIU_L = /(?:m\s*i?u\s*\/\s*l|[uµμ]\s*i?u\s*\/\s*m\s*l)/i;
+const MEQ_L = /m\s*eq\s*\/\s*l/i;
+const EGFR_UNIT = /ml\s*\/\s*min/i;
+
+/**
+ * @typedef {Object} AnalyteDef
+ * @property {string} id
+ * @property {string} name
+ * @property {RegExp} pattern
+ * @property {string} unit
+ * @property {UnitDef[]} units          first entry is the canonical unit
+ * @property {{ low?: number, high?: number } | Record<Sex, { low?: number, high?: number }>} range
+ * @property {number} [decimals]
+ */
+
+// Order matters: more specific names (non-HDL, VLDL, HbA1c) must come before
+// the names they contain (HDL, LDL, glucose)
+/** @type {AnalyteDef[]} */
+export const ANALYTES = [
+  {
+    id: 'nonHdl', name: 'Non-HDL Cholesterol', pattern: /non[\s-]*hdl/i, unit: 'mg/dL',
+    units: [
+      { pattern: MG_DL, toCanonical: identity, plausible: [40, 400] },
+      { pattern: MMOL_L, toCanonical: factor(38.67), plausible: [1, 10] }
+    ],
+    range: { high: 130 }
+  },
+  {
+    id: 'vldl', name: 'VLDL Cholesterol', pattern: /\bvldl\b|very[\s-]low[\s-]density/i, unit: 'mg/dL',
+    units: [
+      { pattern: MG_DL, toCanonical: identity, plausible: [2, 150] },
+      { pattern: MMOL_L, toCanonical: factor(38.67), plausible: [0.05, 4] }
+    ],
+    range: { low: 5, high: 40 }
+  },
+  {
+    id: 'hdl', name: 'HDL Cholesterol', pattern: /\bhdl\b|high[\s-]density\s+lipoprotein/i, unit: 'mg/dL',
+    units: [
+      { pattern: MG_DL, toCanonical: identity, plausible: [10, 150] },
+      { pattern: MMOL_L, toCanonical: factor(38.67), plausible: [0.2, 4] }
+    ],
+    range: { male: { low: 40 }, female: { low: 50 } }
+  },
+  {
+    id: 'ldl', name: 'LDL Cholesterol', pattern: /\bldl\b|low[\s-]density\s+lipoprotein/i, unit: 'mg/dL',
+    units: [
+      { pattern: MG_DL, toCanonical: identity, plausible: [20, 400] },
+      { pattern: MMOL_L, toCanonical: factor(38.67), plausible: [0.5, 10] }
+    ],
+    range: { high: 100 }
+  },
+  {
+    id: 'triglycerides', name: 'Triglycerides', pattern: /triglycerides?|\btg\b/i, unit: 'mg/dL',
+    units: [
+      { pattern: MG_DL, toCanonical: identity, plausible: [20, 2000] },
+      { pattern: MMOL_L, toCanonical: factor(88.57), plausible: [0.2, 25] }
+    ],
+    range: { high: 150 }
+  },
+  {
+    id: 'totalCholesterol', name: 'Total Cholesterol', pattern: /cholesterol|\bt\.?\s?chol\b/i, unit: 'mg/dL',
+    units: [
+      { pattern: MG_DL, toCanonical: identity, plausible: [60, 600] },
+      { pattern: MMOL_L, toCanonical: factor(38.67), plausible: [1.5, 15] }
+    ],
+    range: { high: 200 }
+  },
+  {
+    id: 'hba1c', name: 'HbA1c', pattern: /hb\s*a\s*1\s*c|a1c|glycated\s+ha?emoglobin|glycosylated\s+ha?emoglobin/i, unit: '%',
+    units: [
+      { pattern: PERCENT, toCanonical: identity, plausible: [3, 20] },
+      // IFCC -> NGSP master equation
+      { pattern: MMOL_MOL, toCanonical: (v) => v * 0.09148 + 2.152, plausible: [15, 200] }
+    ],
+    range: { high: 5.7 },
+    decimals: 1
+  },
+  {
+    id: 'glucose', name: 'Glucose (fasting)', pattern: /glucose|\bfbs\b|\bfbg\b|blood\s+sugar/i, unit: 'mg/dL',
+    units: [
+      { pattern: MG_DL, toCanonical: identity, plausible: [30, 700] },
+      { pattern: MMOL_L, toCanonical: factor(18.016), plausible: [1.5, 40] }
+    ],
+    range: { low: 70, high: 100 }
+  },
+  {
+    id: 'creatinine', name: 'Creatinine', pattern: /creatinine/i, unit: 'mg/dL',
+    units: [
+      { pattern: MG_DL, toCanonical: identity, plausible: [0.2, 15] },
+      { pattern: UMOL_L, toCanonical: factor(1 / 88.42), plausible: [20, 1300] }
+    ],
+    range: { male: { low: 0.74, high: 1.35 }, female: { low: 0.59, high: 1.04 } },
+    decimals: 2
+  },
+  {
+    id: 'egfr', name: 'eGFR', pattern: /\be\s*gfr\b|glomerular\s+filtration/i, unit: 'mL/min/1.73m²',
+    units: [{ pattern: EGFR_UNIT, toCanonical: identity, plausible: [2, 200] }],
+    range: { low: 60 }
+  },
+  {
+    id: 'bun', name: 'Blood Urea Nitrogen', pattern: /\bbun\b|urea\s+nitrogen|\burea\b/i, unit: 'mg/dL',
+    units: [
+      { pattern: MG_DL, toCanonical: identity, plausible: [2, 150] },
+      // urea mmol/L -> BUN mg/dL
+      { pattern: MMOL_L, toCanonical: factor(2.801), plausible: [0.5, 50] }
+    ],
+    range: { low: 7, high: 20 }
+  },
+  {
+    id: 'uricAcid', name: 'Uric Acid', pattern: /uric\s+acid|\burate\b/i, unit: 'mg/dL',
+    units: [
+      { pattern: MG_DL, toCanonical: identity, plausible: [1, 20] },
+      { pattern: UMOL_L, toCanonical: factor(1 / 59.48), plausible: [60, 1200] }
+    ],
+    range: { male: { low: 3.4, high: 7 }, female: { low: 2.4, high: 6 } },
+    decimals: 1
+  },
+  {
+    id: 'sodium', name: 'Sodium', pattern: /\bsodium\b|\bna\+/i, unit: 'mmol/L',
+    units: [
+      { pattern: MMOL_L, toCanonical: identity, plausible: [100, 180] },
+      { pattern: MEQ_L, toCanonical: identity, plausible: [100, 180] }
+    ],
+    range: { low: 135, high: 145 }
+  },
+  {
+    id: 'potassium', name: 'Potassium', pattern: /potassium|\bk\+/i, unit: 'mmol/L',
+    units: [
+      { pattern: MMOL_L, toCanonical: identity, plausible: [1.5, 9] },
+      { pattern: MEQ_L, toCanonical: identity, plausible: [1.5, 9] }
+    ],
+    range: { low: 3.5, high: 5.1 },
+    decimals: 1
+  },
+  {
+    id: 'hemoglobin', name: 'Hemoglobin', pattern: /ha?emoglobin|\bhg?b\b/i, unit: 'g/dL',
+    units: [
+      { pattern: G_DL, toCanonical: identity, plausible: [3, 25] },
+      { pattern: G_L, toCanonical: factor(0.1), plausible: [30, 250] }
+    ],
+    range: { male: { low: 13.5, high: 17.5 }, female: { low: 12, high: 15.5 } },
+    decimals: 1
+  },
+  {
+    id: 'alt', name: 'ALT', pattern: /\balt\b|\bsgpt\b|alanine\s+aminotransferase/i, unit: 'U/L',
+    units: [{ pattern: U_L, toCanonical: identity, plausible: [1, 5000] }],
+    range: { high: 40 }
+  },
+  {
+    id: 'ast', name: 'AST', pattern: /\bast\b|\bsgot\b|aspartate\s+aminotransferase/i, unit: 'U/L',
+    units: [{ pattern: U_L, toCanonical: identity, plausible: [1, 5000] }],
+    range: { high: 40 }
+  },
+  {
+    id: 'tsh', name: 'TSH', pattern: /\btsh\b|thyroid\s+stimulating/i, unit: 'mIU/L',
+    units: [{ pattern: MIU_L, toCanonical: identity, plausible: [0.005, 150] }],
+    range: { low: 0.4, high: 4 },
+    decimals: 2
+  },
+  {
+    id: 'crp', name: 'C-Reactive Protein', pattern: /\bhs[\s-]*crp\b|\bcrp\b|c[\s-]reactive\s+protein/i, unit: 'mg/L',
+    units: [
+      { pattern: MG_L, toCanonical: identity, plausible: [0.1, 500] },
+      { pattern: MG_DL, toCanonical: factor(10), plausible: [0.01, 50] }
+    ],
+    range: { high: 3 },
+    decimals: 1
+  }
+];
+
+// Lines that mention an analyte but don't report its value
+const SKIP_LINE = /ratio|calculated\s+from|method|note:|comment/i;
+
+// "1,250" is a thousands separator; "5,4" a decimal comma
+const THOUSANDS = /^\d{1,3}(?:,\d{3})+(?:\.\d+)?$/;
+const NUMBER = /(\d{1,3}(?:,\d{3})+(?:\.\d{1,3})?(?![\d,])|\d{1,5}(?:[.,]\d{1,3})?)/g;
+const RANGE_BETWEEN = /(\d+(?:[.,]\d+)?)\s*(?:-|–|—|to)\s*(\d+(?:[.,]\d+)?)/i;
+const RANGE_BOUND = /(<=?|>=?|≤|≥|up\s+to|less\s+than|greater\s+than)\s*(\d+(?:[.,]\d+)?)/i;
+
+const num = (s) => parseFloat(THOUSANDS.test(s) ? s.replace(/,/g, '') : s.replace(',', '.'));
+
+const roundTo = (v, decimals = 0) => Math.round(v * 10 ** decimals) / 10 ** decimals;
+
+/** @returns {LabFlag} */
+const flagFor = (value, low, high) =>
+  low !== undefined && value < low ? 'low' : high !== undefined && value > high ? 'high' : 'normal';
+
+const rangeLabel = (low, high) =>
+  low !== undefined && high !== undefined ? `${low}–${high}` : low !== undefined ? `≥ ${low}` : `< ${high}`;
+
+/**
+ * @param {AnalyteDef} def
+ * @param {Sex} [sex]
+ */
+const defaultRange = (def, sex) => {
+  const r = /** @type {any} */ (def.range);
+  if ('male' in r) {
+    if (sex) return r[sex];
+    // Unknown sex: the union of both ranges avoids false flags
+    const lows = [r.male.low, r.female.low].filter(v => v !== undefined);
+    const highs = [r.male.high, r.female.high].filter(v => v !== undefined);
+    return { low: lows.length ? Math.min(...lows) : undefined, high: highs.length ? Math.max(...highs) : undefined };
+  }
+  return r;
+};
+
+const isPlausibleIn = (unit, value) => value >= unit.plausible[0] && value <= unit.plausible[1];
+
+/**
+ * Unit printed right after the value, else guess from plausibility. A value
+ * outside the printed unit's plausible range is rejected (`unit: null`), as
+ * is one that fits no unit at all.
+ * @param {AnalyteDef} def
+ * @param {number} value
+ * @param {string} after  text following the value
+ */
+const resolveUnit = (def, value, after) => {
+  const head = after.slice(0, 24);
+  const printed = def.units.find(u => u.pattern.test(head));
+  if (printed) {
+    return { unit: isPlausibleIn(printed, value) ? printed : null, printed: true, rawUnit: head.match(printed.pattern)[0].replace(/\s+/g, '') };
+  }
+  const guessed = def.units.find(u => isPlausibleIn(u, value));
+  return { unit: guessed || null, printed: false, rawUnit: undefined };
+};
+
+/**
+ * The value on a line: the first number after the analyte name, unless it
+ * can't be a value in the unit printed after it, as with the year in
+ * "eGFR (CKD-EPI 2021) 85 mL/min". Then later numbers are tried, but only
+ * ones with their own unit printed, so a reference range is never read as
+ * the value.
+ * @param {AnalyteDef} def
+ * @param {string} rest  the line after the analyte name
+ */
+const findValue = (def, rest) => {
+  for (const [index, match] of [...rest.matchAll(NUMBER)].entries()) {
+    const rawValue = num(match[1]);
+    const after = rest.slice(match.index + match[0].length);
+    const { unit, printed, rawUnit } = resolveUnit(def, rawValue, after);
+    if (index > 0 && !printed) return null;
+    if (unit) return { rawValue, after, unit, rawUnit };
+    // Implausible in every known unit: most likely an OCR misread
+    if (!printed) return null;
+  }
+  return null;
+};
+
+/**
+ * Parses the reference range printed after the value, converted with the
+ * same unit as the value.
+ * @param {string} after
+ * @param {UnitDef} unit
+ * @param {number} decimals
+ */
+const printedRange = (after, unit, decimals) => {
+  const between = after.match(RANGE_BETWEEN);
+  if (between) {
+    return { low: roundTo(unit.toCanonical(num(between[1])), decimals), high: roundTo(unit.toCanonical(num(between[2])), decimals) };
+  }
+  const bound = after.match(RANGE_BOUND);
+  if (bound) {
+    const v = roundTo(unit.toCanonical(num(bound[2])), decimals);
+    return /^(<|≤|up|less)/i.test(bound[1]) ? { high: v } : { low: v };
+  }
+  return null;
+};
+
+/**
+ * @param {string} text
+ * @param {{ sex?: Sex }} [options]
+ * @returns {LabResult[]}
+ */
+export const parseLabResults = (text, { sex } = {}) => {
+  /** @type {LabResult[]} */
+  const results = [];
+  const seen = new Set();
+
+  for (const rawLine of (text || '').split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line || SKIP_LINE.test(line)) continue;
+
+    const def = ANALYTES.find(a => a.pattern.test(line));
+    if (!def || seen.has(def.id)) continue;
+
+    const name = line.match(def.pattern);
+    const rest = line.slice(name.index + name[0].length);
+    const found = findValue(def, rest);
+    if (!found) continue;
+    const { rawValue, after, unit, rawUnit } = found;
+
+    const decimals = def.decimals ?? 0;
+    const value = roundTo(unit.toCanonical(rawValue), decimals);
+    const fromReport = printedRange(after, unit, decimals);
+    const { low, high } = fromReport || defaultRange(def, sex);
+
+    const flag = flagFor(value, low, high);
+
+    results.push({
+      analyte: def.id,
+      name: def.name,
+      value,
+      unit: def.unit,
+      rawValue,
+      rawUnit,
+      referenceRange: { low, high, label: rangeLabel(low, high), source: fromReport ? 'report' : 'default' },
+      flag,
+      sourceLine: line
+    });
+    seen.add(def.id);
+  }
+
+  return results;
+};
+
+/**
+ * Parses each page separately so every result keeps its page reference.
+ * When an analyte appears on several pages the first occurrence wins.
+ * @param {{ page: number, text: string }[]} pages
+ * @param {{ sex?: Sex }} [options]
+ * @returns {LabResult[]}
+ */
+export const parseLabPages = (pages, options = {}) => {
+  const seen = new Set();
+  return pages.flatMap(({ page, text }) =>
+    parseLabResults(text, options)
+      .filter(r => !seen.has(r.analyte) && seen.add(r.analyte))
+      .map(r => ({ ...r, page })));
+};
+
+/**
+ * Applies the patient's correction of a misread value. `value` is in the
+ * analyte's canonical unit and is re-flagged against the same range.
+ * @param {LabResult} result
+ * @param {number} value
+ * @returns {LabResult}
+ */
+export const correctLabResult = (result, value) => {
+  const def = ANALYTES.find(a => a.id === result.analyte);
+  const corrected = roundTo(value, def?.decimals ?? 0);
+  const { confidence, ...rest } = result;
+  return {
+    ...rest,
+    value: corrected,
+    flag: flagFor(corrected, result.referenceRange.low, result.referenceRange.high),
+    verified: true
+  };
+};
+
+/**
+ * A value the parser missed, typed in by the patient.
+ * @param {string} analyte  id from ANALYTES
+ * @param {number} value    in the analyte's canonical unit
+ * @param {{ sex?: Sex, page?: number }} [options]
+ * @returns {LabResult | null}  null for an unknown analyte
+ */
+export const manualLabResult = (analyte, value, { sex, page } = {}) => {
+  const def = ANALYTES.find(a => a.id === analyte);
+  if (!def) return null;
+  const rounded = roundTo(value, def.decimals ?? 0);
+  const { low, high } = defaultRange(def, sex);
+  return {
+    analyte: def.id,
+    name: def.name,
+    value: rounded,
+    unit: def.unit,
+    rawValue: rounded,
+    referenceRange: { low, high, label: rangeLabel(low, high), source: 'default' },
+    flag: flagFor(rounded, low, high),
+    sourceLine: '',
+    ...(page ? { page } : {}),
+    verified: true
+  };
+};
+
+/**
+ * One line per value for LLM prompts, marking what the patient checked.
+ * @param {LabResult[]} results
+ */
+export const describeLabResults = (results) => results
+  .map(r => `- ${r.name}: ${r.value} ${r.unit} (${r.flag}${r.verified ? ', verified by patient' : ''})`)
+  .join('\n');
+
+/**
+ * @typedef {Object} LipidPanel
+ * @property {number} [totalCholesterol]  mg/dL
+ * @property {number} [hdl]               mg/dL
+ * @property {number} [ldl]               mg/dL
+ * @property {number} [triglycerides]     mg/dL
+ */
+
+/**
+ * Lipid values from parsed results (or raw text), keyed for the risk engine.
+ * @param {LabResult[] | string} source
+ * @returns {LipidPanel}
+ */
+export const extractLipidPanel = (source) => {
+  const results = typeof source === 'string' ? parseLabResults(source) : source;
+  /** @type {LipidPanel} */
+  const panel = {};
+  for (const r of results) {
+    if (r.analyte === 'totalCholesterol' || r.analyte === 'hdl' || r.analyte === 'ldl' || r.analyte === 'triglycerides') {
+      panel[r.analyte] = r.value;
+    }
+  }
+  return panel;
+};
@@ -0,0 +1,88 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLabResults } from './labParser.js';
+
+const parseOne = (line, options) => {
+  const results = parseLabResults(line, options);
+  assert.equal(results.length, 1, `expected one result from "${line}"`);
+  return results[0];
+};
+
+test('mmol/L is converted to mg/dL', async (t) => {
+  const cases = [
+    ['LDL Cholesterol 3.2 mmol/L', 'ldl', 124],
+    ['Total Cholesterol 5.2 mmol/L', 'totalCholesterol', 201],
+    ['Triglycerides 1.7 mmol/L', 'triglycerides', 151],
+    ['Glucose 5,4 mmol/L', 'glucose', 97]
+  ];
+  for (const [line, analyte, value] of cases) {
+    await t.test(line, () => {
+      const result = parseOne(line);
+      assert.equal(result.analyte, analyte);
+      assert.equal(result.value, value);
+      assert.equal(result.unit, 'mg/dL');
+      assert.equal(result.rawUnit, 'mmol/L');
+    });
+  }
+
+  await t.test('the printed range is converted with the value', () => {
+    const result = parseOne('Glucose 6.5 mmol/L 3.9-5.5');
+    assert.equal(result.referenceRange.low, 70);
+    assert.equal(result.referenceRange.high, 99);
+    assert.equal(result.flag, 'high');
+  });
+});
+
+test('more specific names win over the names they contain', async (t) => {
+  const cases = [
+    ['Non-HDL Cholesterol 160 mg/dL', 'nonHdl'],
+    ['VLDL Cholesterol 30 mg/dL', 'vldl'],
+    ['HDL Cholesterol 45 mg/dL', 'hdl'],
+    ['LDL Cholesterol 110 mg/dL', 'ldl'],
+    ['HbA1c 6.1 %', 'hba1c'],
+    ['Glycated haemoglobin 6.1 %', 'hba1c'],
+    ['Haemoglobin 14.2 g/dL', 'hemoglobin'],
+    ['Fasting blood glucose 92 mg/dL', 'glucose']
+  ];
+  for (const [line, analyte] of cases) {
+    await t.test(line, () => assert.equal(parseOne(line).analyte, analyte));
+  }
+});
+
+test('default ranges depend on sex', async (t) => {
+  await t.test('HDL', () => {
+    assert.equal(parseOne('HDL 45 mg/dL', { sex: 'male' }).flag, 'normal');
+    assert.equal(parseOne('HDL 45 mg/dL', { sex: 'female' }).flag, 'low');
+    // Unknown sex uses the union of both ranges
+    assert.equal(parseOne('HDL 45 mg/dL').flag, 'normal');
+  });
+
+  await t.test('creatinine', () => {
+    const male = parseOne('Creatinine 1.2 mg/dL', { sex: 'male' });
+    const female = parseOne('Creatinine 1.2 mg/dL', { sex: 'female' });
+    assert.equal(male.flag, 'normal');
+    assert.equal(female.flag, 'high');
+    assert.equal(female.referenceRange.source, 'default');
+    assert.equal(female.referenceRange.label, '0.59–1.04');
+  });
+});
+
+test('values implausible in the printed unit are not stored', async (t) => {
+  await t.test('a year in the method name is skipped for the value', () => {
+    const result = parseOne('eGFR (CKD-EPI 2021) 85 mL/min/1.73m2 >60');
+    assert.equal(result.value, 85);
+    assert.equal(result.referenceRange.low, 60);
+    assert.equal(result.flag, 'normal');
+  });
+
+  await t.test('a comma before three digits is a thousands separator', () => {
+    const result = parseOne('Triglycerides 1,250 mg/dL');
+    assert.equal(result.value, 1250);
+    assert.equal(result.flag, 'high');
+  });
+
+  await t.test('a misread value is dropped, not replaced by the range', () => {
+    assert.deepEqual(parseLabResults('Triglycerides 0 mg/dL 40-150'), []);
+    assert.deepEqual(parseLabResults('Total Cholesterol 1,200 mg/dL'), []);
+  });
+});
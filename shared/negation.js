@@ -0,0 +1,38 @@
+// Keyword negation for the symptom matchers: "no chest pain", "I haven't
+// fainted", "without any weakness". Shared by the chat triage (shared/triage.js)
+// and the symptom log (backend/lib/symptoms.js) so both read a message the
+// same way.
+
+const NEGATOR = /\b(?:no|not|never|without|denies|don'?t|doesn'?t|didn'?t|haven'?t|hasn'?t|isn'?t|aren'?t|wasn'?t)\b/;
+
+// Only this much text before a mention is searched for a negator
+const NEGATION_WINDOW = 30;
+
+// A negator only covers its own clause: "I'm not feeling well and I have
+// chest pain" still reports chest pain. "have" starts a new clause unless it
+// is the verb being negated, as in "I don't have chest pain".
+const SCOPE_BREAK = /[,;:]|\b(?:and|but|now|yet|so|then|although|though|however|while)\b|(?<!\b(?:not|never|don'?t|doesn'?t|didn'?t)\s+)\bha(?:ve|s|d)\b/g;
+
+/** Lower-cased sentences of a message */
+export const sentencesOf = (text) => text.toLowerCase().split(/[.!?\n]+/).map(s => s.trim()).filter(Boolean);
+
+/**
+ * Whether the mention starting at `index` is negated
+ * @param {string} sentence
+ * @param {number} index
+ */
+export const isNegated = (sentence, index) => {
+  const before = sentence.slice(Math.max(0, index - NEGATION_WINDOW), index);
+  const breaks = [...before.matchAll(SCOPE_BREAK)];
+  const last = breaks[breaks.length - 1];
+  return NEGATOR.test(last ? before.slice(last.index + last[0].length) : before);
+};
+
+/**
+ * The first mention of `pattern` in the sentence that isn't negated, if any
+ * @param {string} sentence
+ * @param {RegExp} pattern
+ * @returns {RegExpMatchArray | undefined}
+ */
+export const affirmed = (sentence, pattern) =>
+  [...sentence.matchAll(new RegExp(pattern.source, 'g'))].find(match => !isNegated(sentence, match.index));
@@ -0,0 +1,179 @@
+// Rule-based red-flag triage for the chat assistant, run on the patient's
+// message before any model call. The frontend runs it on the text as it is
+// sent, so the warning shows even when the AI service is down; the backend
+// runs it again with the patient's latest scan and sensor readings.
+// Plain ES module so both can import it. Deliberately conservative: a false
+// alarm costs a banner, a missed emergency costs far more.
+
+import { sentencesOf, affirmed } from './negation.js';
+import { isPlausible } from './vitalRanges.js';
+
+/** @typedef {'emergency' | 'urgent' | 'none'} TriageLevel */
+
+/**
+ * @typedef {Object} TriageFinding
+ * @property {string} id
+ * @property {string} label
+ * @property {Exclude<TriageLevel, 'none'>} level
+ * @property {'message' | 'scan' | 'reading'} source
+ * @property {string} detail     the sentence or measurement that matched
+ */
+
+/**
+ * @typedef {Object} TriageResult
+ * @property {TriageLevel} level
+ * @property {TriageFinding[]} findings
+ * @property {string[]} guidance
+ */
+
+// Measurements older than this say nothing about how the patient is now
+export const VITALS_MAX_AGE_HOURS = 24;
+
+const CHEST_PAIN = /\bchest\s+(?:pain|tightness|pressure|discomfort|heaviness|hurts?|aches?)|\b(?:pain|tightness|pressure|heaviness)\s+(?:in|on|across)\s+(?:my\s+)?chest|\bcrushing\s+(?:pain|feeling)/;
+const RADIATION = /\b(?:radiat\w*|spread\w*|shoot\w*|going|moving)\s+(?:down\s+|up\s+|into\s+|to\s+|through\s+)?(?:my\s+)?(?:left\s+|right\s+)?(?:arm|jaw|neck|back|shoulder)|\b(?:arm|jaw|neck|shoulder)\s+(?:pain|hurts?|aches?|is\s+numb)|\bpain\s+(?:in|down)\s+(?:my\s+)?(?:left\s+|right\s+)?(?:arm|jaw|neck|shoulder)/;
+const CHEST_COMPANIONS = /\bcold\s+sweats?|\bsweating\b|\bshort(?:ness)?\s+of\s+breath|\bbreathless|\bnause(?:a|ous)|\bvomit/;
+const FACE_DROOP = /\b(?:face|mouth|smile|eyelid)\s+(?:is\s+|looks\s+|feels\s+)?(?:droop\w*|numb|uneven|lopsided|twisted)|\bdroop\w*\s+(?:on\s+)?(?:one\s+side|face|mouth)|\bone\s+side\s+of\s+(?:my\s+)?face/;
+const ARM_WEAKNESS = /\b(?:weak(?:ness)?|numb(?:ness)?|paraly\w*)\s+(?:in\s+|on\s+)?(?:my\s+)?(?:left|right|one)\s+(?:arm|leg|hand|side)|\b(?:left|right|one)\s+(?:arm|leg|hand|side)\s+(?:is\s+|feels\s+|went\s+|has\s+gone\s+)?(?:weak|numb|heavy|limp|dead|paralysed|paralyzed)|\bcan'?t\s+(?:lift|move|raise)\s+(?:my\s+)?(?:left\s+|right\s+)?(?:arm|leg)/;
+const SPEECH = /\bslurr\w*\s+(?:speech|words|talking)|\b(?:speech|words)\s+(?:is\s+|are\s+)?slurr\w*|\bslurring\b|\b(?:can'?t|cannot|trouble|difficulty)\s+(?:speak|speaking|talk|talking|find(?:ing)?\s+(?:the\s+)?words)/;
+const THUNDERCLAP = /\bworst\s+headache|\bsudden\s+(?:severe\s+)?headache|\bthunderclap/;
+const VISION_LOSS = /\b(?:sudden(?:ly)?\s+)?(?:lost|losing|loss\s+of)\s+(?:my\s+)?(?:vision|sight)|\b(?:can'?t|cannot)\s+see\s+(?:out\s+of|on|with)/;
+const SYNCOPE = /\bfaint(?:ed|ing)?\b|\bpass(?:ed|ing)?\s+out\b|\bblack(?:ed)?\s+out\b|\bsyncope\b|\blost\s+consciousness|\bcollapsed\b/;
+const SYNCOPE_COMPANIONS = /\bpalpitation|\bheart\s+(?:is\s+|was\s+)?(?:racing|pounding|skipping)|\bexercis\w*|\bwork(?:ing)?\s+out|\brunning\b|\bstairs\b|\bshort(?:ness)?\s+of\s+breath/;
+const BREATHING = /\b(?:can'?t|cannot|struggling\s+to|unable\s+to)\s+(?:catch\s+my\s+breath|breathe?)|\bgasping\b|\b(?:lips|fingers)\s+(?:are\s+|turning\s+|look\s+)?blue|\bblue\s+lips/;
+
+const ADVICE = {
+  emergency: [
+    'Call your local emergency number (112, 911 or 108) now, or have someone take you to the nearest emergency department.',
+    'Do not drive yourself, and do not wait to see whether it passes.',
+    'Stay with someone if you can and unlock the door for the ambulance.'
+  ],
+  urgent: [
+    'Contact a doctor or an urgent care service today.',
+    'If it gets worse or new symptoms appear, call your local emergency number.'
+  ]
+};
+
+const FINDING_ADVICE = {
+  stroke_signs: 'Note the time the symptoms started; stroke treatment depends on it.',
+  chest_pain_radiating: 'Sit down and rest while you wait for help.',
+  syncope_cardiac: 'Lie down with your legs raised until help arrives.'
+};
+
+/**
+ * Red flags in what the patient wrote
+ * @param {string} text
+ * @returns {TriageFinding[]}
+ */
+export const assessSymptoms = (text) => {
+  const sentences = sentencesOf(text || '');
+  const all = sentences.join('. ');
+  const findings = [];
+  const add = (id, label, level, match) => findings.push({ id, label, level, source: 'message', detail: match.input.slice(0, 200) });
+  const first = (pattern) => sentences.map(s => affirmed(s, pattern)).find(Boolean);
+
+  const chestPain = first(CHEST_PAIN);
+  if (chestPain) {
+    const spreading = affirmed(all, RADIATION) || affirmed(all, CHEST_COMPANIONS);
+    if (spreading) add('chest_pain_radiating', 'Chest pain that spreads or comes with sweating, breathlessness or nausea', 'emergency', chestPain);
+    else add('chest_pain', 'Chest pain', 'urgent', chestPain);
+  }
+
+  const fast = [[FACE_DROOP, 'face drooping'], [ARM_WEAKNESS, 'weakness or numbness on one side'], [SPEECH, 'slurred or difficult speech'], [VISION_LOSS, 'sudden loss of vision'], [THUNDERCLAP, 'sudden severe headache']]
+    .map(([pattern, sign]) => ({ sign, match: first(pattern) }))
+    .filter(s => s.match);
+  if (fast.length) add('stroke_signs', `Possible stroke: ${fast.map(s => s.sign).join(', ')}`, 'emergency', fast[0].match);
+
+  const syncope = first(SYNCOPE);
+  if (syncope) {
+    if (chestPain || affirmed(all, SYNCOPE_COMPANIONS)) add('syncope_cardiac', 'Fainting with chest pain, palpitations or on exertion', 'emergency', syncope);
+    else add('syncope', 'Fainting or passing out', 'urgent', syncope);
+  }
+
+  const breathing = first(BREATHING);
+  if (breathing) add('severe_breathlessness', 'Severe difficulty breathing', 'emergency', breathing);
+
+  return findings;
+};
+
+const isRecent = (timestamp, now) => now - new Date(timestamp) <= VITALS_MAX_AGE_HOURS * 3600 * 1000;
+
+const heartRateFinding = (bpm, source, detail) => {
+  if (bpm >= 150 || bpm <= 40) return { id: 'heart_rate_critical', label: `Heart rate of ${bpm} bpm`, level: 'emergency', source, detail };
+  if (bpm >= 120 || bpm <= 45) return { id: 'heart_rate_abnormal', label: `Heart rate of ${bpm} bpm`, level: 'urgent', source, detail };
+  return null;
+};
+
+/**
+ * Dangerous values in the latest measurements taken within
+ * VITALS_MAX_AGE_HOURS. Camera scans only count for heart rate, and only with
+ * a good signal: their blood pressure is an estimate and not safe to act on.
+ * Values outside the plausible ranges (shared/vitalRanges.js) are sensor
+ * glitches and skipped.
+ *
+ * @param {{ scans?: object[], readings?: object[] }} vitals  newest first
+ * @param {Date} [now]
+ * @returns {TriageFinding[]}
+ */
+export const assessVitals = ({ scans = [], readings = [] } = {}, now = new Date()) => {
+  const findings = [];
+  const time = (t) => new Date(t).toISOString().slice(0, 16).replace('T', ' ');
+
+  const scan = scans.find(s => isRecent(s.timestamp, now) && s.qualityLevel !== 'low' && isPlausible('bpm', s.heartRate));
+  if (scan) {
+    const finding = heartRateFinding(scan.heartRate, 'scan', `Vital scan at ${time(scan.timestamp)} UTC`);
+    if (finding) findings.push(finding);
+  }
+
+  // Imported samples may carry a single measure, so each measure comes from
+  // the newest reading with a plausible value for it
+  const recent = readings.filter(r => isRecent(r.timestamp, now));
+  const latest = (field) => recent.find(r => isPlausible(field, r[field]));
+  const detail = (r) => `Sensor reading at ${time(r.timestamp)} UTC`;
+
+  const pulse = latest('bpm');
+  if (pulse) {
+    const finding = heartRateFinding(pulse.bpm, 'reading', detail(pulse));
+    if (finding && !findings.some(f => f.id === finding.id)) findings.push(finding);
+  }
+
+  const oxygen = latest('spo2');
+  if (oxygen?.spo2 < 90) findings.push({ id: 'spo2_critical', label: `Blood oxygen of ${oxygen.spo2}%`, level: 'emergency', source: 'reading', detail: detail(oxygen) });
+  else if (oxygen?.spo2 <= 92) findings.push({ id: 'spo2_low', label: `Blood oxygen of ${oxygen.spo2}%`, level: 'urgent', source: 'reading', detail: detail(oxygen) });
+
+  const pressure = recent.find(r => isPlausible('systolic', r.systolic) && isPlausible('diastolic', r.diastolic));
+  if (pressure && (pressure.systolic >= 180 || pressure.diastolic >= 120)) {
+    findings.push({ id: 'hypertensive_crisis', label: `Blood pressure of ${pressure.systolic}/${pressure.diastolic} mmHg`, level: 'urgent', source: 'reading', detail: detail(pressure) });
+  } else if (pressure && pressure.systolic < 90) {
+    findings.push({ id: 'hypotension', label: `Blood pressure of ${pressure.systolic}/${pressure.diastolic} mmHg`, level: 'urgent', source: 'reading', detail: detail(pressure) });
+  }
+
+  return findings;
+};
+
+/**
+ * Combines the message and measurement findings into one level with the
+ * guidance to show. Very high blood pressure together with any red-flag
+ * symptom is treated as an emergency.
+ *
+ * @param {{ text?: string, vitals?: { scans?: object[], readings?: object[] }, now?: Date }} input
+ * @returns {TriageResult}
+ */
+export const triage = ({ text = '', vitals, now = new Date() }) => {
+  const findings = [...assessSymptoms(text), ...(vitals ? assessVitals(vitals, now) : [])];
+  if (findings.some(f => f.source === 'message')) {
+    findings.forEach(f => { if (f.id === 'hypertensive_crisis') f.level = 'emergency'; });
+  }
+
+  const level = findings.some(f => f.level === 'emergency') ? 'emergency' : findings.length ? 'urgent' : 'none';
+  const guidance = level === 'none' ? [] : [
+    ...ADVICE[level],
+    ...findings.map(f => FINDING_ADVICE[f.id]).filter(Boolean)
+  ];
+  return { level, findings, guidance };
+};
+
+/** Triage findings for the model's system prompt */
+export const describeTriage = (result) => [
+  `Level: ${result.level.toUpperCase()}`,
+  ...result.findings.map(f => `- ${f.label} (${f.source === 'message' ? `patient wrote: "${f.detail}"` : f.detail})`)
+].join('\n');
@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { triage, assessSymptoms, assessVitals } from './triage.js';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const hoursAgo = (hours) => new Date(NOW.getTime() - hours * 3600 * 1000);
+const ids = (findings) => findings.map(f => f.id);
+
+test('red flags in the message', async (t) => {
+  const cases = [
+    ['I have chest pain spreading to my left arm', 'emergency', ['chest_pain_radiating']],
+    ['Chest pressure since this morning', 'urgent', ['chest_pain']],
+    ['Crushing pain and I am breathless', 'emergency', ['chest_pain_radiating']],
+    ['My face is drooping and my speech is slurred', 'emergency', ['stroke_signs']],
+    ['I fainted while running', 'emergency', ['syncope_cardiac']],
+    ['I passed out yesterday', 'urgent', ['syncope']],
+    ["I can't breathe", 'emergency', ['severe_breathlessness']],
+    ['What should I eat for breakfast?', 'none', []]
+  ];
+  for (const [text, level, expected] of cases) {
+    await t.test(text, () => {
+      const result = triage({ text, now: NOW });
+      assert.equal(result.level, level);
+      assert.deepEqual(ids(result.findings), expected);
+    });
+  }
+});
+
+test('negation covers only its own clause', async (t) => {
+  const cases = [
+    // A negator earlier in the sentence must not hide a later symptom
+    ["I'm not feeling well and I have chest pain spreading to my left arm", ['chest_pain_radiating']],
+    ['Not sleeping well, I have chest pain', ['chest_pain']],
+    ["I don't know why but I fainted", ['syncope']],
+    ['No fever, I passed out this morning', ['syncope']],
+    ['I never thought much of it now I have chest pain', ['chest_pain']],
+    // Still negated
+    ['No chest pain', []],
+    ["I don't have chest pain", []],
+    ['I have not had any chest pain', []],
+    ["I haven't fainted", []],
+    ['Without any weakness in my left arm', []],
+    ['Chest pain, not spreading to my arm', ['chest_pain']]
+  ];
+  for (const [text, expected] of cases) {
+    await t.test(text, () => assert.deepEqual(ids(assessSymptoms(text)), expected));
+  }
+});
+
+test('dangerous vitals', async (t) => {
+  await t.test('critical pulse and oxygen from a reading', () => {
+    const findings = assessVitals({ readings: [{ timestamp: hoursAgo(1), bpm: 160, spo2: 88 }] }, NOW);
+    assert.deepEqual(ids(findings), ['heart_rate_critical', 'spo2_critical']);
+  });
+
+  await t.test('scan heart rate, but never scan blood pressure', () => {
+    const findings = assessVitals({ scans: [{ timestamp: hoursAgo(1), heartRate: 125, bloodPressure: { systolic: 200, diastolic: 130 } }] }, NOW);
+    assert.deepEqual(ids(findings), ['heart_rate_abnormal']);
+  });
+
+  await t.test('low-quality scans and old readings are ignored', () => {
+    const findings = assessVitals({
+      scans: [{ timestamp: hoursAgo(1), heartRate: 170, qualityLevel: 'low' }],
+      readings: [{ timestamp: hoursAgo(30), bpm: 170, spo2: 85 }]
+    }, NOW);
+    assert.deepEqual(findings, []);
+  });
+
+  await t.test('very high blood pressure is an emergency with symptoms', () => {
+    const vitals = { readings: [{ timestamp: hoursAgo(1), systolic: 190, diastolic: 110 }] };
+    assert.equal(triage({ text: 'Just checking in', vitals, now: NOW }).level, 'urgent');
+    assert.equal(triage({ text: 'I have chest pain', vitals, now: NOW }).level, 'emergency');
+  });
+});
+
+test('implausible vitals are sensor glitches', async (t) => {
+  await t.test('a MAX30102 with no finger reports zeros', () => {
+    const result = triage({
+      text: 'what should I eat for breakfast?',
+      vitals: { readings: [{ timestamp: NOW, bpm: 0, spo2: 0 }] },
+      now: NOW
+    });
+    assert.equal(result.level, 'none');
+    assert.deepEqual(result.findings, []);
+  });
+
+  await t.test('the newest plausible value is used', () => {
+    const findings = assessVitals({
+      scans: [{ timestamp: hoursAgo(1), heartRate: 0 }, { timestamp: hoursAgo(2), heartRate: 35 }],
+      readings: [
+        { timestamp: hoursAgo(1), spo2: 0, systolic: 190, diastolic: 0 },
+        { timestamp: hoursAgo(2), spo2: 97, systolic: 120, diastolic: 80 }
+      ]
+    }, NOW);
+    assert.deepEqual(ids(findings), ['heart_rate_critical']);
+  });
+});
@@ -0,0 +1,23 @@
+// Ranges a vital sign can physically take, keyed by the HealthData field
+// names. Anything outside is a unit mix-up or a sensor glitch, such as the
+// zeros a MAX30102 reports with no finger on it. Used wherever readings are
+// stored, summarised or triaged so all of them discard the same values.
+
+/** @type {Record<'bpm' | 'restingHeartRate' | 'hrv' | 'spo2' | 'systolic' | 'diastolic', [number, number]>} */
+export const PLAUSIBLE_VITALS = {
+  bpm: [25, 250],
+  restingHeartRate: [25, 150],
+  hrv: [1, 500],
+  spo2: [50, 100],
+  systolic: [60, 260],
+  diastolic: [30, 160]
+};
+
+/**
+ * @param {keyof typeof PLAUSIBLE_VITALS} field
+ * @param {unknown} value
+ */
+export const isPlausible = (field, value) => {
+  const [min, max] = PLAUSIBLE_VITALS[field];
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+};
@@ -1,15 +1,140 @@
+import type { TriageResult } from './shared/triage.js';
 
 export enum View {
   DASHBOARD = 'DASHBOARD',
   CHAT = 'CHAT',
   REPORTS = 'REPORTS',
-  VITAL_SCAN = 'VITAL_SCAN'
+  VITAL_SCAN = 'VITAL_SCAN',
+  ACCOUNT = 'ACCOUNT',
+  PROFILE = 'PROFILE',
+  VISIT_SUMMARY = 'VISIT_SUMMARY'
 }
 
 export interface Message {
   role: 'user' | 'model';
   text: string;
   timestamp: Date;
+  stopped?: boolean;   // generation was cut short with the stop button
+  sources?: ChatSource[];   // reports and measurements the answer cites
+  triage?: TriageResult;    // red flags found in a patient message
+}
+
+// What a chat answer cites as [R1], [S1] or [D1] (backend/lib/chatSources.js)
+export interface ReportSource {
+  kind: 'report';
+  tag: string;
+  reportId: string;
+  reportType: string;
+  date: string;          // YYYY-MM-DD
+  fileNames: string[];
+  pages: number[];
+  excerpts: string[];
+}
+
+export interface VitalScanSource {
+  kind: 'scan';
+  tag: string;
+  scanId: string;
+  date: string;          // YYYY-MM-DD HH:mm, UTC
+  summary: string;
+}
+
+export interface ReadingSource {
+  kind: 'reading';
+  tag: string;
+  readingId: string;
+  device: string;        // "ESP32 sensor", "Apple Health", ...
+  date: string;
+  summary: string;
+}
+
+export type ChatSource = ReportSource | VitalScanSource | ReadingSource;
+
+export type ScanSource = 'browser' | 'server';
+
+export type SignalQuality = 'Excellent' | 'Good' | 'Fair' | 'Poor';
+
+// Shape returned by both the rPPG engine on port 8001 and the in-browser pipeline
+export interface RppgResponse {
+  success: boolean;
+  error?: string;
+  heart_rate: number;
+  hrv: number;
+  blood_pressure: {
+    systolic: number;
+    diastolic: number;
+  };
+  stress_index: number;
+  quality: SignalQuality;
+  confidence: number;
+  frames_processed: number;
+  face_frames: number;
+  duration_seconds: number;
+  method?: 'green' | 'chrom' | 'pos';
+  hrv_method?: 'rr' | 'estimated';
+  // Browser pipeline only
+  mean_luminance?: number;
+  motion_ratio?: number;
+}
+
+export type ScanQualityLevel = 'good' | 'low';
+
+export type RetakeReason = 'too_dark' | 'too_bright' | 'face_moved' | 'face_lost' | 'too_short' | 'weak_signal';
+
+export interface ScanQualityAssessment {
+  level: ScanQualityLevel;
+  reasons: RetakeReason[];
+  advice: string[];
+}
+
+export type ScanProtocolId = 'quick' | 'standard' | 'extended' | 'paced_breathing';
+
+export interface ScanProtocol {
+  id: ScanProtocolId;
+  label: string;
+  description: string;
+  durationSec: number;
+  countdownSec: number;
+  breathing?: {
+    inhaleSec: number;
+    exhaleSec: number;
+  };
+}
+
+export type FindingSeverity = 'normal' | 'borderline' | 'attention' | 'critical';
+
+export type VitalStatus = 'OPTIMAL' | 'STABLE' | 'ATTENTION' | 'URGENT';
+
+export interface Demographics {
+  age?: number;
+  sex?: 'male' | 'female';
+}
+
+export interface ReferenceRange {
+  low?: number;
+  high?: number;
+  label: string;
+}
+
+export interface MetricFinding {
+  metric: 'heart_rate' | 'hrv' | 'blood_pressure' | 'stress';
+  label: string;
+  value: string;
+  unit: string;
+  referenceRange: ReferenceRange;
+  severity: FindingSeverity;
+  summary: string;
+  estimated: boolean;
+}
+
+export interface VitalInterpretation {
+  status: VitalStatus;
+  findings: MetricFinding[];
+  summary: string;
+  verdict: string;
+  demographics: Demographics;
+  generatedAt: string;
+  narrative?: string;
 }
 
 export interface VitalScanResult {
@@ -20,8 +145,16 @@ export interface VitalScanResult {
     diastolic: number;
   };
   stressLevel: string;
+  stressIndex?: number;
   timestamp: string;
   aiInterpretation?: string;
+  source?: ScanSource;
+  signalQuality?: SignalQuality;
+  confidence?: number;
+  quality?: ScanQualityAssessment;
+  protocol?: ScanProtocolId;
+  hrvMethod?: 'rr' | 'estimated';
+  interpretation?: VitalInterpretation;
 }
 
 export interface HealthMetric {
@@ -34,3 +167,142 @@ export interface HealthMetric {
 export interface AppConfig {
   simulationMode: boolean;
 }
+
+export interface AuthUser {
+  id: string;
+  name: string;
+  email: string;
+  deviceKey?: string;
+  createdAt?: string;
+}
+
+export type SmokingStatus = 'never' | 'former' | 'current';
+export type DiabetesStatus = 'none' | 'prediabetes' | 'type1' | 'type2';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active';
+export type FamilyRelation = 'parent' | 'sibling' | 'child' | 'grandparent' | 'other';
+
+export interface Medication {
+  name: string;
+  dose?: string;
+}
+
+export interface FamilyHistoryEntry {
+  relation: FamilyRelation;
+  condition: string;
+  ageAtOnset?: number;
+}
+
+export interface UserProfile {
+  dateOfBirth?: string;      // YYYY-MM-DD
+  sex?: 'male' | 'female';
+  heightCm?: number;
+  weightKg?: number;
+  smoking: SmokingStatus;
+  diabetes: DiabetesStatus;
+  onBloodPressureMedication: boolean;
+  activityLevel?: ActivityLevel;
+  medications: Medication[];
+  conditions: string[];
+  allergies: string[];
+  familyHistory: FamilyHistoryEntry[];
+  updatedAt?: string;
+}
+
+// Word-level Tesseract output for an OCR'd page of an uploaded report
+export interface OcrWord {
+  text: string;
+  conf: number;              // 0-100
+  line: number;              // index into the page text's lines
+  bbox: [number, number, number, number];
+}
+
+export interface OcrPage {
+  page: number;
+  text: string;
+  confidence: number;
+  words: OcrWord[];
+}
+
+// A change the patient made while reviewing parsed lab values
+export interface LabEdit {
+  analyte: string;
+  action: 'corrected' | 'added' | 'removed';
+  from?: number;
+  to?: number;
+  unit?: string;
+  editedAt: string;
+}
+
+// Compiled by POST /api/visit-summary (backend/lib/visitSummary.js)
+export type VitalSource = 'scan' | 'device' | 'sensor' | 'wearable';
+
+export interface VitalStat {
+  key: string;
+  label: string;
+  unit: string;
+  range: string | null;      // normal range, null where there is none
+  count: number;
+  mean: number;
+  min: number;
+  max: number;
+  below: number;             // readings under the range
+  above: number;             // readings over the range
+  bySource: Partial<Record<VitalSource, number>>;
+}
+
+export interface LabChangePoint {
+  value: number;
+  flag: 'low' | 'normal' | 'high';
+  date: string;
+  verified: boolean;
+}
+
+export interface LabChange {
+  analyte: string;
+  name: string;
+  unit: string;
+  referenceRange?: string;
+  previous: LabChangePoint | null;   // may predate the range
+  latest: LabChangePoint;
+  change: number | null;
+}
+
+export interface ReportedSymptom {
+  symptom: string;
+  label: string;
+  count: number;
+  firstReported: string;
+  lastReported: string;
+  excerpts: string[];
+}
+
+export interface VisitSummary {
+  from: string;
+  to: string;
+  generatedAt: string;
+  readingCounts: Record<VitalSource, number>;
+  vitals: VitalStat[];
+  labChanges: LabChange[];
+  symptoms: ReportedSymptom[];
+  reports: { id: string; reportType: string; fileNames: string[]; uploadedAt: string; labCount: number; reviewed: boolean }[];
+  overview: string | null;   // null when the AI overview could not be written
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface ChatSession extends ChatSessionSummary {
+  messages: Message[];
+  // Reports the assistant drew on during the conversation
+  reports: { id: string; reportType: string; fileNames: string[]; uploadedAt: string }[];
+}
+
+// Defined alongside the shared modules the backend also imports
+export type { CardioRiskResult, RiskInputStatus, RiskEnhancer, RiskCategory } from './shared/cardioRisk.js';
+export type { LabResult, LabFlag, LabReferenceRange } from './shared/labParser.js';
+export type { TriageResult, TriageFinding, TriageLevel } from './shared/triage.js';